@@ -1,38 +1,21 @@
 // Load .env BEFORE any other imports that depend on env vars
-import { existsSync } from "node:fs";
-import { dirname, resolve } from "node:path";
-import { fileURLToPath } from "node:url";
-import { config } from "dotenv";
-
-const __dirname = dirname(fileURLToPath(import.meta.url));
-
-// Try to find .env in multiple locations
-const possiblePaths = [
-	resolve(process.cwd(), ".env"), // Root when running from root
-	resolve(process.cwd(), "../../.env"), // Root when running from apps/api
-	resolve(__dirname, "../../../..", ".env"), // Relative to this file
-	resolve(__dirname, "..", ".env"), // apps/api/.env
-];
-
-const envPath = possiblePaths.find((p) => existsSync(p));
-if (envPath) {
-	console.log(`[api] Loading .env from: ${envPath}`);
-	config({ path: envPath });
-} else {
-	console.warn("[api] No .env file found");
-	config();
-}
+import "./load-env";
 
 // Now import everything else
 const { serve } = await import("@hono/node-server");
 const { Hono } = await import("hono");
 const { cors } = await import("hono/cors");
 const { auth } = await import("./lib/auth");
+const { checkEmbeddingHealth, getEmbeddingProvider } = await import("./lib/embeddings");
+const { registerJobHandlers } = await import("./lib/jobs");
+const { startWorker } = await import("./lib/queue");
+const { startCrawlScheduler } = await import("./lib/scheduler");
 const { authMiddleware } = await import("./middleware/auth");
 const { agentsRoute } = await import("./routes/agents");
 const { chat } = await import("./routes/chat");
 const { conversationsRoute } = await import("./routes/conversations");
 const { interfaceSettingsRoute } = await import("./routes/interface-settings");
+const { jobsRoute } = await import("./routes/jobs");
 const { qaSourcesRoute } = await import("./routes/qa-sources");
 const { team } = await import("./routes/team");
 const { textSourcesRoute } = await import("./routes/text-sources");
@@ -82,8 +65,11 @@ app.get("/", (c) => {
 	return c.json({ message: "Hello from Hono!" });
 });
 
-app.get("/health", (c) => {
-	return c.json({ status: "ok" });
+// "degraded" while the embedding backend is down: chat still works, but new content can't be
+// embedded and search falls back to keywords
+app.get("/health", async (c) => {
+	const embedding = await checkEmbeddingHealth();
+	return c.json({ status: embedding.status === "ok" ? "ok" : "degraded", embedding });
 });
 
 app.route("/chat", chat);
@@ -102,6 +88,18 @@ app.route("/analytics", analytics);
 app.route("/tools", toolsRoute);
 app.route("/marketplace", marketplace);
 app.route("/web-sources", webSourcesRoute);
+app.route("/jobs", jobsRoute);
+
+// Fail fast on a misconfigured embedding provider
+getEmbeddingProvider();
+
+// Run queued ingestion jobs and scheduled crawls in this process, unless they have a separate
+// worker (src/worker.ts)
+if (process.env.START_WORKER !== "false") {
+	registerJobHandlers();
+	startWorker();
+	startCrawlScheduler();
+}
 
 const port = Number(process.env.PORT) || 3001;
 
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { chunkText } from "./chunker";
+import { htmlToMarkdown } from "./html";
+
+// One token per character keeps sizes easy to reason about
+const countChars = (text: string) => text.length;
+
+describe("chunkText (structured)", () => {
+	it("splits on headings and prefixes each chunk with its heading path", () => {
+		const markdown = [
+			"# Pricing",
+			"Plans are billed monthly.",
+			"## Pro",
+			"- Unlimited agents",
+			"- Priority support",
+			"## Enterprise",
+			"Contact sales.",
+		].join("\n");
+
+		expect(chunkText(markdown, { strategy: "structured" })).toEqual([
+			"Pricing\n\nPlans are billed monthly.",
+			"Pricing > Pro\n\n- Unlimited agents\n- Priority support",
+			"Pricing > Enterprise\n\nContact sales.",
+		]);
+	});
+
+	it("keeps code fences and tables whole even when they exceed the chunk size", () => {
+		const code = ["```ts", ...Array.from({ length: 20 }, (_, i) => `const x${i} = ${i};`), "```"];
+		const table = ["| Plan | Price |", "| --- | --- |", "| Pro | $20 |"];
+		const chunks = chunkText(["# Setup", ...code, "", ...table].join("\n"), {
+			strategy: "structured",
+			chunkSize: 100,
+			countTokens: countChars,
+		});
+
+		expect(chunks).toEqual([`Setup\n\n${code.join("\n")}`, `Setup\n\n${table.join("\n")}`]);
+	});
+
+	it("falls back to the fixed splitter for long paragraphs", () => {
+		const paragraph = "Sentence number one is here. ".repeat(20).trim();
+		const chunks = chunkText(`# Notes\n${paragraph}`, {
+			strategy: "structured",
+			chunkSize: 200,
+			chunkOverlap: 20,
+			countTokens: countChars,
+		});
+
+		expect(chunks.length).toBeGreaterThan(1);
+		expect(chunks.every((c) => c.startsWith("Notes\n\n") && c.length <= 200)).toBe(true);
+	});
+});
+
+describe("chunkText (fixed)", () => {
+	it("sizes chunks by token count and repeats trailing sentences as overlap", () => {
+		const text = "One two three. Four five six. Seven eight nine. Ten eleven twelve.";
+		const countWords = (t: string) => t.split(/\s+/).filter(Boolean).length;
+
+		expect(chunkText(text, { chunkSize: 6, chunkOverlap: 3, countTokens: countWords })).toEqual([
+			"One two three. Four five six.",
+			"Four five six. Seven eight nine.",
+			"Seven eight nine. Ten eleven twelve.",
+		]);
+	});
+
+	it("splits text without spaces, such as CJK, by character runs", () => {
+		const text = "日本語のテキストは単語の間にスペースがありません";
+
+		const chunks = chunkText(text, { chunkSize: 10, chunkOverlap: 0, countTokens: countChars });
+
+		expect(chunks.join("")).toBe(text);
+		expect(chunks.every((c) => c.length <= 10)).toBe(true);
+	});
+});
+
+describe("htmlToMarkdown", () => {
+	it("keeps headings, list items and tables", () => {
+		const html =
+			"<h2>Shipping</h2><p>We ship &amp; deliver.</p><ul><li>EU</li><li>US</li></ul>" +
+			"<table><tr><th>Zone</th><th>Days</th></tr><tr><td>EU</td><td>3</td></tr></table>";
+
+		expect(htmlToMarkdown(html)).toBe(
+			"## Shipping\n\nWe ship & deliver.\n\n- EU\n- US\n\n| Zone | Days |\n| --- | --- |\n| EU | 3 |",
+		);
+	});
+});
@@ -1,51 +1,246 @@
+import { estimateTokens, type TokenCounter } from "./tokens";
+
+// "fixed" splits whitespace-collapsed text on a token count, "structured" follows
+// Markdown structure: headings, paragraphs, lists, tables and code fences
+export type ChunkStrategy = "fixed" | "structured";
+
+export const CHUNK_STRATEGIES: ChunkStrategy[] = ["fixed", "structured"];
+
 export interface ChunkOptions {
-	maxChunkSize?: number;
-	overlap?: number;
+	chunkSize?: number; // max tokens per chunk
+	chunkOverlap?: number; // tokens repeated from the end of the previous chunk (fixed strategy)
+	strategy?: ChunkStrategy;
+	// Defaults to estimateTokens; pass the embedding model's tokenizer for exact sizes
+	countTokens?: TokenCounter;
 }
 
-const DEFAULT_CHUNK_SIZE = 1000;
-const DEFAULT_OVERLAP = 200;
+export const DEFAULT_CHUNK_SIZE = 256;
+export const DEFAULT_CHUNK_OVERLAP = 50;
 
 export function chunkText(text: string, options: ChunkOptions = {}): string[] {
-	const maxChunkSize = options.maxChunkSize ?? DEFAULT_CHUNK_SIZE;
-	const overlap = options.overlap ?? DEFAULT_OVERLAP;
+	if (options.strategy === "structured") {
+		return chunkStructured(text, options);
+	}
+	return chunkFixed(text, options);
+}
+
+// Longest prefixes (by code point) that fit in maxTokens, for text with no usable breaks
+// such as CJK without punctuation or minified code
+function splitByCharacters(text: string, maxTokens: number, count: TokenCounter): string[] {
+	const chars = Array.from(text);
+	const pieces: string[] = [];
+	let start = 0;
+	while (start < chars.length) {
+		let low = start + 1;
+		let high = chars.length;
+		while (low < high) {
+			const mid = Math.ceil((low + high) / 2);
+			if (count(chars.slice(start, mid).join("")) <= maxTokens) {
+				low = mid;
+			} else {
+				high = mid - 1;
+			}
+		}
+		pieces.push(chars.slice(start, low).join(""));
+		start = low;
+	}
+	return pieces;
+}
+
+// Break text into sentences (including CJK full stops), then words, then character runs,
+// until every piece fits in maxTokens. Pieces keep their trailing whitespace.
+function splitUnits(text: string, maxTokens: number, count: TokenCounter): string[] {
+	const units: string[] = [];
+	for (const sentence of text.match(/[^.!?。！？]*(?:[.!?。！？]+|$)\s*/g) ?? []) {
+		if (!sentence) {
+			continue;
+		}
+		if (count(sentence) <= maxTokens) {
+			units.push(sentence);
+			continue;
+		}
+		for (const word of sentence.match(/\S+\s*/g) ?? []) {
+			units.push(
+				...(count(word) <= maxTokens ? [word] : splitByCharacters(word, maxTokens, count)),
+			);
+		}
+	}
+	return units;
+}
+
+function chunkFixed(text: string, options: ChunkOptions): string[] {
+	const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+	const overlap = Math.min(options.chunkOverlap ?? DEFAULT_CHUNK_OVERLAP, chunkSize / 2);
+	const count = options.countTokens ?? estimateTokens;
 
 	const cleanedText = text.replace(/\s+/g, " ").trim();
 
-	if (cleanedText.length <= maxChunkSize) {
+	if (count(cleanedText) <= chunkSize) {
 		return [cleanedText];
 	}
 
 	const chunks: string[] = [];
-	let start = 0;
+	let window: Array<{ text: string; tokens: number }> = [];
+	let windowTokens = 0;
 
-	while (start < cleanedText.length) {
-		let end = start + maxChunkSize;
+	for (const unit of splitUnits(cleanedText, chunkSize, count)) {
+		const tokens = count(unit);
+		if (window.length > 0 && windowTokens + tokens > chunkSize) {
+			chunks.push(
+				window
+					.map((u) => u.text)
+					.join("")
+					.trim(),
+			);
 
-		if (end < cleanedText.length) {
-			// Find sentence boundary
-			const slice = cleanedText.slice(start, end);
-			const lastPeriod = slice.lastIndexOf(". ");
-			const lastNewline = slice.lastIndexOf("\n");
-			const lastQuestion = slice.lastIndexOf("? ");
-			const lastExclaim = slice.lastIndexOf("! ");
+			// Start the next chunk with the trailing units that fit in the overlap
+			let kept = 0;
+			let keptTokens = 0;
+			while (
+				kept < window.length &&
+				keptTokens + window[window.length - 1 - kept].tokens <= overlap &&
+				keptTokens + window[window.length - 1 - kept].tokens + tokens <= chunkSize
+			) {
+				keptTokens += window[window.length - 1 - kept].tokens;
+				kept++;
+			}
+			window = kept > 0 ? window.slice(-kept) : [];
+			windowTokens = keptTokens;
+		}
+		window.push({ text: unit, tokens });
+		windowTokens += tokens;
+	}
+
+	const last = window
+		.map((u) => u.text)
+		.join("")
+		.trim();
+	if (last) {
+		chunks.push(last);
+	}
 
-			const boundary = Math.max(lastPeriod, lastNewline, lastQuestion, lastExclaim);
+	return chunks;
+}
 
-			if (boundary > maxChunkSize * 0.5) {
-				end = start + boundary + 1;
+interface Block {
+	text: string;
+	atomic: boolean; // tables and code fences are never split
+}
+
+interface Section {
+	headings: string[]; // heading path, outermost first
+	blocks: Block[];
+}
+
+const HEADING = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const FENCE = /^\s*(```|~~~)/;
+const TABLE_ROW = /^\s*\|/;
+
+// Split Markdown into sections at each heading, and each section into blocks separated by
+// blank lines. Whitespace inside lines is collapsed but line breaks are kept.
+function parseSections(text: string): Section[] {
+	const lines = text.replace(/\r\n?/g, "\n").split("\n");
+	const path: Array<{ level: number; title: string }> = [];
+	const sections: Section[] = [{ headings: [], blocks: [] }];
+	let paragraph: string[] = [];
+
+	const current = () => sections[sections.length - 1];
+	const flushParagraph = () => {
+		if (paragraph.length > 0) {
+			current().blocks.push({ text: paragraph.join("\n"), atomic: false });
+			paragraph = [];
+		}
+	};
+
+	for (let i = 0; i < lines.length; i++) {
+		const line = lines[i];
+
+		const fence = line.match(FENCE);
+		if (fence) {
+			flushParagraph();
+			const code = [line];
+			while (++i < lines.length) {
+				code.push(lines[i]);
+				if (lines[i].trim().startsWith(fence[1])) {
+					break;
+				}
+			}
+			current().blocks.push({ text: code.join("\n"), atomic: true });
+			continue;
+		}
+
+		if (TABLE_ROW.test(line)) {
+			flushParagraph();
+			const rows = [line.trim()];
+			while (i + 1 < lines.length && TABLE_ROW.test(lines[i + 1])) {
+				rows.push(lines[++i].trim());
 			}
+			current().blocks.push({ text: rows.join("\n"), atomic: true });
+			continue;
 		}
 
-		const chunk = cleanedText.slice(start, end).trim();
-		if (chunk) {
-			chunks.push(chunk);
+		const heading = line.match(HEADING);
+		if (heading) {
+			flushParagraph();
+			const level = heading[1].length;
+			while (path.length > 0 && path[path.length - 1].level >= level) {
+				path.pop();
+			}
+			path.push({ level, title: heading[2] });
+			sections.push({ headings: path.map((h) => h.title), blocks: [] });
+			continue;
 		}
 
-		start = end - overlap;
-		if (start >= cleanedText.length - overlap) {
-			break;
+		const trimmed = line.replace(/[ \t]+/g, " ").trim();
+		if (trimmed) {
+			paragraph.push(trimmed);
+		} else {
+			flushParagraph();
+		}
+	}
+	flushParagraph();
+
+	return sections.filter((s) => s.blocks.length > 0);
+}
+
+// Pack each section's blocks into chunks of up to chunkSize tokens, each prefixed with the
+// section's heading path so the chunk still makes sense on its own. Sections don't overlap;
+// only paragraphs too long for one chunk fall back to the fixed splitter (with overlap).
+function chunkStructured(text: string, options: ChunkOptions): string[] {
+	const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+	const count = options.countTokens ?? estimateTokens;
+	const chunks: string[] = [];
+
+	for (const section of parseSections(text)) {
+		const prefix = section.headings.length > 0 ? `${section.headings.join(" > ")}\n\n` : "";
+		const budget = Math.max(chunkSize - count(prefix), Math.floor(chunkSize / 2));
+		let body: string[] = [];
+		let size = 0;
+
+		const flush = () => {
+			if (body.length > 0) {
+				chunks.push(`${prefix}${body.join("\n\n")}`);
+				body = [];
+				size = 0;
+			}
+		};
+
+		for (const block of section.blocks) {
+			const tokens = count(block.text);
+			if (!block.atomic && tokens > budget) {
+				flush();
+				for (const piece of chunkFixed(block.text, { ...options, chunkSize: budget })) {
+					chunks.push(`${prefix}${piece}`);
+				}
+				continue;
+			}
+			if (size > 0 && size + tokens > budget) {
+				flush();
+			}
+			body.push(block.text);
+			size += tokens;
 		}
+		flush();
 	}
 
 	return chunks;
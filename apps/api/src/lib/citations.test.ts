@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { formatSources, getCitations, numberSources } from "./citations";
+
+const results = [
+	{
+		id: "c1",
+		content: "Refunds take 5 days.",
+		score: 0.9,
+		source: { type: "document" as const, sourceId: "d1", title: "policy.pdf" },
+	},
+	{
+		id: "c2",
+		content: "Shipping is free over $50.",
+		score: 0.8,
+		source: {
+			type: "web" as const,
+			sourceId: "p1",
+			title: "Shipping",
+			url: "https://example.com/shipping",
+		},
+	},
+	{
+		id: "c3",
+		content: "Refunds go to the original card.",
+		score: 0.7,
+		source: { type: "document" as const, sourceId: "d1", title: "policy.pdf" },
+	},
+];
+
+describe("citations", () => {
+	it("gives chunks from the same source one number", () => {
+		const sources = numberSources(results);
+
+		expect(sources.map((s) => [s.index, s.chunks.length])).toEqual([
+			[1, 2],
+			[2, 1],
+		]);
+		expect(formatSources(sources)).toContain(
+			"[1] policy.pdf\nRefunds take 5 days.\n\nRefunds go to the original card.",
+		);
+	});
+
+	it("returns only the sources the answer cites", () => {
+		const sources = numberSources(results);
+
+		expect(getCitations("Shipping is free over $50 [2].", sources)).toEqual([
+			{
+				index: 2,
+				type: "web",
+				sourceId: "p1",
+				title: "Shipping",
+				url: "https://example.com/shipping",
+			},
+		]);
+		expect(getCitations("No sources here. [7]", sources)).toEqual([]);
+	});
+
+	it("records the document version a citation came from", () => {
+		const sources = numberSources([
+			{ ...results[0], source: { ...results[0].source, version: 3 } },
+		]);
+
+		expect(getCitations("Refunds take 5 days [1].", sources)).toEqual([
+			{ index: 1, type: "document", sourceId: "d1", title: "policy.pdf", version: 3 },
+		]);
+	});
+});
@@ -0,0 +1,42 @@
+import type { Citation, SourceOrigin, VectorSearchResult } from "@vela/types";
+
+// Retrieved context numbered for the prompt; chunks from the same origin share a number
+export interface NumberedSource {
+	index: number;
+	origin?: SourceOrigin;
+	chunks: string[];
+}
+
+export function numberSources(results: VectorSearchResult[]): NumberedSource[] {
+	const byKey = new Map<string, NumberedSource>();
+	for (const result of results) {
+		const key = result.source ? `${result.source.type}:${result.source.sourceId}` : result.id;
+		const existing = byKey.get(key);
+		if (existing) {
+			existing.chunks.push(result.content);
+		} else {
+			byKey.set(key, { index: byKey.size + 1, origin: result.source, chunks: [result.content] });
+		}
+	}
+	return [...byKey.values()];
+}
+
+export function formatSources(sources: NumberedSource[]): string {
+	return sources
+		.map((s) => {
+			const title = s.origin ? ` ${s.origin.title}` : "";
+			return `[${s.index}]${title}\n${s.chunks.join("\n\n")}`;
+		})
+		.join("\n\n");
+}
+
+// Sources referenced by [n] markers in the answer, in index order
+export function getCitations(text: string, sources: NumberedSource[]): Citation[] {
+	const cited = new Set([...text.matchAll(/\[(\d+)\]/g)].map((m) => Number(m[1])));
+	return sources
+		.filter((s) => s.origin && cited.has(s.index))
+		.map((s) => {
+			const origin = s.origin as SourceOrigin;
+			return { index: s.index, ...origin };
+		});
+}
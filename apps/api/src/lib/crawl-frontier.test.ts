@@ -0,0 +1,200 @@
+import { describe, expect, it } from "vitest";
+import {
+	CrawlFrontier,
+	compileUrlPattern,
+	createUrlFilter,
+	extractLinks,
+	extractMarkdownLinks,
+	HostLimiter,
+	invalidUrlPattern,
+	normalizeUrl,
+} from "./crawl-frontier";
+
+describe("normalizeUrl", () => {
+	it("drops fragments, default ports and tracking parameters and sorts the query", () => {
+		expect(normalizeUrl("HTTPS://Example.com:443/docs?b=2&utm_source=x&a=1#intro")).toBe(
+			"https://example.com/docs?a=1&b=2",
+		);
+		expect(normalizeUrl("/pricing#plans", "https://example.com/docs/")).toBe(
+			"https://example.com/pricing",
+		);
+		expect(normalizeUrl("mailto:help@example.com")).toBeNull();
+		expect(normalizeUrl("http://")).toBeNull();
+	});
+});
+
+describe("compileUrlPattern", () => {
+	it("matches globs against the path", () => {
+		const docs = compileUrlPattern("/docs/**");
+		expect(docs.test("https://example.com/docs")).toBe(true);
+		expect(docs.test("https://example.com/docs/api/auth")).toBe(true);
+		expect(docs.test("https://example.com/docsearch")).toBe(false);
+
+		const posts = compileUrlPattern("/blog/*");
+		expect(posts.test("https://example.com/blog/launch")).toBe(true);
+		expect(posts.test("https://example.com/blog/2024/launch")).toBe(false);
+
+		expect(compileUrlPattern("*.pdf").test("https://example.com/files/terms.pdf")).toBe(true);
+		expect(compileUrlPattern("/search?*").test("https://example.com/search?q=refunds")).toBe(true);
+	});
+
+	it("matches whole-URL globs and regexes against the whole URL", () => {
+		expect(
+			compileUrlPattern("https://docs.example.com/**").test("https://docs.example.com/a"),
+		).toBe(true);
+		expect(compileUrlPattern("/\\/v[0-9]+\\//").test("https://example.com/api/v2/users")).toBe(
+			true,
+		);
+		expect(invalidUrlPattern(["/docs/**", "/(unclosed/"])).toMatch(/^\/\(unclosed\/: /);
+	});
+
+	it("refuses regexes prone to catastrophic backtracking", () => {
+		expect(invalidUrlPattern(["/(a+)+$/"])).toMatch(/nested repetition/);
+		expect(invalidUrlPattern(["/^(?:(\\w+)\\/?)*$/"])).toMatch(/nested repetition/);
+		expect(invalidUrlPattern(["/(\\w+)-\\1/"])).toMatch(/backreferences/);
+		expect(invalidUrlPattern([`/${"a".repeat(201)}/`])).toMatch(/longer than 200/);
+		expect(invalidUrlPattern(["/\\/v[0-9]+\\//", "/(docs|guides)+/", "/[(+]+/"])).toBe(null);
+	});
+});
+
+describe("createUrlFilter", () => {
+	it("requires an include match, if any, and no exclude match", () => {
+		const passes = createUrlFilter(["/docs/**", "/guides/**"], ["/docs/legacy/**"]);
+
+		expect(passes("https://example.com/docs/setup")).toBe(true);
+		expect(passes("https://example.com/docs/legacy/setup")).toBe(false);
+		expect(passes("https://example.com/pricing")).toBe(false);
+		expect(createUrlFilter([], [])("https://example.com/pricing")).toBe(true);
+	});
+});
+
+describe("extractLinks", () => {
+	it("resolves <a> links against the page or its <base>, skipping nofollow", () => {
+		const html = `
+			<a href="/pricing#plans">Pricing</a>
+			<a href='guide?b=2&amp;a=1'>Guide</a>
+			<a href=/about>About</a>
+			<a rel="nofollow" href="/login">Log in</a>
+			<a href="mailto:help@example.com">Email</a>
+			<!-- <a href="/old">Old</a> -->
+			<link rel="stylesheet" href="/style.css">`;
+
+		expect(extractLinks(html, "https://example.com/docs/")).toEqual([
+			"https://example.com/pricing",
+			"https://example.com/docs/guide?a=1&b=2",
+			"https://example.com/about",
+		]);
+		expect(
+			extractLinks('<base href="/v2/"><a href="setup">Setup</a>', "https://example.com/docs/"),
+		).toEqual(["https://example.com/v2/setup"]);
+	});
+
+	it("finds links in Markdown", () => {
+		expect(
+			extractMarkdownLinks(
+				'See [setup](/docs/setup) and [API](https://example.com/api "API").',
+				"https://example.com/",
+			),
+		).toEqual(["https://example.com/docs/setup", "https://example.com/api"]);
+	});
+});
+
+describe("CrawlFrontier", () => {
+	it("visits breadth-first and stops claiming at maxPages", async () => {
+		const links: Record<string, string[]> = {
+			"/": ["/a", "/b", "/"],
+			"/a": ["/a1", "/b"],
+			"/b": ["/b1", "/b2"],
+		};
+		const frontier = new CrawlFrontier(4);
+		frontier.claim("/");
+		frontier.push({ url: "/", depth: 0 });
+		const visited: string[] = [];
+
+		await frontier.drain(1, async ({ url, depth }) => {
+			visited.push(url);
+			for (const link of links[url] ?? []) {
+				if (frontier.claim(link)) frontier.push({ url: link, depth: depth + 1 });
+			}
+		});
+
+		expect(visited).toEqual(["/", "/a", "/b", "/a1"]);
+		expect(frontier.size).toBe(4);
+	});
+
+	it("runs visits concurrently and stops after a failed one", async () => {
+		const frontier = new CrawlFrontier(10);
+		for (const url of ["/1", "/2", "/3", "/4"]) {
+			frontier.claim(url);
+			frontier.push({ url, depth: 0 });
+		}
+		const started: string[] = [];
+
+		await expect(
+			frontier.drain(2, async ({ url }) => {
+				started.push(url);
+				await new Promise((resolve) => setTimeout(resolve, 5));
+				if (url === "/1") throw new Error("database down");
+			}),
+		).rejects.toThrow("database down");
+		expect(started).toEqual(["/1", "/2"]);
+	});
+
+	it("lets running visits finish when stopped", async () => {
+		const frontier = new CrawlFrontier(10);
+		for (const url of ["/1", "/2", "/3"]) {
+			frontier.claim(url);
+			frontier.push({ url, depth: 0 });
+		}
+		const finished: string[] = [];
+
+		await frontier.drain(2, async ({ url }) => {
+			if (url === "/2") frontier.stop();
+			await new Promise((resolve) => setTimeout(resolve, 5));
+			frontier.push({ url: `${url}/child`, depth: 1 });
+			finished.push(url);
+		});
+
+		expect(finished).toEqual(["/1", "/2"]);
+	});
+});
+
+describe("HostLimiter", () => {
+	it("limits concurrent requests per host", async () => {
+		const limiter = new HostLimiter(2);
+		const active: Record<string, number> = {};
+		let peak = 0;
+
+		const request = (url: string) =>
+			limiter.run(url, async () => {
+				const { host } = new URL(url);
+				active[host] = (active[host] ?? 0) + 1;
+				peak = Math.max(peak, active[host]);
+				await new Promise((resolve) => setTimeout(resolve, 5));
+				active[host]--;
+			});
+
+		await Promise.all([
+			...["/1", "/2", "/3", "/4", "/5"].map((path) => request(`https://a.example.com${path}`)),
+			request("https://b.example.com/1"),
+		]);
+
+		expect(peak).toBe(2);
+	});
+
+	it("spaces requests to a host by its crawl delay", async () => {
+		const limiter = new HostLimiter(4, () => 30);
+		const starts: number[] = [];
+
+		await Promise.all(
+			[1, 2, 3].map((n) =>
+				limiter.run(`https://example.com/${n}`, async () => {
+					starts.push(Date.now());
+				}),
+			),
+		);
+
+		expect(starts[1] - starts[0]).toBeGreaterThanOrEqual(25);
+		expect(starts[2] - starts[1]).toBeGreaterThanOrEqual(25);
+	});
+});
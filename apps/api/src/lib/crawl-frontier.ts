@@ -0,0 +1,276 @@
+import { decodeEntities } from "./html";
+
+// Building blocks of the web crawler: URL normalisation, include/exclude rules, link extraction,
+// and a breadth-first frontier that visits pages concurrently with a per-host limit.
+
+// Query parameters that only track where a visitor came from
+const TRACKING_PARAMS = /^(utm_\w+|gclid|fbclid|mc_cid|mc_eid|ref_src)$/i;
+
+// The canonical form of a URL, so the same page is crawled once: no fragment or tracking
+// parameters, sorted query. The URL parser already lowercases the host and drops default ports.
+// Returns null for anything but http(s) URLs.
+export function normalizeUrl(url: string, base?: string): string | null {
+	let parsed: URL;
+	try {
+		parsed = new URL(url, base);
+	} catch {
+		return null;
+	}
+	if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+		return null;
+	}
+
+	parsed.hash = "";
+	const params = [...parsed.searchParams].filter(([name]) => !TRACKING_PARAMS.test(name));
+	params.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+	parsed.search = new URLSearchParams(params).toString();
+	return parsed.href;
+}
+
+// Longest regex pattern accepted
+const MAX_REGEX_LENGTH = 200;
+
+// A quantifier at position i that repeats without a small fixed bound: *, + or {n,}
+function isRepetition(source: string, i: number): boolean {
+	return /^(?:[*+]|\{\d+,\d*\})/.test(source.slice(i));
+}
+
+// Why a user-supplied regex could backtrack catastrophically, or null. Patterns run against every
+// URL a crawl discovers, in the worker, so long patterns, backreferences and a repeated group
+// that repeats something itself, as in (a+)+, are refused.
+function unsafeRegex(source: string): string | null {
+	if (source.length > MAX_REGEX_LENGTH) {
+		return `regex longer than ${MAX_REGEX_LENGTH} characters`;
+	}
+	// Whether each enclosing group, and the current one, contains a repetition
+	const enclosing: boolean[] = [];
+	let repeats = false;
+	let inClass = false;
+	for (let i = 0; i < source.length; i++) {
+		const char = source[i];
+		if (char === "\\") {
+			if (/[1-9k]/.test(source[i + 1] ?? "")) {
+				return "backreferences are not allowed";
+			}
+			i++;
+		} else if (inClass) {
+			inClass = char !== "]";
+		} else if (char === "[") {
+			inClass = true;
+		} else if (char === "(") {
+			enclosing.push(repeats);
+			repeats = false;
+		} else if (char === ")") {
+			if (repeats && isRepetition(source, i + 1)) {
+				return "nested repetition such as (a+)+ is not allowed";
+			}
+			repeats = (enclosing.pop() ?? false) || repeats;
+		} else if (isRepetition(source, i)) {
+			repeats = true;
+		}
+	}
+	return null;
+}
+
+// Compiles an include/exclude pattern. "/.../" (with optional flags) is a regex tested against
+// the whole URL; patterns prone to catastrophic backtracking are refused. Anything else is a glob: "*" matches within one path segment, "**" across
+// segments, and "/docs/**" matches /docs itself too. Globs starting with a scheme match the whole
+// URL, globs starting with "/" the path and query, and other globs the end of the path, so
+// "*.pdf" matches PDFs in any directory.
+export function compileUrlPattern(pattern: string): { test(url: string): boolean } {
+	const regex = pattern.match(/^\/(.+)\/([a-z]*)$/);
+	if (regex) {
+		const unsafe = unsafeRegex(regex[1]);
+		if (unsafe) {
+			throw new Error(unsafe);
+		}
+		return new RegExp(regex[1], regex[2]);
+	}
+
+	const wholeUrl = /^https?:\/\//i.test(pattern);
+	const glob = wholeUrl || pattern.startsWith("/") ? pattern : `**/${pattern}`;
+	let source = "";
+	for (let i = 0; i < glob.length; i++) {
+		if (glob.startsWith("/**", i) && i + 3 === glob.length) {
+			source += "(?:/.*)?";
+			i += 2;
+		} else if (glob.startsWith("**", i)) {
+			source += ".*";
+			i += 1;
+		} else if (glob[i] === "*") {
+			source += "[^/]*";
+		} else {
+			source += glob[i].replace(/[.+?^${}()|[\]\\/]/g, "\\$&");
+		}
+	}
+	const compiled = new RegExp(`^${source}$`, wholeUrl ? "i" : "");
+
+	return {
+		test(url: string) {
+			if (wholeUrl) return compiled.test(url);
+			const { pathname, search } = new URL(url);
+			return compiled.test(pathname) || (search !== "" && compiled.test(`${pathname}${search}`));
+		},
+	};
+}
+
+// The first pattern that fails to compile, with the reason, for validating user input
+export function invalidUrlPattern(patterns: string[]): string | null {
+	for (const pattern of patterns) {
+		try {
+			compileUrlPattern(pattern);
+		} catch (error) {
+			return `${pattern}: ${error instanceof Error ? error.message : "invalid pattern"}`;
+		}
+	}
+	return null;
+}
+
+// Whether a URL passes a source's rules: it must match an include pattern, if there are any,
+// and no exclude pattern
+export function createUrlFilter(include: string[], exclude: string[]): (url: string) => boolean {
+	const includes = include.map(compileUrlPattern);
+	const excludes = exclude.map(compileUrlPattern);
+	return (url) =>
+		(includes.length === 0 || includes.some((pattern) => pattern.test(url))) &&
+		!excludes.some((pattern) => pattern.test(url));
+}
+
+// Normalised targets of a page's <a href> links, skipping rel="nofollow". Relative links
+// resolve against the page's <base href> when it has one.
+export function extractLinks(html: string, pageUrl: string): string[] {
+	const baseHref = html.match(/<base\s[^>]*href\s*=\s*["']([^"']+)["']/i)?.[1];
+	const base = (baseHref && normalizeUrl(decodeEntities(baseHref), pageUrl)) || pageUrl;
+	const links = new Set<string>();
+
+	for (const [tag] of html.replace(/<!--[\s\S]*?-->/g, "").matchAll(/<a\s[^>]*>/gi)) {
+		if (/\brel\s*=\s*["'][^"']*\bnofollow\b/i.test(tag)) continue;
+		const href = tag.match(/\shref\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/i);
+		const value = href?.[1] ?? href?.[2] ?? href?.[3];
+		const url = value && normalizeUrl(decodeEntities(value.trim()), base);
+		if (url) links.add(url);
+	}
+
+	return [...links];
+}
+
+// Links in Markdown, for extractors that return no HTML
+export function extractMarkdownLinks(markdown: string, pageUrl: string): string[] {
+	const links = new Set<string>();
+	for (const match of markdown.matchAll(/\]\(<?([^)\s>]+)>?(?:\s+"[^"]*")?\)/g)) {
+		const url = normalizeUrl(match[1], pageUrl);
+		if (url) links.add(url);
+	}
+	return [...links];
+}
+
+export interface CrawlTarget {
+	url: string;
+	depth: number; // links followed from the crawl root
+}
+
+// Breadth-first queue of pages to visit. Every URL is claimed once, and no more than maxPages
+// are claimed in total.
+export class CrawlFrontier<T extends CrawlTarget = CrawlTarget> {
+	private queue: T[] = [];
+	private claimed = new Set<string>();
+	private stopped = false;
+
+	constructor(private maxPages: number) {}
+
+	get size(): number {
+		return this.claimed.size;
+	}
+
+	get full(): boolean {
+		return this.claimed.size >= this.maxPages;
+	}
+
+	// Reserves a URL; false when it was claimed before or the page budget is spent
+	claim(url: string): boolean {
+		if (this.claimed.has(url) || this.full) return false;
+		this.claimed.add(url);
+		return true;
+	}
+
+	push(target: T): void {
+		if (!this.stopped) this.queue.push(target);
+	}
+
+	next(): T | undefined {
+		return this.queue.shift();
+	}
+
+	// Drops the queued targets and ignores new ones, so a drain ends once the running visits finish
+	stop(): void {
+		this.stopped = true;
+		this.queue = [];
+	}
+
+	// Visits queued targets, up to `concurrency` at once, until the queue is empty and no visit is
+	// running. Visits may push more targets. A failed visit stops the crawl once the running ones
+	// finish.
+	async drain(concurrency: number, visit: (target: T) => Promise<void>): Promise<void> {
+		const running = new Set<Promise<void>>();
+		const errors: unknown[] = [];
+
+		for (;;) {
+			while (errors.length === 0 && running.size < concurrency) {
+				const target = this.next();
+				if (!target) break;
+				const task: Promise<void> = visit(target)
+					.catch((error) => {
+						errors.push(error);
+					})
+					.finally(() => running.delete(task));
+				running.add(task);
+			}
+			if (running.size === 0) break;
+			await Promise.race(running);
+		}
+
+		if (errors.length > 0) throw errors[0];
+	}
+}
+
+interface HostState {
+	active: number;
+	nextStart: number; // earliest time the next request may start, for crawl delays
+	waiting: Array<() => void>;
+}
+
+// Limits concurrent requests per host. A host with a crawl delay gets one request at a time,
+// spaced by the delay.
+export class HostLimiter {
+	private hosts = new Map<string, HostState>();
+
+	constructor(
+		private concurrency: number,
+		private delayMs: (host: string) => number = () => 0,
+	) {}
+
+	async run<T>(url: string, fn: () => Promise<T>): Promise<T> {
+		const host = new URL(url).host;
+		const state = this.hosts.get(host) ?? { active: 0, nextStart: 0, waiting: [] };
+		this.hosts.set(host, state);
+
+		const delay = this.delayMs(host);
+		const limit = delay > 0 ? 1 : this.concurrency;
+		while (state.active >= limit) {
+			await new Promise<void>((resolve) => state.waiting.push(resolve));
+		}
+		state.active++;
+
+		try {
+			const wait = state.nextStart - Date.now();
+			state.nextStart = Math.max(Date.now(), state.nextStart) + delay;
+			if (wait > 0) {
+				await new Promise((resolve) => setTimeout(resolve, wait));
+			}
+			return await fn();
+		} finally {
+			state.active--;
+			state.waiting.shift()?.();
+		}
+	}
+}
@@ -0,0 +1,67 @@
+import type { WebSourceCrawlRun } from "@vela/db";
+import { describe, expect, it } from "vitest";
+import { crawlProgress } from "./crawl-progress";
+
+const startedAt = new Date("2024-10-01T09:00:00Z");
+
+function run(overrides: Partial<WebSourceCrawlRun> = {}): WebSourceCrawlRun {
+	return {
+		id: "run-1",
+		webSourceId: "source-1",
+		jobId: "job-1",
+		trigger: "manual",
+		status: "running",
+		pagesDiscovered: 40,
+		pagesFetched: 9,
+		pagesAdded: 4,
+		pagesChanged: 2,
+		pagesUnchanged: 3,
+		pagesFailed: 1,
+		pagesRemoved: 0,
+		currentUrl: "https://example.com/docs/setup",
+		cancelRequestedAt: null,
+		errorMessage: null,
+		startedAt,
+		finishedAt: null,
+		...overrides,
+	};
+}
+
+describe("crawlProgress", () => {
+	it("estimates the time left from the pages done so far", () => {
+		const progress = crawlProgress({ status: "crawling" }, run(), new Date("2024-10-01T09:00:20Z"));
+
+		expect(progress).toMatchObject({
+			discovered: 40,
+			fetched: 9,
+			embedded: 6,
+			failed: 1,
+			done: 10,
+			currentUrl: "https://example.com/docs/setup",
+			etaSeconds: 60,
+			cancelling: false,
+		});
+	});
+
+	it("has no estimate before the first page finishes or once the run is over", () => {
+		const empty = { pagesFetched: 0, pagesAdded: 0, pagesChanged: 0, pagesUnchanged: 0 };
+		expect(
+			crawlProgress({ status: "crawling" }, run({ ...empty, pagesFailed: 0 })).etaSeconds,
+		).toBe(null);
+
+		const finished = crawlProgress({ status: "cancelled" }, run({ status: "cancelled" }));
+		expect(finished).toMatchObject({ etaSeconds: null, currentUrl: null, cancelling: false });
+	});
+
+	it("ignores an earlier crawl's run while a crawl is queued", () => {
+		const progress = crawlProgress({ status: "pending" }, run({ status: "completed" }));
+
+		expect(progress).toMatchObject({ status: "pending", runId: null, discovered: 0 });
+	});
+
+	it("reports a requested cancel until the crawl stops", () => {
+		const progress = crawlProgress({ status: "crawling" }, run({ cancelRequestedAt: new Date() }));
+
+		expect(progress.cancelling).toBe(true);
+	});
+});
@@ -0,0 +1,72 @@
+import type { WebSource, WebSourceCrawlRun } from "@vela/db";
+
+// Live progress of a web source's crawl, as streamed to the dashboard. The crawler saves its
+// counts on the crawl run about once a second; this turns them into what the dashboard shows.
+
+export interface CrawlProgress {
+	status: string; // the web source's: "pending" while queued, then "crawling" until it finishes
+	runId: string | null;
+	discovered: number; // pages queued so far, which grows as links are found
+	fetched: number;
+	embedded: number;
+	failed: number;
+	done: number; // pages finished one way or another
+	currentUrl: string | null;
+	startedAt: Date | null;
+	etaSeconds: number | null;
+	cancelling: boolean;
+}
+
+// Whether a crawl of a source with this status is still queued or running
+export function isCrawlActive(status: string): boolean {
+	return status === "pending" || status === "crawling";
+}
+
+// The progress of a source's crawl from its latest run. While a crawl is queued the last run is
+// an earlier crawl's, so it doesn't count. The time remaining assumes the pages left take as long
+// as the pages so far did; it's unknown until a page finishes.
+export function crawlProgress(
+	source: Pick<WebSource, "status">,
+	latestRun: WebSourceCrawlRun | null,
+	now = new Date(),
+): CrawlProgress {
+	const run = source.status === "pending" && latestRun?.status !== "running" ? null : latestRun;
+	if (!run) {
+		return {
+			status: source.status,
+			runId: null,
+			discovered: 0,
+			fetched: 0,
+			embedded: 0,
+			failed: 0,
+			done: 0,
+			currentUrl: null,
+			startedAt: null,
+			etaSeconds: null,
+			cancelling: false,
+		};
+	}
+
+	const running = run.status === "running";
+	const done =
+		run.pagesAdded + run.pagesChanged + run.pagesUnchanged + run.pagesFailed + run.pagesRemoved;
+	let etaSeconds: number | null = null;
+	if (running && done > 0) {
+		const elapsed = (now.getTime() - run.startedAt.getTime()) / 1000;
+		etaSeconds = Math.round((elapsed / done) * Math.max(run.pagesDiscovered - done, 0));
+	}
+
+	return {
+		status: source.status,
+		runId: run.id,
+		discovered: run.pagesDiscovered,
+		fetched: run.pagesFetched,
+		embedded: run.pagesAdded + run.pagesChanged,
+		failed: run.pagesFailed,
+		done,
+		currentUrl: running ? run.currentUrl : null,
+		startedAt: run.startedAt,
+		etaSeconds,
+		cancelling: running && run.cancelRequestedAt !== null,
+	};
+}
@@ -0,0 +1,441 @@
+import { createHash } from "node:crypto";
+import {
+	and,
+	eq,
+	getDb,
+	ne,
+	notInArray,
+	type WebSource,
+	webSourceCrawlRuns,
+	webSourcePages,
+	webSources,
+} from "@vela/db";
+import type { ChunkStrategy } from "./chunker";
+import {
+	CrawlFrontier,
+	type CrawlTarget,
+	createUrlFilter,
+	extractLinks,
+	extractMarkdownLinks,
+	HostLimiter,
+	invalidUrlPattern,
+	normalizeUrl,
+} from "./crawl-frontier";
+import { embedWebPage, getChunkOptions } from "./ingestion";
+import { enqueueJob, type JobContext, PermanentJobError } from "./queue";
+import { ALLOW_ALL, fetchRobotsTxt, type RobotsRules } from "./robots";
+import { assertPublicUrl, BlockedUrlError } from "./safe-fetch";
+import { fetchSitemap } from "./sitemap";
+import { getWebExtractor, PageFetchError, webUserAgent } from "./web-extractors";
+
+// Pages fetched at once across all hosts
+const MAX_CONCURRENT_PAGES = 8;
+// How often a running crawl saves its progress and checks whether it was cancelled
+const PROGRESS_INTERVAL_MS = 1000;
+// Longer robots.txt crawl delays are cut to this, so one slow host can't stall a crawl for hours
+const MAX_CRAWL_DELAY_SECONDS = 30;
+
+// Requests a crawl sends to one host at a time (CRAWL_HOST_CONCURRENCY, default 2)
+function hostConcurrency(env: Record<string, string | undefined> = process.env): number {
+	const value = Number(env.CRAWL_HOST_CONCURRENCY);
+	return Number.isInteger(value) && value > 0 ? value : 2;
+}
+
+// Statuses meaning a page no longer exists
+const GONE_STATUSES = [404, 410];
+
+// What the last crawl saved about a page
+interface SavedPage {
+	id: string;
+	url: string;
+	status: string;
+	contentHash: string | null;
+	etag: string | null;
+	lastModified: string | null;
+	links: string[] | null;
+	lastCrawledAt: Date | null;
+}
+
+type PageTarget = CrawlTarget & { id: string; saved: SavedPage | null };
+
+function hashContent(content: string): string {
+	return createHash("sha256").update(content).digest("hex");
+}
+
+// What started a crawl, recorded on its run
+export type CrawlTrigger = "manual" | "scheduled";
+
+// Queue a crawl of a web source for the worker. A source that is crawling keeps that status
+// until the running crawl finishes; the queued one starts after it.
+export async function queueCrawl(
+	source: Pick<WebSource, "id" | "agentId">,
+	trigger: CrawlTrigger = "manual",
+) {
+	const db = getDb();
+	await db
+		.update(webSources)
+		.set({ status: "pending", errorMessage: null })
+		.where(and(eq(webSources.id, source.id), ne(webSources.status, "crawling")));
+
+	return enqueueJob(
+		"crawl_web_source",
+		{ webSourceId: source.id, trigger },
+		{ agentId: source.agentId, sourceType: "web_source", sourceId: source.id },
+	);
+}
+
+// Crawl a web source: fetch, chunk and embed its page, its sitemap's pages, or, for the crawl
+// type, the pages reachable from its root breadth-first up to maxDepth links away. Sitemap entries
+// and followed links must pass the source's include/exclude rules and robots.txt; every type is
+// capped at maxPages. Runs as a crawl_web_source job.
+//
+// Recrawls are incremental. Pages are kept between crawls, and unchanged pages are not embedded
+// again: they're skipped when the sitemap's <lastmod> predates the last crawl, answered with a 304
+// to a conditional request, or found to have the same content hash. Pages that are gone (404/410),
+// or no longer listed, linked or allowed by the rules, are removed once the crawl finishes.
+// Pages the user excluded stay excluded and are not fetched. A retried crawl starts over cheaply,
+// as the pages it already embedded are now unchanged. Each attempt is saved as a crawl run with
+// its page counts, which are also saved as it goes for the progress stream.
+//
+// A crawl is cancelled by setting its run's cancelRequestedAt. It then stops taking pages and
+// finishes the ones it is fetching. The pages indexed so far stay searchable, and none are
+// removed, as the crawl didn't get to see whether they still exist.
+export async function crawlWebSource(
+	{ webSourceId, trigger = "manual" }: { webSourceId: string; trigger?: CrawlTrigger },
+	{ job, progress }: JobContext,
+): Promise<void> {
+	const db = getDb();
+
+	const [source] = await db
+		.select()
+		.from(webSources)
+		.where(eq(webSources.id, webSourceId))
+		.limit(1);
+	if (!source) return;
+
+	await db
+		.update(webSources)
+		.set({ status: "crawling", errorMessage: null })
+		.where(eq(webSources.id, webSourceId));
+
+	// Only one crawl of a source runs at a time, so a run still marked running was interrupted
+	await db
+		.update(webSourceCrawlRuns)
+		.set({ status: "failed", errorMessage: "interrupted", finishedAt: new Date() })
+		.where(
+			and(
+				eq(webSourceCrawlRuns.webSourceId, webSourceId),
+				eq(webSourceCrawlRuns.status, "running"),
+			),
+		);
+	const [run] = await db
+		.insert(webSourceCrawlRuns)
+		.values({ webSourceId, jobId: job.id, trigger })
+		.returning({ id: webSourceCrawlRuns.id });
+	const counts = { fetched: 0, added: 0, changed: 0, unchanged: 0, failed: 0, removed: 0 };
+	const countColumns = () => ({
+		pagesFetched: counts.fetched,
+		pagesAdded: counts.added,
+		pagesChanged: counts.changed,
+		pagesUnchanged: counts.unchanged,
+		pagesFailed: counts.failed,
+		pagesRemoved: counts.removed,
+	});
+	const finishRun = (
+		status: "completed" | "failed" | "cancelled",
+		errorMessage: string | null = null,
+	) =>
+		db
+			.update(webSourceCrawlRuns)
+			.set({ status, ...countColumns(), currentUrl: null, errorMessage, finishedAt: new Date() })
+			.where(eq(webSourceCrawlRuns.id, run.id));
+
+	try {
+		const userAgent = webUserAgent();
+		const discovers = source.sourceType === "sitemap" || source.sourceType === "crawl";
+		const maxDepth = source.sourceType === "crawl" ? source.maxDepth : 0;
+		const rootHost = new URL(source.url).hostname;
+		// Sources saved before a pattern was refused when saving fail instead of running it
+		const invalidPattern = invalidUrlPattern([
+			...source.includePatterns,
+			...source.excludePatterns,
+		]);
+		if (invalidPattern) {
+			throw new PermanentJobError(`invalid URL pattern ${invalidPattern}`);
+		}
+		const passesRules = createUrlFilter(source.includePatterns, source.excludePatterns);
+		const frontier = new CrawlFrontier<PageTarget>(source.maxPages || 100);
+
+		// robots.txt is fetched once per origin; a page the user added directly is always fetched
+		const robotsByOrigin = new Map<string, Promise<RobotsRules>>();
+		const crawlDelays = new Map<string, number>();
+		const robotsFor = (url: string): Promise<RobotsRules> => {
+			const { origin, host } = new URL(url);
+			let robots = robotsByOrigin.get(origin);
+			if (!robots) {
+				robots = discovers ? fetchRobotsTxt(origin, userAgent) : Promise.resolve(ALLOW_ALL);
+				robots.then(({ crawlDelay }) => {
+					if (crawlDelay) {
+						crawlDelays.set(host, Math.min(crawlDelay, MAX_CRAWL_DELAY_SECONDS) * 1000);
+					}
+				});
+				robotsByOrigin.set(origin, robots);
+			}
+			return robots;
+		};
+		const limiter = new HostLimiter(hostConcurrency(), (host) => crawlDelays.get(host) ?? 0);
+
+		const savedPages = await db
+			.select({
+				id: webSourcePages.id,
+				url: webSourcePages.url,
+				status: webSourcePages.status,
+				contentHash: webSourcePages.contentHash,
+				etag: webSourcePages.etag,
+				lastModified: webSourcePages.lastModified,
+				links: webSourcePages.links,
+				lastCrawledAt: webSourcePages.lastCrawledAt,
+			})
+			.from(webSourcePages)
+			.where(eq(webSourcePages.webSourceId, webSourceId));
+		const saved = new Map(savedPages.map((page) => [page.url, page]));
+		const lastmods = new Map<string, Date>();
+
+		// Queues the URLs that may be crawled, saving the ones not seen before as pending pages.
+		// The crawl root is exempt from the include/exclude rules; sitemap entries and followed
+		// links are not.
+		const enqueue = async (urls: string[], depth: number) => {
+			const added: string[] = [];
+			for (const url of urls) {
+				if (frontier.full) break;
+				if (source.sourceType === "sitemap" || depth > 0) {
+					if (source.sourceType === "crawl" && new URL(url).hostname !== rootHost) continue;
+					if (!passesRules(url)) continue;
+				}
+				if (!(await robotsFor(url)).isAllowed(url) || !frontier.claim(url)) continue;
+
+				const page = saved.get(url);
+				if (page) {
+					frontier.push({ url, depth, id: page.id, saved: page });
+				} else {
+					added.push(url);
+				}
+			}
+			if (added.length === 0) return;
+
+			const pages = await db
+				.insert(webSourcePages)
+				.values(added.map((url) => ({ webSourceId, url, depth, status: "pending" })))
+				.returning({ id: webSourcePages.id, url: webSourcePages.url });
+			for (const page of pages) {
+				frontier.push({ ...page, depth, saved: null });
+			}
+		};
+
+		// Refused up front, so a source on a private address fails with the reason rather than as
+		// disallowed by robots.txt
+		await assertPublicUrl(source.url).catch((error) => {
+			throw error instanceof BlockedUrlError ? new PermanentJobError(error.message) : error;
+		});
+
+		if (source.sourceType === "sitemap") {
+			const urls: string[] = [];
+			for (const entry of await fetchSitemap(source.url, userAgent)) {
+				const url = normalizeUrl(entry.url);
+				if (!url) continue;
+				urls.push(url);
+				if (entry.lastmod) {
+					lastmods.set(url, entry.lastmod);
+				}
+			}
+			await enqueue(urls, 0);
+		} else {
+			const root = normalizeUrl(source.url) ?? source.url;
+			if (!(await robotsFor(root)).isAllowed(root)) {
+				throw new PermanentJobError(`robots.txt does not allow crawling ${root}`);
+			}
+			await enqueue([root], 0);
+		}
+
+		const chunkOptions = await getChunkOptions(source.agentId);
+		const visited = new Set<string>();
+		// The crawl root couldn't be fetched, so the links to the rest of the site are unknown
+		let rootFailed = false;
+		let done = 0;
+		await progress(done, frontier.size);
+
+		let currentUrl: string | null = null;
+		let cancelled = false;
+		const saveProgress = async () => {
+			const [state] = await db
+				.update(webSourceCrawlRuns)
+				.set({ ...countColumns(), pagesDiscovered: frontier.size, currentUrl })
+				.where(eq(webSourceCrawlRuns.id, run.id))
+				.returning({ cancelRequestedAt: webSourceCrawlRuns.cancelRequestedAt });
+			if (state?.cancelRequestedAt && !cancelled) {
+				cancelled = true;
+				frontier.stop();
+			}
+		};
+		let saving: Promise<void> | null = null;
+		const reporter = setInterval(() => {
+			saving ??= saveProgress()
+				.catch((err) => console.error(`[crawler] Saving progress of ${source.url} failed:`, err))
+				.finally(() => {
+					saving = null;
+				});
+		}, PROGRESS_INTERVAL_MS);
+
+		try {
+			await frontier.drain(MAX_CONCURRENT_PAGES, async ({ id, url, depth, saved: page }) => {
+				visited.add(id);
+				currentUrl = url;
+				const followLinks = (links: string[] | null) =>
+					depth < maxDepth && links ? enqueue(links, depth + 1) : Promise.resolve();
+				// Embedded as last crawled, so its content hash can tell whether it changed
+				const indexed = page?.status === "crawled" && page.contentHash !== null;
+				const lastmod = lastmods.get(url);
+
+				try {
+					if (page?.status === "excluded") {
+						await followLinks(page.links);
+						counts.unchanged++;
+					} else if (indexed && lastmod && page.lastCrawledAt && page.lastCrawledAt >= lastmod) {
+						counts.unchanged++;
+					} else {
+						// Ask whether the page changed only if its saved links can stand in for the ones
+						// a full fetch would find
+						const validators = indexed && (page.links || depth >= maxDepth) ? page : undefined;
+						const extracted = await limiter.run(url, () =>
+							getWebExtractor().extract(url, validators),
+						);
+						counts.fetched++;
+
+						if (!extracted) {
+							await followLinks(page?.links ?? null);
+							await db
+								.update(webSourcePages)
+								.set({ depth, errorMessage: null, lastCrawledAt: new Date() })
+								.where(eq(webSourcePages.id, id));
+							counts.unchanged++;
+						} else {
+							const { title, content } = extracted;
+							const links = extracted.html
+								? extractLinks(extracted.html, url)
+								: extractMarkdownLinks(content, url);
+							await followLinks(links);
+
+							const contentHash = hashContent(content);
+							const changed = !indexed || page.contentHash !== contentHash;
+							if (changed) {
+								await embedWebPage(
+									id,
+									content,
+									source.chunkStrategy as ChunkStrategy,
+									chunkOptions,
+								);
+							}
+							await db
+								.update(webSourcePages)
+								.set({
+									title,
+									content,
+									contentSize: Buffer.byteLength(content, "utf-8"),
+									contentHash,
+									etag: extracted.etag ?? null,
+									lastModified: extracted.lastModified ?? null,
+									links,
+									depth,
+									status: "crawled",
+									errorMessage: null,
+									lastCrawledAt: new Date(),
+								})
+								.where(eq(webSourcePages.id, id));
+							counts[!indexed ? "added" : changed ? "changed" : "unchanged"]++;
+						}
+					}
+				} catch (error) {
+					if (depth === 0 && source.sourceType !== "sitemap") {
+						rootFailed = true;
+					}
+					if (error instanceof PageFetchError && GONE_STATUSES.includes(error.status)) {
+						await db.delete(webSourcePages).where(eq(webSourcePages.id, id));
+						counts.removed++;
+					} else {
+						// A page indexed before stays searchable with its last content, and its links
+						// are still followed, so a brief outage doesn't remove half the site
+						await followLinks(page?.links ?? null);
+						await db
+							.update(webSourcePages)
+							.set({
+								status: indexed ? "crawled" : "failed",
+								errorMessage: error instanceof Error ? error.message : "Unknown error",
+							})
+							.where(eq(webSourcePages.id, id));
+						counts.failed++;
+					}
+				}
+				await progress(++done, frontier.size);
+			});
+		} finally {
+			clearInterval(reporter);
+			await saving;
+		}
+
+		if (cancelled) {
+			console.log(
+				`[crawler] ${source.url}: cancelled after ${done} of ${frontier.size} pages, ` +
+					`${counts.added} new, ${counts.changed} changed, ${counts.failed} failed`,
+			);
+			await db
+				.update(webSources)
+				.set({ status: "cancelled" })
+				.where(eq(webSources.id, webSourceId));
+			await finishRun("cancelled");
+			return;
+		}
+
+		// Pages no longer listed or linked, or now outside the rules or maxPages. A crawl that
+		// visited nothing, such as an empty sitemap, or whose root failed, saw too little to tell,
+		// and would otherwise remove every page.
+		if (visited.size > 0 && !rootFailed) {
+			const removed = await db
+				.delete(webSourcePages)
+				.where(
+					and(
+						eq(webSourcePages.webSourceId, webSourceId),
+						notInArray(webSourcePages.id, [...visited]),
+					),
+				)
+				.returning({ id: webSourcePages.id });
+			counts.removed += removed.length;
+		} else {
+			console.warn(
+				`[crawler] ${source.url}: root unavailable or nothing visited, keeping unvisited pages`,
+			);
+		}
+
+		console.log(
+			`[crawler] ${source.url}: ${counts.added} new, ${counts.changed} changed, ` +
+				`${counts.unchanged} unchanged, ${counts.failed} failed, ${counts.removed} removed`,
+		);
+
+		await db
+			.update(webSources)
+			.set({
+				status: "completed",
+				lastCrawledAt: new Date(),
+			})
+			.where(eq(webSources.id, webSourceId));
+		await finishRun("completed");
+	} catch (error) {
+		const errorMessage = error instanceof Error ? error.message : "Unknown error";
+		await db
+			.update(webSources)
+			.set({ status: "failed", errorMessage })
+			.where(eq(webSources.id, webSourceId));
+		await finishRun("failed", errorMessage);
+		// Let the queue retry the crawl
+		throw error;
+	}
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { CronParseError, parseCron } from "./cron";
+
+const next = (expression: string, after: string) =>
+	parseCron(expression).next(new Date(after)).toISOString();
+
+describe("parseCron", () => {
+	it("finds the next matching minute", () => {
+		expect(next("*/15 * * * *", "2024-10-01T09:07:30Z")).toBe("2024-10-01T09:15:00.000Z");
+		expect(next("30 2 * * *", "2024-10-01T02:30:00Z")).toBe("2024-10-02T02:30:00.000Z");
+		expect(next("0 9-17/4 * * *", "2024-10-01T13:00:00Z")).toBe("2024-10-01T17:00:00.000Z");
+		expect(next("0 0 1 jan,jul *", "2024-10-01T00:00:00Z")).toBe("2025-01-01T00:00:00.000Z");
+	});
+
+	it("handles weekdays, with 7 as Sunday", () => {
+		// 2024-10-01 is a Tuesday
+		expect(next("0 6 * * MON-FRI", "2024-10-04T07:00:00Z")).toBe("2024-10-07T06:00:00.000Z");
+		expect(next("0 6 * * 7", "2024-10-01T00:00:00Z")).toBe("2024-10-06T06:00:00.000Z");
+	});
+
+	it("runs on either day field when both are restricted", () => {
+		expect(next("0 0 15 * SAT", "2024-10-01T00:00:00Z")).toBe("2024-10-05T00:00:00.000Z");
+		expect(next("0 0 3 * SAT", "2024-10-01T00:00:00Z")).toBe("2024-10-03T00:00:00.000Z");
+	});
+
+	it("skips to months that have the day", () => {
+		expect(next("0 0 31 * *", "2024-09-01T00:00:00Z")).toBe("2024-10-31T00:00:00.000Z");
+		expect(next("0 0 29 2 *", "2025-03-01T00:00:00Z")).toBe("2028-02-29T00:00:00.000Z");
+	});
+
+	it("rejects malformed expressions and ones that never run", () => {
+		expect(() => parseCron("0 0 * *")).toThrow(CronParseError);
+		expect(() => parseCron("60 * * * *")).toThrow('invalid minute "60"');
+		expect(() => parseCron("*/0 * * * *")).toThrow("invalid step");
+		expect(() => parseCron("0 0 * * 5-1")).toThrow("invalid range");
+		expect(() => parseCron("0 0 30 feb *").next(new Date())).toThrow("never runs");
+	});
+});
@@ -0,0 +1,131 @@
+// Five-field cron expressions (minute hour day-of-month month day-of-week), evaluated in UTC.
+// Fields take *, numbers, ranges (1-5), steps (*/15, 1-30/5) and lists (1,15); month and weekday
+// names (JAN, MON) work too, and both 0 and 7 are Sunday. As in Vixie cron, when both day fields
+// are restricted a day matching either one runs.
+
+export class CronParseError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "CronParseError";
+	}
+}
+
+export interface CronSchedule {
+	// The first matching minute after `after`
+	next(after: Date): Date;
+}
+
+interface FieldSpec {
+	name: string;
+	min: number;
+	max: number;
+	names?: string[]; // names for min, min + 1, ...
+}
+
+const FIELDS: FieldSpec[] = [
+	{ name: "minute", min: 0, max: 59 },
+	{ name: "hour", min: 0, max: 23 },
+	{ name: "day of month", min: 1, max: 31 },
+	{
+		name: "month",
+		min: 1,
+		max: 12,
+		names: ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"],
+	},
+	{ name: "day of week", min: 0, max: 7, names: ["sun", "mon", "tue", "wed", "thu", "fri", "sat"] },
+];
+
+// Far enough to find "29 February" and the like; expressions that never match give up here
+const MAX_YEARS_AHEAD = 8;
+
+function parseValue(text: string, spec: FieldSpec): number {
+	const named = spec.names?.indexOf(text.toLowerCase()) ?? -1;
+	const value = named === -1 ? (/^\d+$/.test(text) ? Number(text) : Number.NaN) : spec.min + named;
+	if (!Number.isInteger(value) || value < spec.min || value > spec.max) {
+		throw new CronParseError(`invalid ${spec.name} "${text}"`);
+	}
+	return value;
+}
+
+function parseField(text: string, spec: FieldSpec): Set<number> {
+	const values = new Set<number>();
+	for (const part of text.split(",")) {
+		const [range, stepText, ...rest] = part.split("/");
+		const step = stepText === undefined ? 1 : Number(stepText);
+		if (rest.length > 0 || !Number.isInteger(step) || step < 1) {
+			throw new CronParseError(`invalid step in ${spec.name} "${part}"`);
+		}
+
+		let start: number;
+		let end: number;
+		if (range === "*") {
+			[start, end] = [spec.min, spec.max];
+		} else if (range.includes("-")) {
+			const [from, to] = range.split("-");
+			[start, end] = [parseValue(from, spec), parseValue(to, spec)];
+		} else {
+			start = parseValue(range, spec);
+			// "5/15" means from 5 to the end in steps of 15
+			end = stepText === undefined ? start : spec.max;
+		}
+		if (start > end) {
+			throw new CronParseError(`invalid range in ${spec.name} "${part}"`);
+		}
+
+		for (let value = start; value <= end; value += step) {
+			values.add(value);
+		}
+	}
+	return values;
+}
+
+export function parseCron(expression: string): CronSchedule {
+	const parts = expression.trim().split(/\s+/);
+	if (parts.length !== FIELDS.length) {
+		throw new CronParseError(
+			`expected 5 fields (minute hour day-of-month month day-of-week), got ${parts.length}`,
+		);
+	}
+
+	const [minutes, hours, days, months, weekdays] = parts.map((part, i) =>
+		parseField(part, FIELDS[i]),
+	);
+	if (weekdays.delete(7)) {
+		weekdays.add(0);
+	}
+	const daysRestricted = !parts[2].startsWith("*");
+	const weekdaysRestricted = !parts[4].startsWith("*");
+
+	const dayMatches = (date: Date) => {
+		const day = days.has(date.getUTCDate());
+		const weekday = weekdays.has(date.getUTCDay());
+		if (daysRestricted && weekdaysRestricted) return day || weekday;
+		return day && weekday;
+	};
+
+	return {
+		next(after: Date): Date {
+			const date = new Date(after);
+			date.setUTCSeconds(0, 0);
+			date.setUTCMinutes(date.getUTCMinutes() + 1);
+			const limit = after.getTime() + MAX_YEARS_AHEAD * 366 * 24 * 60 * 60 * 1000;
+
+			while (date.getTime() <= limit) {
+				if (!months.has(date.getUTCMonth() + 1)) {
+					date.setUTCMonth(date.getUTCMonth() + 1, 1);
+					date.setUTCHours(0, 0);
+				} else if (!dayMatches(date)) {
+					date.setUTCDate(date.getUTCDate() + 1);
+					date.setUTCHours(0, 0);
+				} else if (!hours.has(date.getUTCHours())) {
+					date.setUTCHours(date.getUTCHours() + 1, 0);
+				} else if (!minutes.has(date.getUTCMinutes())) {
+					date.setUTCMinutes(date.getUTCMinutes() + 1);
+				} else {
+					return date;
+				}
+			}
+			throw new CronParseError(`"${expression}" never runs`);
+		},
+	};
+}
@@ -0,0 +1,33 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "node:crypto";
+
+// Symmetric encryption for secrets stored in the database (e.g. per-agent API keys).
+// Key comes from ENCRYPTION_KEY, falling back to BETTER_AUTH_SECRET.
+
+const ALGORITHM = "aes-256-gcm";
+
+function getKey(): Buffer {
+	const secret = process.env.ENCRYPTION_KEY || process.env.BETTER_AUTH_SECRET;
+	if (!secret) {
+		throw new Error("ENCRYPTION_KEY or BETTER_AUTH_SECRET must be set to store secrets");
+	}
+	return createHash("sha256").update(secret).digest();
+}
+
+// Returns "iv:authTag:ciphertext", each part base64-encoded
+export function encryptSecret(plaintext: string): string {
+	const iv = randomBytes(12);
+	const cipher = createCipheriv(ALGORITHM, getKey(), iv);
+	const encrypted = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+	const authTag = cipher.getAuthTag();
+	return [iv, authTag, encrypted].map((b) => b.toString("base64")).join(":");
+}
+
+export function decryptSecret(payload: string): string {
+	const [iv, authTag, encrypted] = payload.split(":").map((p) => Buffer.from(p, "base64"));
+	if (!iv || !authTag || !encrypted) {
+		throw new Error("Invalid encrypted payload");
+	}
+	const decipher = createDecipheriv(ALGORITHM, getKey(), iv);
+	decipher.setAuthTag(authTag);
+	return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString("utf8");
+}
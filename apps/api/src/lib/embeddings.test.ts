@@ -0,0 +1,140 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+	createEmbeddingProvider,
+	embedChunks,
+	HashEmbeddingProvider,
+	OllamaEmbeddingProvider,
+	OpenAIEmbeddingProvider,
+} from "./embeddings";
+
+const dot = (a: number[], b: number[]) => a.reduce((sum, v, i) => sum + v * b[i], 0);
+
+describe("HashEmbeddingProvider", () => {
+	it("returns the same unit vector for the same text", async () => {
+		const provider = new HashEmbeddingProvider(64);
+		const [a, b] = await provider.embed(["Refunds take five days", "refunds take five days"]);
+
+		expect(a).toHaveLength(64);
+		expect(a).toEqual(b);
+		expect(dot(a, a)).toBeCloseTo(1);
+	});
+
+	it("scores texts that share words as more similar", async () => {
+		const [query, related, unrelated] = await new HashEmbeddingProvider().embed([
+			"how long do refunds take",
+			"refunds take five business days",
+			"we ship worldwide",
+		]);
+
+		expect(dot(query, related)).toBeGreaterThan(dot(query, unrelated));
+	});
+});
+
+describe("OpenAIEmbeddingProvider", () => {
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it("requests shortened vectors and returns them in input order", async () => {
+		const fetchMock = vi.fn().mockResolvedValue(
+			Response.json({
+				data: [
+					{ index: 1, embedding: [0, 1] },
+					{ index: 0, embedding: [1, 0] },
+				],
+			}),
+		);
+		vi.stubGlobal("fetch", fetchMock);
+
+		const provider = new OpenAIEmbeddingProvider(
+			"text-embedding-3-small",
+			2,
+			"https://api.openai.com/v1/",
+			"sk-test",
+		);
+
+		expect(await provider.embed(["a", "b"])).toEqual([
+			[1, 0],
+			[0, 1],
+		]);
+		const [url, init] = fetchMock.mock.calls[0];
+		expect(url).toBe("https://api.openai.com/v1/embeddings");
+		expect(JSON.parse(init.body)).toEqual({
+			model: "text-embedding-3-small",
+			input: ["a", "b"],
+			dimensions: 2,
+		});
+	});
+});
+
+describe("OllamaEmbeddingProvider", () => {
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it("embeds a batch in one call to /api/embed", async () => {
+		const fetchMock = vi.fn().mockResolvedValue(Response.json({ embeddings: [[1], [2]] }));
+		vi.stubGlobal("fetch", fetchMock);
+
+		const provider = new OllamaEmbeddingProvider("mxbai-embed-large", 1, "http://ollama:11434/v1");
+
+		expect(await provider.embed(["a", "b"])).toEqual([[1], [2]]);
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+		expect(fetchMock.mock.calls[0][0]).toBe("http://ollama:11434/api/embed");
+	});
+});
+
+describe("createEmbeddingProvider", () => {
+	it("keeps Ollama as the self-hosted default without a Voyage key", () => {
+		const provider = createEmbeddingProvider({
+			SELF_HOSTED: "true",
+			OPENAI_API_BASE: "http://localhost:11434/v1",
+		});
+
+		expect([provider.id, provider.model, provider.dimensions]).toEqual([
+			"ollama",
+			"mxbai-embed-large",
+			1024,
+		]);
+	});
+
+	it("uses the configured provider and model", () => {
+		const provider = createEmbeddingProvider({
+			EMBEDDING_PROVIDER: "openai",
+			EMBEDDING_MODEL: "text-embedding-3-large",
+		});
+
+		expect([provider.id, provider.model, provider.dimensions]).toEqual([
+			"openai",
+			"text-embedding-3-large",
+			1024,
+		]);
+	});
+
+	it("rejects models whose dimension doesn't match the database", () => {
+		expect(() =>
+			createEmbeddingProvider({
+				EMBEDDING_PROVIDER: "ollama",
+				EMBEDDING_MODEL: "nomic-embed-text",
+			}),
+		).toThrow("produces 768-dimension vectors");
+		expect(() =>
+			createEmbeddingProvider({ EMBEDDING_PROVIDER: "ollama", EMBEDDING_MODEL: "custom-model" }),
+		).toThrow("set EMBEDDING_DIMENSIONS");
+	});
+});
+
+describe("embedChunks", () => {
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it("marks chunks failed instead of throwing when the provider is down", async () => {
+		vi.stubGlobal("fetch", vi.fn().mockRejectedValue(new Error("connect ECONNREFUSED")));
+
+		expect(await embedChunks(["a", "b"])).toEqual([
+			{ embedding: null, embeddingStatus: "failed", embeddingError: "connect ECONNREFUSED" },
+			{ embedding: null, embeddingStatus: "failed", embeddingError: "connect ECONNREFUSED" },
+		]);
+	});
+});
@@ -1,95 +1,372 @@
-const VOYAGE_MODEL = "voyage-3";
-const OLLAMA_MODEL = "mxbai-embed-large"; // 1024 dimensions (matches Voyage)
+import { EMBEDDING_DIMENSIONS } from "@vela/db";
+
+// Embedding providers turn text into vectors for the knowledge base. Which one is used is set
+// with EMBEDDING_PROVIDER and EMBEDDING_MODEL; every provider must produce vectors with the
+// dimension of the database's embedding columns (EMBEDDING_DIMENSIONS in @vela/db).
+
+// "voyage" uses Voyage's API, "openai" any OpenAI-compatible /v1/embeddings endpoint, "ollama"
+// Ollama's batch /api/embed, and "hash" a deterministic offline embedding for tests and demos
+export type EmbeddingProviderId = "voyage" | "openai" | "ollama" | "hash";
+
+export const EMBEDDING_PROVIDER_IDS: EmbeddingProviderId[] = ["voyage", "openai", "ollama", "hash"];
+
+// Voyage embeds documents and search queries differently; other providers ignore this
+export type EmbeddingInputType = "document" | "query";
+
+export interface EmbeddingProvider {
+	readonly id: EmbeddingProviderId;
+	readonly model: string;
+	readonly dimensions: number;
+	embed(texts: string[], inputType: EmbeddingInputType): Promise<number[][]>;
+}
+
+const DEFAULT_MODELS: Record<EmbeddingProviderId, string> = {
+	voyage: "voyage-3",
+	openai: "text-embedding-3-small",
+	ollama: "mxbai-embed-large",
+	hash: "hash",
+};
+
+// Output size of well-known models; others need EMBEDDING_DIMENSIONS
+const MODEL_DIMENSIONS: Record<string, number> = {
+	"voyage-3": 1024,
+	"voyage-3-large": 1024,
+	"voyage-3.5": 1024,
+	"voyage-3-lite": 512,
+	"voyage-code-3": 1024,
+	"text-embedding-ada-002": 1536,
+	"mxbai-embed-large": 1024,
+	"bge-m3": 1024,
+	"snowflake-arctic-embed": 1024,
+	"nomic-embed-text": 768,
+	"all-minilm": 384,
+};
+
+// OpenAI's text-embedding-3 models can return shorter vectors on request
+const SHORTENABLE_MODELS = /^text-embedding-3-/;
+
 const BATCH_SIZE = 128;
 
-const isSelfHosted = process.env.SELF_HOSTED === "true";
-const useOllama = isSelfHosted && process.env.OPENAI_API_BASE && !process.env.VOYAGE_API_KEY;
+async function embedInBatches(
+	texts: string[],
+	embedBatch: (batch: string[]) => Promise<number[][]>,
+): Promise<number[][]> {
+	const results: number[][] = [];
+	for (let i = 0; i < texts.length; i += BATCH_SIZE) {
+		results.push(...(await embedBatch(texts.slice(i, i + BATCH_SIZE))));
+	}
+	return results;
+}
 
-export async function createEmbedding(text: string): Promise<number[]> {
-	const embeddings = await createEmbeddings([text]);
-	return embeddings[0];
+export class VoyageEmbeddingProvider implements EmbeddingProvider {
+	readonly id = "voyage";
+
+	constructor(
+		readonly model: string,
+		readonly dimensions: number,
+		private apiKey = process.env.VOYAGE_API_KEY,
+	) {}
+
+	embed(texts: string[], inputType: EmbeddingInputType): Promise<number[][]> {
+		return embedInBatches(texts, async (batch) => {
+			const response = await fetch("https://api.voyageai.com/v1/embeddings", {
+				method: "POST",
+				headers: {
+					"Content-Type": "application/json",
+					Authorization: `Bearer ${this.apiKey}`,
+				},
+				body: JSON.stringify({
+					model: this.model,
+					input: batch,
+					input_type: inputType,
+				}),
+			});
+
+			if (!response.ok) {
+				throw new Error(`Voyage API error: ${response.statusText}`);
+			}
+
+			const data = (await response.json()) as {
+				data: Array<{ embedding: number[] }>;
+			};
+			return data.data.map((d) => d.embedding);
+		});
+	}
 }
 
-async function createOllamaEmbedding(text: string): Promise<number[]> {
-	const baseUrl = process.env.OPENAI_API_BASE?.replace("/v1", "") || "http://localhost:11434";
+// OpenAI or any server with an OpenAI-compatible /embeddings endpoint (vLLM, LM Studio, TEI, ...)
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+	readonly id = "openai";
 
-	try {
-		const response = await fetch(`${baseUrl}/api/embeddings`, {
-			method: "POST",
-			headers: { "Content-Type": "application/json" },
-			body: JSON.stringify({
-				model: OLLAMA_MODEL,
-				prompt: text,
-			}),
+	constructor(
+		readonly model: string,
+		readonly dimensions: number,
+		private baseUrl: string,
+		private apiKey?: string,
+	) {}
+
+	embed(texts: string[]): Promise<number[][]> {
+		return embedInBatches(texts, async (batch) => {
+			const response = await fetch(`${this.baseUrl.replace(/\/$/, "")}/embeddings`, {
+				method: "POST",
+				headers: {
+					"Content-Type": "application/json",
+					...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+				},
+				body: JSON.stringify({
+					model: this.model,
+					input: batch,
+					...(SHORTENABLE_MODELS.test(this.model) && { dimensions: this.dimensions }),
+				}),
+			});
+
+			if (!response.ok) {
+				throw new Error(`Embeddings API error: ${response.statusText}`);
+			}
+
+			const data = (await response.json()) as {
+				data: Array<{ index: number; embedding: number[] }>;
+			};
+			return data.data.sort((a, b) => a.index - b.index).map((d) => d.embedding);
 		});
+	}
+}
 
-		if (!response.ok) {
-			console.warn(`Ollama embeddings error: ${response.statusText}. Skipping vector search.`);
-			return []; // Return empty - will skip vector search
-		}
+export class OllamaEmbeddingProvider implements EmbeddingProvider {
+	readonly id = "ollama";
 
-		const data = (await response.json()) as { embedding: number[] };
-		return data.embedding;
-	} catch (error) {
-		console.warn(`Ollama embeddings unavailable: ${error}. Skipping vector search.`);
-		return []; // Return empty - will skip vector search
+	constructor(
+		readonly model: string,
+		readonly dimensions: number,
+		private baseUrl: string,
+	) {}
+
+	embed(texts: string[]): Promise<number[][]> {
+		return embedInBatches(texts, async (batch) => {
+			const response = await fetch(`${this.baseUrl.replace(/\/(v1\/?)?$/, "")}/api/embed`, {
+				method: "POST",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify({ model: this.model, input: batch }),
+			});
+
+			if (!response.ok) {
+				throw new Error(`Ollama embeddings error: ${response.statusText}`);
+			}
+
+			const data = (await response.json()) as { embeddings: number[][] };
+			return data.embeddings;
+		});
 	}
 }
 
-async function createVoyageEmbeddings(
-	texts: string[],
-	inputType: "document" | "query",
-): Promise<number[][]> {
-	const results: number[][] = [];
+// 32-bit FNV-1a
+function fnv1a(text: string): number {
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < text.length; i++) {
+		hash ^= text.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return hash >>> 0;
+}
 
-	for (let i = 0; i < texts.length; i += BATCH_SIZE) {
-		const batch = texts.slice(i, i + BATCH_SIZE);
-
-		const response = await fetch("https://api.voyageai.com/v1/embeddings", {
-			method: "POST",
-			headers: {
-				"Content-Type": "application/json",
-				Authorization: `Bearer ${process.env.VOYAGE_API_KEY}`,
-			},
-			body: JSON.stringify({
-				model: VOYAGE_MODEL,
-				input: batch,
-				input_type: inputType,
-			}),
+// Hashes each word into a signed bucket and normalizes the result, so texts sharing words have
+// positive cosine similarity. Needs no network, which makes it useful for tests and demos.
+export class HashEmbeddingProvider implements EmbeddingProvider {
+	readonly id = "hash";
+	readonly model = "hash";
+
+	constructor(readonly dimensions: number = EMBEDDING_DIMENSIONS) {}
+
+	async embed(texts: string[]): Promise<number[][]> {
+		return texts.map((text) => {
+			const vector = new Array<number>(this.dimensions).fill(0);
+			for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []) {
+				const hash = fnv1a(word);
+				vector[hash % this.dimensions] += hash & 0x80000000 ? -1 : 1;
+			}
+			const norm = Math.hypot(...vector) || 1;
+			return vector.map((v) => v / norm);
 		});
+	}
+}
 
-		if (!response.ok) {
-			throw new Error(`Voyage API error: ${response.statusText}`);
-		}
+type EmbeddingEnv = Record<string, string | undefined>;
 
-		const data = (await response.json()) as {
-			data: Array<{ embedding: number[] }>;
-		};
-		results.push(...data.data.map((d) => d.embedding));
+// Builds the provider described by the environment. Without EMBEDDING_PROVIDER, self-hosted
+// installs with an OpenAI-compatible base URL and no Voyage key use Ollama, others Voyage.
+export function createEmbeddingProvider(env: EmbeddingEnv = process.env): EmbeddingProvider {
+	const useOllama = env.SELF_HOSTED === "true" && env.OPENAI_API_BASE && !env.VOYAGE_API_KEY;
+	const id = (env.EMBEDDING_PROVIDER || (useOllama ? "ollama" : "voyage")) as EmbeddingProviderId;
+	if (!EMBEDDING_PROVIDER_IDS.includes(id)) {
+		throw new Error(`Unknown EMBEDDING_PROVIDER "${id}"`);
 	}
 
-	return results;
+	const model = env.EMBEDDING_MODEL || DEFAULT_MODELS[id];
+	const dimensions = env.EMBEDDING_DIMENSIONS
+		? Number(env.EMBEDDING_DIMENSIONS)
+		: id === "hash" || SHORTENABLE_MODELS.test(model)
+			? EMBEDDING_DIMENSIONS
+			: MODEL_DIMENSIONS[model];
+	if (!dimensions) {
+		throw new Error(`Unknown dimensions for embedding model "${model}", set EMBEDDING_DIMENSIONS`);
+	}
+	if (dimensions !== EMBEDDING_DIMENSIONS) {
+		throw new Error(
+			`Embedding model "${model}" produces ${dimensions}-dimension vectors, but the database stores ${EMBEDDING_DIMENSIONS}`,
+		);
+	}
+
+	switch (id) {
+		case "openai":
+			return new OpenAIEmbeddingProvider(
+				model,
+				dimensions,
+				env.EMBEDDING_API_BASE || env.OPENAI_API_BASE || "https://api.openai.com/v1",
+				env.EMBEDDING_API_KEY || env.OPENAI_API_KEY,
+			);
+		case "ollama":
+			return new OllamaEmbeddingProvider(
+				model,
+				dimensions,
+				env.EMBEDDING_API_BASE ||
+					env.OLLAMA_BASE_URL ||
+					env.OPENAI_API_BASE ||
+					"http://localhost:11434",
+			);
+		case "hash":
+			return new HashEmbeddingProvider(dimensions);
+		default:
+			return new VoyageEmbeddingProvider(
+				model,
+				dimensions,
+				env.EMBEDDING_API_KEY || env.VOYAGE_API_KEY,
+			);
+	}
 }
 
-export async function createEmbeddings(texts: string[]): Promise<number[][]> {
-	if (useOllama) {
-		// Ollama doesn't support batch embeddings, process one at a time
-		const results: number[][] = [];
-		for (const text of texts) {
-			const embedding = await createOllamaEmbedding(text);
-			results.push(embedding);
-		}
-		return results;
+let provider: EmbeddingProvider | null = null;
+
+export function getEmbeddingProvider(): EmbeddingProvider {
+	if (!provider) {
+		provider = createEmbeddingProvider();
+		console.log(
+			`[embeddings] Using ${provider.id} model ${provider.model} (${provider.dimensions} dimensions)`,
+		);
 	}
+	return provider;
+}
 
-	return createVoyageEmbeddings(texts, "document");
+// Model that createEmbeddings uses, so chunking can count tokens with the matching tokenizer
+export function getEmbeddingModel(): string {
+	return getEmbeddingProvider().model;
 }
 
-export async function createQueryEmbedding(query: string): Promise<number[]> {
-	if (useOllama) {
-		return createOllamaEmbedding(query);
+// "provider/model" recorded on agents, so vectors from different models are never compared
+export function getEmbeddingModelId(): string {
+	const { id, model } = getEmbeddingProvider();
+	return `${id}/${model}`;
+}
+
+async function embed(texts: string[], inputType: EmbeddingInputType): Promise<number[][]> {
+	const current = getEmbeddingProvider();
+	const embeddings = await current.embed(texts, inputType);
+	// Catch a misconfigured EMBEDDING_DIMENSIONS before the vectors reach the database
+	const mismatch = embeddings.find((e) => e.length !== current.dimensions);
+	if (mismatch) {
+		throw new Error(
+			`Embedding model "${current.model}" returned ${mismatch.length}-dimension vectors, expected ${current.dimensions}`,
+		);
 	}
+	return embeddings;
+}
 
-	const results = await createVoyageEmbeddings([query], "query");
+export async function createEmbedding(text: string): Promise<number[]> {
+	const embeddings = await createEmbeddings([text]);
+	return embeddings[0];
+}
+
+export function createEmbeddings(texts: string[]): Promise<number[][]> {
+	return embed(texts, "document");
+}
+
+export async function createQueryEmbedding(query: string): Promise<number[]> {
+	const results = await embed([query], "query");
 	return results[0];
 }
+
+export type EmbeddingStatus = "ok" | "failed";
+
+// Embedding columns for a chunk row
+export interface ChunkEmbedding {
+	embedding: number[] | null;
+	embeddingStatus: EmbeddingStatus;
+	embeddingError: string | null;
+}
+
+// Embeddings for chunks about to be stored. If the provider fails, the chunks are still stored
+// (keyword search works without vectors) but marked failed, so the source shows as needing
+// re-embedding and can be retried.
+export async function embedChunks(texts: string[]): Promise<ChunkEmbedding[]> {
+	try {
+		const embeddings = await createEmbeddings(texts);
+		return embeddings.map((embedding) => ({
+			embedding,
+			embeddingStatus: "ok",
+			embeddingError: null,
+		}));
+	} catch (error) {
+		const message = error instanceof Error ? error.message : "Unknown error";
+		console.error(`[embeddings] Storing ${texts.length} chunks without embeddings: ${message}`);
+		return texts.map(() => ({
+			embedding: null,
+			embeddingStatus: "failed",
+			embeddingError: message,
+		}));
+	}
+}
+
+export interface EmbeddingHealth {
+	provider: EmbeddingProviderId;
+	model: string;
+	dimensions: number;
+	status: "ok" | "down";
+	error?: string;
+}
+
+// Health checks call the provider, which may be billed, so results are reused for a while
+const HEALTH_CACHE_MS = 30_000;
+const HEALTH_TIMEOUT_MS = 5_000;
+
+let lastHealth: { checkedAt: number; health: EmbeddingHealth } | null = null;
+
+export async function checkEmbeddingHealth(): Promise<EmbeddingHealth> {
+	if (lastHealth && Date.now() - lastHealth.checkedAt < HEALTH_CACHE_MS) {
+		return lastHealth.health;
+	}
+
+	const { id, model, dimensions } = getEmbeddingProvider();
+	let health: EmbeddingHealth;
+	let timeout: NodeJS.Timeout | undefined;
+	try {
+		await Promise.race([
+			embed(["health check"], "query"),
+			new Promise((_, reject) => {
+				timeout = setTimeout(() => reject(new Error("timed out")), HEALTH_TIMEOUT_MS);
+			}),
+		]);
+		health = { provider: id, model, dimensions, status: "ok" };
+	} catch (error) {
+		health = {
+			provider: id,
+			model,
+			dimensions,
+			status: "down",
+			error: error instanceof Error ? error.message : "Unknown error",
+		};
+	} finally {
+		clearTimeout(timeout);
+	}
+
+	lastHealth = { checkedAt: Date.now(), health };
+	return health;
+}
@@ -0,0 +1,108 @@
+import JSZip from "jszip";
+import { describe, expect, it } from "vitest";
+import { extractText, parseCsv, resolveMimeType } from "./extractors";
+
+async function zip(files: Record<string, string>): Promise<Buffer> {
+	const archive = new JSZip();
+	for (const [path, content] of Object.entries(files)) {
+		archive.file(path, content);
+	}
+	return archive.generateAsync({ type: "nodebuffer" });
+}
+
+describe("resolveMimeType", () => {
+	it("falls back to the extension for missing or generic types", () => {
+		expect(resolveMimeType("", "notes.md")).toBe("text/markdown");
+		expect(resolveMimeType("application/vnd.ms-excel", "Prices.CSV")).toBe("text/csv");
+		expect(resolveMimeType("application/octet-stream", "archive.zip")).toBeNull();
+	});
+});
+
+describe("parseCsv", () => {
+	it("handles quoted commas, newlines and quotes", () => {
+		expect(parseCsv('name,notes\r\nPro,"fast, ""new""\nplan"\r\n')).toEqual([
+			["name", "notes"],
+			["Pro", 'fast, "new"\nplan'],
+		]);
+	});
+});
+
+describe("extractText", () => {
+	it("labels CSV values with their column headers, one paragraph per row", async () => {
+		const csv = "Plan,Price,Seats\nPro,$20,5\nTeam,$50,\n";
+
+		expect(await extractText(Buffer.from(csv), "text/csv")).toBe(
+			"Plan: Pro\nPrice: $20\nSeats: 5\n\nPlan: Team\nPrice: $50",
+		);
+	});
+
+	it("keeps the main content of HTML pages", async () => {
+		const html = `<html><head><title>Refunds</title></head><body>
+			<nav><a href="/">Home</a></nav>
+			<main><h2>Policy</h2><p>Refunds take 5 days.</p></main>
+			<footer>© Acme</footer></body></html>`;
+
+		expect(await extractText(Buffer.from(html), "text/html")).toBe(
+			"# Refunds\n\n## Policy\n\nRefunds take 5 days.",
+		);
+	});
+
+	it("flattens JSON into key paths, one paragraph per record", async () => {
+		const json = JSON.stringify([{ sku: "A1", specs: { weight: "2kg" } }, { sku: "B2" }]);
+
+		expect(await extractText(Buffer.from(json), "application/json")).toBe(
+			"sku: A1\nspecs.weight: 2kg\n\nsku: B2",
+		);
+	});
+
+	it("reads XLSX sheets with shared strings and sparse cells", async () => {
+		const buffer = await zip({
+			"xl/workbook.xml":
+				'<workbook><sheets><sheet name="Specs" sheetId="1" r:id="rId1"/></sheets></workbook>',
+			"xl/_rels/workbook.xml.rels":
+				'<Relationships><Relationship Id="rId1" Target="worksheets/sheet1.xml"/></Relationships>',
+			"xl/sharedStrings.xml":
+				"<sst><si><t>Model</t></si><si><t>Range</t></si><si><t>X1</t></si></sst>",
+			"xl/worksheets/sheet1.xml": `<worksheet><sheetData>
+				<row r="1"><c r="A1" t="s"><v>0</v></c><c r="C1" t="s"><v>1</v></c></row>
+				<row r="2"><c r="A2" t="s"><v>2</v></c><c r="C2"><v>400</v></c></row>
+			</sheetData></worksheet>`,
+		});
+
+		expect(
+			await extractText(
+				buffer,
+				"application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+			),
+		).toBe("# Specs\n\nModel: X1\nRange: 400");
+	});
+
+	it("reads PPTX slides in order", async () => {
+		const slide = (text: string) =>
+			`<p:sld><p:txBody><a:p><a:r><a:t>${text}</a:t></a:r></a:p></p:txBody></p:sld>`;
+		const buffer = await zip({
+			"ppt/slides/slide10.xml": slide("Roadmap"),
+			"ppt/slides/slide2.xml": slide("Pricing &amp; plans"),
+		});
+
+		expect(
+			await extractText(
+				buffer,
+				"application/vnd.openxmlformats-officedocument.presentationml.presentation",
+			),
+		).toBe("# Slide 2\n\nPricing & plans\n\n# Slide 10\n\nRoadmap");
+	});
+
+	it("reads EPUB chapters in spine order", async () => {
+		const buffer = await zip({
+			"META-INF/container.xml": '<container><rootfile full-path="OEBPS/book.opf"/></container>',
+			"OEBPS/book.opf": `<package><manifest>
+				<item id="c1" href="text/one.xhtml"/><item id="c2" href="text/two.xhtml"/>
+			</manifest><spine><itemref idref="c2"/><itemref idref="c1"/></spine></package>`,
+			"OEBPS/text/one.xhtml": "<html><body><h1>One</h1></body></html>",
+			"OEBPS/text/two.xhtml": "<html><body><h1>Two</h1></body></html>",
+		});
+
+		expect(await extractText(buffer, "application/epub+zip")).toBe("# Two\n\n# One");
+	});
+});
@@ -1,20 +1,49 @@
+import JSZip from "jszip";
 import mammoth from "mammoth";
+import { decodeEntities, extractTitle, htmlToMarkdown, removeBoilerplate } from "./html";
 
 export type SupportedMimeType =
 	| "application/pdf"
 	| "application/vnd.openxmlformats-officedocument.wordprocessingml.document"
-	| "text/plain";
+	| "text/plain"
+	| "text/markdown"
+	| "text/html"
+	| "text/csv"
+	| "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+	| "application/vnd.openxmlformats-officedocument.presentationml.presentation"
+	| "application/json"
+	| "application/epub+zip";
 
-const SUPPORTED_TYPES: SupportedMimeType[] = [
-	"application/pdf",
-	"application/vnd.openxmlformats-officedocument.wordprocessingml.document",
-	"text/plain",
-];
+// File extensions of each supported type. Browsers often send no type or a generic one for
+// Markdown, CSV and JSON files, so uploads fall back to the extension.
+const EXTENSIONS: Record<SupportedMimeType, string[]> = {
+	"application/pdf": [".pdf"],
+	"application/vnd.openxmlformats-officedocument.wordprocessingml.document": [".docx"],
+	"text/plain": [".txt"],
+	"text/markdown": [".md", ".markdown"],
+	"text/html": [".html", ".htm"],
+	"text/csv": [".csv"],
+	"application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": [".xlsx"],
+	"application/vnd.openxmlformats-officedocument.presentationml.presentation": [".pptx"],
+	"application/json": [".json"],
+	"application/epub+zip": [".epub"],
+};
+
+const SUPPORTED_TYPES = Object.keys(EXTENSIONS) as SupportedMimeType[];
 
 export function isSupportedType(mimeType: string): mimeType is SupportedMimeType {
 	return SUPPORTED_TYPES.includes(mimeType as SupportedMimeType);
 }
 
+// The file's type if supported, otherwise the type its extension belongs to
+export function resolveMimeType(mimeType: string, filename: string): SupportedMimeType | null {
+	if (isSupportedType(mimeType)) {
+		return mimeType;
+	}
+	const extension = filename.slice(filename.lastIndexOf(".")).toLowerCase();
+	return SUPPORTED_TYPES.find((type) => EXTENSIONS[type].includes(extension)) ?? null;
+}
+
 export async function extractText(buffer: Buffer, mimeType: SupportedMimeType): Promise<string> {
 	switch (mimeType) {
 		case "application/pdf":
@@ -22,7 +51,20 @@ export async function extractText(buffer: Buffer, mimeType: SupportedMimeType):
 		case "application/vnd.openxmlformats-officedocument.wordprocessingml.document":
 			return extractDocx(buffer);
 		case "text/plain":
+		case "text/markdown":
 			return buffer.toString("utf-8");
+		case "text/html":
+			return extractHtml(buffer.toString("utf-8"));
+		case "text/csv":
+			return rowsToText(parseCsv(buffer.toString("utf-8")));
+		case "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet":
+			return extractXlsx(buffer);
+		case "application/vnd.openxmlformats-officedocument.presentationml.presentation":
+			return extractPptx(buffer);
+		case "application/json":
+			return extractJson(buffer.toString("utf-8"));
+		case "application/epub+zip":
+			return extractEpub(buffer);
 		default:
 			throw new Error(`Unsupported file type: ${mimeType}`);
 	}
@@ -38,3 +80,255 @@ async function extractDocx(buffer: Buffer): Promise<string> {
 	const result = await mammoth.extractRawText({ buffer });
 	return result.value;
 }
+
+// Main content as Markdown, with the page title as heading when the content has none
+function extractHtml(html: string): string {
+	const markdown = htmlToMarkdown(removeBoilerplate(html));
+	const title = extractTitle(html);
+	if (title && !markdown.startsWith("# ")) {
+		return `# ${title}\n\n${markdown}`;
+	}
+	return markdown;
+}
+
+// RFC 4180 CSV: quoted fields may contain commas, newlines and doubled quotes
+export function parseCsv(text: string): string[][] {
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let field = "";
+	let quoted = false;
+
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i];
+		if (quoted) {
+			if (char === '"' && text[i + 1] === '"') {
+				field += '"';
+				i++;
+			} else if (char === '"') {
+				quoted = false;
+			} else {
+				field += char;
+			}
+		} else if (char === '"') {
+			quoted = true;
+		} else if (char === ",") {
+			row.push(field);
+			field = "";
+		} else if (char === "\n" || char === "\r") {
+			if (char === "\r" && text[i + 1] === "\n") {
+				i++;
+			}
+			row.push(field);
+			rows.push(row);
+			row = [];
+			field = "";
+		} else {
+			field += char;
+		}
+	}
+	if (field || row.length > 0) {
+		row.push(field);
+		rows.push(row);
+	}
+
+	return rows.filter((cells) => cells.some((cell) => cell.trim()));
+}
+
+// One paragraph per row, each value labelled with its column header so a chunk holding only
+// some rows still says what the values mean
+export function rowsToText(rows: string[][]): string {
+	const [headers, ...records] = rows;
+	if (!headers) {
+		return "";
+	}
+	return records
+		.map((cells) =>
+			cells
+				.map((cell, index) => [headers[index]?.trim() || `Column ${index + 1}`, cell.trim()])
+				.filter(([, value]) => value)
+				.map(([header, value]) => `${header}: ${value}`)
+				.join("\n"),
+		)
+		.filter(Boolean)
+		.join("\n\n");
+}
+
+// Text of every <t> element in an OOXML fragment (shared strings, inline strings, text runs)
+function xmlText(xml: string, tag = "t"): string {
+	const pattern = new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, "g");
+	return [...xml.matchAll(pattern)].map((match) => decodeEntities(match[1])).join("");
+}
+
+async function readZipFile(zip: JSZip, path: string): Promise<string> {
+	const file = zip.file(path);
+	if (!file) {
+		throw new Error(`${path} missing from archive`);
+	}
+	return file.async("string");
+}
+
+// Zero-based column index of a cell reference such as "C7"
+function columnIndex(reference: string): number {
+	const letters = reference.match(/^[A-Z]+/)?.[0] ?? "A";
+	return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+// Each sheet as a heading followed by its rows, with the first row as column headers
+async function extractXlsx(buffer: Buffer): Promise<string> {
+	const zip = await JSZip.loadAsync(buffer);
+	const workbook = await readZipFile(zip, "xl/workbook.xml");
+	const rels = await readZipFile(zip, "xl/_rels/workbook.xml.rels");
+	const sharedStringsXml = (await zip.file("xl/sharedStrings.xml")?.async("string")) ?? "";
+	const sharedStrings = [...sharedStringsXml.matchAll(/<si>([\s\S]*?)<\/si>/g)].map((match) =>
+		xmlText(match[1]),
+	);
+
+	const targets = new Map(
+		[...rels.matchAll(/<Relationship\b[^>]*>/g)].map((match) => [
+			match[0].match(/Id="([^"]+)"/)?.[1],
+			match[0].match(/Target="([^"]+)"/)?.[1],
+		]),
+	);
+
+	const sections: string[] = [];
+	for (const sheet of workbook.matchAll(/<sheet\b[^>]*>/g)) {
+		const name = decodeEntities(sheet[0].match(/name="([^"]*)"/)?.[1] ?? "");
+		const target = targets.get(sheet[0].match(/r:id="([^"]+)"/)?.[1]);
+		if (!target) {
+			continue;
+		}
+		const xml = await readZipFile(zip, target.startsWith("/") ? target.slice(1) : `xl/${target}`);
+
+		const rows: string[][] = [];
+		for (const row of xml.matchAll(/<row\b[^>]*>([\s\S]*?)<\/row>/g)) {
+			const cells: string[] = [];
+			for (const cell of row[1].matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+				const attributes = cell[1];
+				const body = cell[2] ?? "";
+				const type = attributes.match(/\bt="([^"]+)"/)?.[1];
+				const value = decodeEntities(body.match(/<v>([\s\S]*?)<\/v>/)?.[1] ?? "");
+				const reference = attributes.match(/\br="([^"]+)"/)?.[1];
+				const index = reference ? columnIndex(reference) : cells.length;
+
+				if (type === "s") {
+					cells[index] = sharedStrings[Number(value)] ?? "";
+				} else if (type === "inlineStr") {
+					cells[index] = xmlText(body);
+				} else if (type === "b") {
+					cells[index] = value === "1" ? "TRUE" : "FALSE";
+				} else {
+					cells[index] = value;
+				}
+			}
+			rows.push(Array.from(cells, (cell) => cell ?? ""));
+		}
+
+		const text = rowsToText(rows.filter((cells) => cells.some((cell) => cell.trim())));
+		if (text) {
+			sections.push(`# ${name}\n\n${text}`);
+		}
+	}
+
+	return sections.join("\n\n");
+}
+
+// Each slide's text under a "Slide n" heading, one line per paragraph
+async function extractPptx(buffer: Buffer): Promise<string> {
+	const zip = await JSZip.loadAsync(buffer);
+	const slides = Object.keys(zip.files)
+		.map((path) => ({ path, number: Number(path.match(/^ppt\/slides\/slide(\d+)\.xml$/)?.[1]) }))
+		.filter((slide) => slide.number)
+		.sort((a, b) => a.number - b.number);
+
+	const sections: string[] = [];
+	for (const slide of slides) {
+		const xml = await readZipFile(zip, slide.path);
+		const paragraphs = [...xml.matchAll(/<a:p>([\s\S]*?)<\/a:p>/g)]
+			.map((match) => xmlText(match[1], "a:t").trim())
+			.filter(Boolean);
+		if (paragraphs.length > 0) {
+			sections.push(`# Slide ${slide.number}\n\n${paragraphs.join("\n")}`);
+		}
+	}
+
+	return sections.join("\n\n");
+}
+
+function jsonLines(value: unknown, path: string): string[] {
+	if (Array.isArray(value)) {
+		return value.flatMap((item, index) => jsonLines(item, `${path}[${index}]`));
+	}
+	if (value && typeof value === "object") {
+		return Object.entries(value).flatMap(([key, item]) =>
+			jsonLines(item, path ? `${path}.${key}` : key),
+		);
+	}
+	if (value === null || value === "") {
+		return [];
+	}
+	return [path ? `${path}: ${value}` : String(value)];
+}
+
+// "path.to.key: value" lines; records of a top-level array become separate paragraphs
+function extractJson(text: string): string {
+	let data: unknown;
+	try {
+		data = JSON.parse(text);
+	} catch {
+		throw new Error("invalid JSON");
+	}
+	if (Array.isArray(data)) {
+		return data
+			.map((item) => jsonLines(item, "").join("\n"))
+			.filter(Boolean)
+			.join("\n\n");
+	}
+	return jsonLines(data, "").join("\n");
+}
+
+function resolvePath(base: string, href: string): string {
+	const parts = base.split("/").slice(0, -1);
+	for (const part of decodeURIComponent(href.split("#")[0]).split("/")) {
+		if (part === "..") {
+			parts.pop();
+		} else if (part !== ".") {
+			parts.push(part);
+		}
+	}
+	return parts.join("/");
+}
+
+// Chapters in reading order (the package's spine), each converted from XHTML to Markdown
+async function extractEpub(buffer: Buffer): Promise<string> {
+	const zip = await JSZip.loadAsync(buffer);
+	const container = await readZipFile(zip, "META-INF/container.xml");
+	const opfPath = container.match(/full-path="([^"]+)"/)?.[1];
+	if (!opfPath) {
+		throw new Error("EPUB has no package document");
+	}
+	const opf = await readZipFile(zip, opfPath);
+
+	const hrefs = new Map<string, string>();
+	for (const item of opf.matchAll(/<item\b[^>]*>/g)) {
+		const id = item[0].match(/\bid="([^"]+)"/)?.[1];
+		const href = item[0].match(/\bhref="([^"]+)"/)?.[1];
+		if (id && href) {
+			hrefs.set(id, href);
+		}
+	}
+
+	const chapters: string[] = [];
+	for (const itemref of opf.matchAll(/<itemref\b[^>]*idref="([^"]+)"/g)) {
+		const href = hrefs.get(itemref[1]);
+		const file = href && zip.file(resolvePath(opfPath, href));
+		if (!file) {
+			continue;
+		}
+		const markdown = htmlToMarkdown(removeBoilerplate(await file.async("string")));
+		if (markdown) {
+			chapters.push(markdown);
+		}
+	}
+
+	return chapters.join("\n\n");
+}
@@ -0,0 +1,222 @@
+// Reduce HTML (e.g. rich-text editor output) to plain text
+export function stripHtml(html: string): string {
+	return html
+		.replace(/<script[^>]*>[\s\S]*?<\/script>/gi, "")
+		.replace(/<style[^>]*>[\s\S]*?<\/style>/gi, "")
+		.replace(/<[^>]+>/g, " ")
+		.replace(/&nbsp;/g, " ")
+		.replace(/&amp;/g, "&")
+		.replace(/&lt;/g, "<")
+		.replace(/&gt;/g, ">")
+		.replace(/&quot;/g, '"')
+		.replace(/&#39;/g, "'")
+		.replace(/\s+/g, " ")
+		.trim();
+}
+
+export function decodeEntities(text: string): string {
+	return text
+		.replace(/&nbsp;/g, " ")
+		.replace(/&lt;/g, "<")
+		.replace(/&gt;/g, ">")
+		.replace(/&quot;/g, '"')
+		.replace(/&#39;/g, "'")
+		.replace(/&amp;/g, "&");
+}
+
+function tableToMarkdown(table: string): string {
+	const rows = [...table.matchAll(/<tr[^>]*>([\s\S]*?)<\/tr>/gi)].map((row) =>
+		[...row[1].matchAll(/<t[hd][^>]*>([\s\S]*?)<\/t[hd]>/gi)].map((cell) =>
+			stripHtml(cell[1]).replace(/\|/g, "\\|"),
+		),
+	);
+	if (rows.length === 0) {
+		return "";
+	}
+	const lines = rows.map((cells) => `| ${cells.join(" | ")} |`);
+	lines.splice(1, 0, `|${rows[0].map(() => " --- |").join("")}`);
+	return `\n\n${lines.join("\n")}\n\n`;
+}
+
+// Convert HTML to Markdown, keeping the structure the structured chunker splits on:
+// headings, paragraphs, list items, tables and code blocks
+export function htmlToMarkdown(html: string): string {
+	const markdown = html
+		.replace(/<script[^>]*>[\s\S]*?<\/script>/gi, "")
+		.replace(/<style[^>]*>[\s\S]*?<\/style>/gi, "")
+		.replace(
+			/<pre[^>]*>([\s\S]*?)<\/pre>/gi,
+			(_, code: string) => `\n\n\`\`\`\n${code.replace(/<[^>]+>/g, "")}\n\`\`\`\n\n`,
+		)
+		.replace(/<table[^>]*>[\s\S]*?<\/table>/gi, tableToMarkdown)
+		.replace(
+			/<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/gi,
+			(_, level: string, title: string) =>
+				`\n\n${"#".repeat(Number(level))} ${stripHtml(title)}\n\n`,
+		)
+		.replace(/<li[^>]*>/gi, "\n- ")
+		.replace(/<br\s*\/?>/gi, "\n")
+		.replace(/<\/(p|div|ul|ol|blockquote|section|article)>/gi, "\n\n")
+		.replace(/<[^>]+>/g, "");
+
+	// Indentation from the HTML source would read as Markdown code blocks; only code keeps it
+	return decodeEntities(markdown)
+		.split(/(```\n[\s\S]*?\n```)/)
+		.map((part, i) => (i % 2 === 1 ? part : part.replace(/^[ \t]+|[ \t]+$/gm, "")))
+		.join("")
+		.replace(/\n{3,}/g, "\n\n")
+		.trim();
+}
+
+const VOID_ELEMENTS = new Set([
+	"area",
+	"base",
+	"br",
+	"col",
+	"embed",
+	"hr",
+	"img",
+	"input",
+	"link",
+	"meta",
+	"source",
+	"track",
+	"wbr",
+]);
+
+type ElementMatcher = (name: string, openTag: string, element: () => string) => boolean;
+
+// Start and end offsets of the matching elements, each running to its own closing tag so
+// elements nested inside it (even of the same name) are included. Elements inside an earlier
+// match and elements that are never closed are left out.
+function elementSpans(html: string, matches: ElementMatcher): Array<[number, number]> {
+	const tags = [...html.matchAll(/<(\/?)([a-z][a-z0-9-]*)\b[^>]*>/gi)];
+
+	// End offset of each opening tag's element, paired by name like a browser would
+	const ends = new Map<number, number>();
+	const open = new Map<string, number[]>();
+	for (const [i, tag] of tags.entries()) {
+		const name = tag[2].toLowerCase();
+		if (VOID_ELEMENTS.has(name) || tag[0].endsWith("/>")) {
+			continue;
+		}
+		const stack = open.get(name) ?? [];
+		if (!tag[1]) {
+			stack.push(i);
+			open.set(name, stack);
+		} else if (stack.length > 0) {
+			ends.set(stack.pop() as number, tag.index + tag[0].length);
+		}
+	}
+
+	const spans: Array<[number, number]> = [];
+	for (const [i, tag] of tags.entries()) {
+		const end = ends.get(i);
+		const inside = spans.length > 0 && tag.index < spans[spans.length - 1][1];
+		if (end === undefined || inside) {
+			continue;
+		}
+		if (matches(tag[2].toLowerCase(), tag[0], () => html.slice(tag.index, end))) {
+			spans.push([tag.index, end]);
+		}
+	}
+	return spans;
+}
+
+function removeElements(html: string, matches: ElementMatcher): string {
+	let result = "";
+	let position = 0;
+	for (const [start, end] of elementSpans(html, matches)) {
+		result += html.slice(position, start);
+		position = end;
+	}
+	return result + html.slice(position);
+}
+
+// Inner HTML of the first matching element
+function elementContent(html: string, matches: ElementMatcher): string | undefined {
+	const [span] = elementSpans(html, matches);
+	if (!span) {
+		return undefined;
+	}
+	const element = html.slice(span[0], span[1]);
+	return element.slice(element.indexOf(">") + 1, element.lastIndexOf("<"));
+}
+
+const BOILERPLATE_ELEMENTS = new Set(["nav", "aside", "form", "button", "dialog"]);
+
+// Class names and ids of navigation, sidebars, cookie banners, share buttons and the like
+const BOILERPLATE_NAMES =
+	/\b(nav|navbar|menu|sidebar|breadcrumbs?|footer|comments?|cookies?|consent|banner|share|social|related|advert|ads|promo|popup|modal|newsletter|subscribe|skip-link)\b/i;
+
+const BOILERPLATE_ROLES = /^(navigation|banner|contentinfo|complementary|search|dialog|alert)$/i;
+
+// Elements to drop from the main content. Matching class names only count for elements holding
+// less than half the text, so a page wrapper named e.g. "has-sidebar" is kept.
+function boilerplateMatcher(content: string): ElementMatcher {
+	const textLength = stripHtml(content).length;
+	return (name, openTag, element) => {
+		if (BOILERPLATE_ELEMENTS.has(name) || /\shidden(\s|=|>|\/)/i.test(openTag)) {
+			return true;
+		}
+		const attribute = (attr: string) =>
+			openTag.match(new RegExp(`\\s${attr}=["']([^"']*)["']`, "i"))?.[1] ?? "";
+		if (BOILERPLATE_ROLES.test(attribute("role"))) {
+			return true;
+		}
+		return (
+			(BOILERPLATE_NAMES.test(attribute("class")) || BOILERPLATE_NAMES.test(attribute("id"))) &&
+			stripHtml(element()).length < textLength / 2
+		);
+	};
+}
+
+// Lists that are mostly links (menus, "related articles") once the marked-up navigation is gone
+function removeLinkLists(html: string): string {
+	return html.replace(
+		/<(ul|ol)\b[^>]*>((?:(?!<\/?(?:ul|ol)\b)[\s\S])*?)<\/\1>/gi,
+		(list, _name: string, items: string) => {
+			const links = [...items.matchAll(/<a\b[^>]*>([\s\S]*?)<\/a>/gi)];
+			const linkText = links.map((link) => stripHtml(link[1])).join("").length;
+			const text = stripHtml(items).length;
+			return links.length >= 3 && linkText > text * 0.8 ? "" : list;
+		},
+	);
+}
+
+// Keep a page's main content, readability-style: the <main> (or role="main") or <article>
+// element when there is one, otherwise the body without its site header, footer and link
+// lists. Navigation, sidebars, forms, comments and banners are dropped either way, by element
+// name, ARIA role or class name.
+export function removeBoilerplate(html: string): string {
+	const cleaned = html
+		.replace(/<!--[\s\S]*?-->/g, "")
+		.replace(/<(script|style|noscript|template|svg|iframe)\b[^>]*>[\s\S]*?<\/\1>/gi, "");
+
+	const main =
+		elementContent(cleaned, (name, tag) => name === "main" || /\srole=["']main["']/i.test(tag)) ??
+		elementContent(cleaned, (name) => name === "article");
+	const content =
+		main ??
+		removeLinkLists(
+			removeElements(
+				cleaned.match(/<body\b[^>]*>([\s\S]*)<\/body>/i)?.[1] ?? cleaned,
+				(name) => name === "header" || name === "footer",
+			),
+		);
+
+	return removeElements(content, boilerplateMatcher(content));
+}
+
+// The page's <title>, or its first <h1> when the title is missing
+export function extractTitle(html: string): string | null {
+	const title = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+	const heading = html.match(/<h1[^>]*>([\s\S]*?)<\/h1>/i)?.[1];
+	for (const candidate of [title, heading]) {
+		const text = candidate && stripHtml(candidate);
+		if (text) {
+			return text;
+		}
+	}
+	return null;
+}
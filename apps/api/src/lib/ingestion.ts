@@ -0,0 +1,321 @@
+import {
+	agents,
+	and,
+	type DocumentVersion,
+	documentChunks,
+	documents,
+	documentVersions,
+	eq,
+	getDb,
+	qaSourceChunks,
+	qaSources,
+	sql,
+	textSourceChunks,
+	textSources,
+	webSourcePageChunks,
+	webSourcePages,
+	webSources,
+} from "@vela/db";
+import { type ChunkOptions, type ChunkStrategy, chunkText } from "./chunker";
+import { embedChunks } from "./embeddings";
+import { extractText, resolveMimeType } from "./extractors";
+import { htmlToMarkdown, stripHtml } from "./html";
+import { PermanentJobError } from "./queue";
+import { getFileStorage, StorageNotFoundError } from "./storage";
+import { getEmbeddingTokenCounter } from "./tokens";
+
+// Chunk size and overlap configured on the agent, counted with the embedding model's tokenizer
+export async function getChunkOptions(agentId: string): Promise<ChunkOptions> {
+	const db = getDb();
+	const [agent] = await db
+		.select({ chunkSize: agents.chunkSize, chunkOverlap: agents.chunkOverlap })
+		.from(agents)
+		.where(eq(agents.id, agentId));
+	return {
+		chunkSize: agent?.chunkSize,
+		chunkOverlap: agent?.chunkOverlap,
+		countTokens: await getEmbeddingTokenCounter(),
+	};
+}
+
+// Text sources are stored as HTML; structured chunking splits on headings and lists,
+// so keep them by converting to Markdown
+export function chunkHtml(html: string, strategy: ChunkStrategy, options: ChunkOptions): string[] {
+	if (strategy === "structured") {
+		return chunkText(htmlToMarkdown(html), { ...options, strategy });
+	}
+	return chunkText(stripHtml(html), { ...options, strategy });
+}
+
+// Extract the text of a document version's stored original and save it on the version
+async function extractVersion(version: DocumentVersion): Promise<string> {
+	const mimeType = resolveMimeType(version.mimeType, version.filename);
+	if (!version.storageKey || !mimeType) {
+		throw new PermanentJobError(`no stored original to extract ${version.filename} from`);
+	}
+
+	let data: Buffer;
+	try {
+		data = await getFileStorage().get(version.storageKey);
+	} catch (error) {
+		if (error instanceof StorageNotFoundError) {
+			throw new PermanentJobError(error.message);
+		}
+		throw error;
+	}
+
+	let content: string;
+	try {
+		content = await extractText(data, mimeType);
+	} catch (error) {
+		const message = error instanceof Error ? error.message : "Unknown error";
+		throw new PermanentJobError(`could not read ${version.filename}: ${message}`);
+	}
+	if (!content.trim()) {
+		throw new PermanentJobError("no text content extracted");
+	}
+
+	const db = getDb();
+	await db.update(documentVersions).set({ content }).where(eq(documentVersions.id, version.id));
+	return content;
+}
+
+// Clears a pending version that can't be processed, so the document stays on its current one
+const clearPendingVersion = (version: number) =>
+	sql`CASE WHEN ${documents.pendingVersion} = ${version} THEN NULL ELSE ${documents.pendingVersion} END`;
+
+// Chunk and embed a document's pending version (a replacement upload or a rollback), or else its
+// current one. The chunks and the document's file fields are swapped in one transaction, so
+// search sees either the old or the new version, never a mix. Text is extracted from the stored
+// original first when the version has none yet. Returns false for documents without text or
+// original.
+export async function embedDocument(documentId: string, options?: ChunkOptions): Promise<boolean> {
+	const db = getDb();
+	const [doc] = await db.select().from(documents).where(eq(documents.id, documentId));
+	if (!doc) {
+		return false;
+	}
+	const [version] = await db
+		.select()
+		.from(documentVersions)
+		.where(
+			and(
+				eq(documentVersions.documentId, doc.id),
+				eq(documentVersions.version, doc.pendingVersion ?? doc.version),
+			),
+		);
+	if (!version || (!version.content && !version.storageKey)) {
+		return false;
+	}
+
+	let content = version.content;
+	if (!content) {
+		try {
+			content = await extractVersion(version);
+		} catch (error) {
+			if (error instanceof PermanentJobError && doc.pendingVersion === version.version) {
+				await db
+					.update(documents)
+					.set({ pendingVersion: clearPendingVersion(version.version) })
+					.where(eq(documents.id, doc.id));
+			}
+			throw error;
+		}
+	}
+
+	const chunks = chunkText(content, {
+		...(options ?? (await getChunkOptions(doc.agentId))),
+		strategy: doc.chunkStrategy as ChunkStrategy,
+	});
+	const embeddings = await embedChunks(chunks);
+	await db.transaction(async (tx) => {
+		await tx.delete(documentChunks).where(eq(documentChunks.documentId, doc.id));
+		if (chunks.length > 0) {
+			await tx.insert(documentChunks).values(
+				chunks.map((content, index) => ({
+					documentId: doc.id,
+					content,
+					chunkIndex: index,
+					...embeddings[index],
+				})),
+			);
+		}
+		await tx
+			.update(documents)
+			.set({
+				version: version.version,
+				filename: version.filename,
+				mimeType: version.mimeType,
+				size: version.size,
+				storageKey: version.storageKey,
+				contentHash: version.contentHash,
+				content,
+				// A newer upload may have arrived meanwhile; its own job processes it next
+				pendingVersion: clearPendingVersion(version.version),
+			})
+			.where(eq(documents.id, doc.id));
+	});
+	return true;
+}
+
+export async function embedTextSource(
+	textSourceId: string,
+	options?: ChunkOptions,
+): Promise<boolean> {
+	const db = getDb();
+	const [source] = await db.select().from(textSources).where(eq(textSources.id, textSourceId));
+	if (!source) {
+		return false;
+	}
+
+	const chunks = chunkHtml(
+		source.content,
+		source.chunkStrategy as ChunkStrategy,
+		options ?? (await getChunkOptions(source.agentId)),
+	);
+	const embeddings = await embedChunks(chunks);
+	await db.transaction(async (tx) => {
+		await tx.delete(textSourceChunks).where(eq(textSourceChunks.textSourceId, source.id));
+		if (chunks.length === 0) {
+			return;
+		}
+		await tx.insert(textSourceChunks).values(
+			chunks.map((content, index) => ({
+				textSourceId: source.id,
+				content,
+				chunkIndex: index,
+				...embeddings[index],
+			})),
+		);
+	});
+	return true;
+}
+
+// One chunk per question, embedding the question with the answer for search and the question
+// alone for exact-match answers
+export async function embedQaSource(qaSourceId: string): Promise<boolean> {
+	const db = getDb();
+	const [source] = await db.select().from(qaSources).where(eq(qaSources.id, qaSourceId));
+	if (!source) {
+		return false;
+	}
+
+	const plainAnswer = stripHtml(source.answer);
+	const embeddingTexts = source.questions.map((q) => `Q: ${q}\nA: ${plainAnswer}`);
+	const embeddings = await embedChunks([...embeddingTexts, ...source.questions]);
+	await db.transaction(async (tx) => {
+		await tx.delete(qaSourceChunks).where(eq(qaSourceChunks.qaSourceId, source.id));
+		await tx.insert(qaSourceChunks).values(
+			source.questions.map((question, index) => ({
+				qaSourceId: source.id,
+				question,
+				content: embeddingTexts[index],
+				chunkIndex: index,
+				...embeddings[index],
+				questionEmbedding: embeddings[source.questions.length + index].embedding,
+			})),
+		);
+	});
+	return true;
+}
+
+export async function embedWebPage(
+	pageId: string,
+	content: string,
+	strategy: ChunkStrategy,
+	options: ChunkOptions,
+): Promise<void> {
+	const db = getDb();
+	const chunks = chunkText(content, { ...options, strategy });
+	const embeddings = await embedChunks(chunks);
+	await db.transaction(async (tx) => {
+		await tx.delete(webSourcePageChunks).where(eq(webSourcePageChunks.webSourcePageId, pageId));
+		if (chunks.length === 0) {
+			return;
+		}
+		await tx.insert(webSourcePageChunks).values(
+			chunks.map((content, index) => ({
+				webSourcePageId: pageId,
+				content,
+				chunkIndex: index,
+				...embeddings[index],
+			})),
+		);
+	});
+}
+
+interface RechunkResult {
+	documents: number;
+	textSources: number;
+	webPages: number;
+	skippedDocuments: number; // without stored text or original, or whose original can't be read
+}
+
+// Re-chunk and re-embed every source of an agent with its current chunk settings
+export async function rechunkAgentSources(
+	agentId: string,
+	onProgress?: (done: number, total: number) => Promise<void>,
+): Promise<RechunkResult> {
+	const db = getDb();
+	const options = await getChunkOptions(agentId);
+	const result: RechunkResult = { documents: 0, textSources: 0, webPages: 0, skippedDocuments: 0 };
+
+	const docs = await db
+		.select({ id: documents.id })
+		.from(documents)
+		.where(eq(documents.agentId, agentId));
+	const texts = await db
+		.select({ id: textSources.id })
+		.from(textSources)
+		.where(eq(textSources.agentId, agentId));
+	const pages = await db
+		.select({
+			id: webSourcePages.id,
+			content: webSourcePages.content,
+			chunkStrategy: webSources.chunkStrategy,
+		})
+		.from(webSourcePages)
+		.innerJoin(webSources, eq(webSourcePages.webSourceId, webSources.id))
+		.where(and(eq(webSources.agentId, agentId), eq(webSourcePages.status, "crawled")));
+
+	const total = docs.length + texts.length + pages.length;
+	let done = 0;
+	const step = async () => {
+		done++;
+		await onProgress?.(done, total);
+	};
+
+	for (const doc of docs) {
+		try {
+			if (await embedDocument(doc.id, options)) {
+				result.documents++;
+			} else {
+				result.skippedDocuments++;
+			}
+		} catch (error) {
+			if (!(error instanceof PermanentJobError)) {
+				throw error;
+			}
+			console.warn(`[ingestion] Skipping document ${doc.id}: ${error.message}`);
+			result.skippedDocuments++;
+		}
+		await step();
+	}
+
+	for (const source of texts) {
+		if (await embedTextSource(source.id, options)) {
+			result.textSources++;
+		}
+		await step();
+	}
+
+	for (const page of pages) {
+		if (page.content) {
+			await embedWebPage(page.id, page.content, page.chunkStrategy as ChunkStrategy, options);
+			result.webPages++;
+		}
+		await step();
+	}
+
+	return result;
+}
@@ -0,0 +1,38 @@
+import { crawlWebSource } from "./crawler";
+import { embedDocument, embedQaSource, embedTextSource, rechunkAgentSources } from "./ingestion";
+import { registerJobHandler } from "./queue";
+import { detectEmbeddingModel, reindexAgent } from "./reindex";
+
+// Handlers for every job type the API enqueues. Handlers skip sources deleted while their job
+// waited in the queue.
+export function registerJobHandlers(): void {
+	registerJobHandler<{ documentId: string }>("ingest_document", async ({ documentId }) => {
+		await embedDocument(documentId);
+	});
+
+	registerJobHandler<{ textSourceId: string }>("embed_text_source", async ({ textSourceId }) => {
+		await embedTextSource(textSourceId);
+	});
+
+	registerJobHandler<{ qaSourceId: string }>("embed_qa_source", async ({ qaSourceId }) => {
+		await embedQaSource(qaSourceId);
+	});
+
+	// Crawls take long; one at a time per worker leaves room for embedding jobs
+	registerJobHandler("crawl_web_source", crawlWebSource, { concurrency: 1 });
+
+	registerJobHandler<{ agentId: string }>(
+		"rechunk_agent",
+		async ({ agentId }, { progress }) => {
+			const result = await rechunkAgentSources(agentId, progress);
+			console.log(
+				`[ingestion] Re-chunked agent ${agentId}: ${result.documents} documents, ${result.textSources} text sources, ${result.webPages} web pages (${result.skippedDocuments} documents skipped)`,
+			);
+		},
+		{ concurrency: 1 },
+	);
+
+	registerJobHandler("reindex_agent", reindexAgent, { concurrency: 1 });
+
+	registerJobHandler("detect_embedding_model", detectEmbeddingModel);
+}
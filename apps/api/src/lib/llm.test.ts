@@ -0,0 +1,244 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+
+type LLMModule = typeof import("./llm");
+
+let llm: LLMModule;
+
+beforeAll(async () => {
+	// Provider selection happens at module load
+	process.env.OPENAI_API_BASE = "http://llm.test/v1";
+	process.env.OPENAI_TEXT_TOOL_MODELS = "legacy-model";
+	llm = await import("./llm");
+});
+
+function sseResponse(chunks: unknown[]): Response {
+	const body = `${chunks.map((c) => `data: ${JSON.stringify(c)}\n\n`).join("")}data: [DONE]\n\n`;
+	return new Response(body, { status: 200 });
+}
+
+const weatherTool = {
+	name: "get_weather",
+	description: "Get the weather",
+	input_schema: {
+		type: "object" as const,
+		properties: { city: { type: "string" } },
+		required: ["city"],
+	},
+};
+
+async function collect(options: Parameters<LLMModule["streamChat"]>[0]) {
+	const events: Parameters<Parameters<LLMModule["streamChat"]>[1]>[0][] = [];
+	await llm.streamChat(options, async (event) => {
+		events.push(event);
+	});
+	return events;
+}
+
+describe("streamChat (OpenAI-compatible)", () => {
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it("sends native tools and assembles streamed tool call arguments", async () => {
+		const fetchMock = vi.fn().mockResolvedValue(
+			sseResponse([
+				{
+					choices: [
+						{
+							delta: {
+								tool_calls: [
+									{ index: 0, id: "call_a", function: { name: "get_weather", arguments: '{"ci' } },
+								],
+							},
+						},
+					],
+				},
+				{
+					choices: [
+						{
+							delta: {
+								tool_calls: [
+									{ index: 0, function: { arguments: 'ty":"Oslo"}' } },
+									{ index: 1, id: "call_b", function: { name: "get_weather", arguments: "{}" } },
+								],
+							},
+						},
+					],
+				},
+				{ choices: [], usage: { prompt_tokens: 12, completion_tokens: 7 } },
+			]),
+		);
+		vi.stubGlobal("fetch", fetchMock);
+
+		const events = await collect({
+			model: "gpt-4o",
+			messages: [{ role: "user", content: "Weather in Oslo?" }],
+			tools: [weatherTool],
+		});
+
+		const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+		expect(body.tools[0].function.name).toBe("get_weather");
+		expect(body.messages[0].content).not.toContain("You have tools available");
+
+		expect(events.filter((e) => e.type === "tool_use").map((e) => e.toolUse)).toEqual([
+			{ id: "call_a", name: "get_weather", input: { city: "Oslo" } },
+			{ id: "call_b", name: "get_weather", input: {} },
+		]);
+		expect(events.at(-1)).toEqual({ type: "done", usage: { inputTokens: 12, outputTokens: 7 } });
+	});
+
+	it("replays tool results as tool messages", async () => {
+		const fetchMock = vi
+			.fn()
+			.mockResolvedValue(sseResponse([{ choices: [{ delta: { content: "Sunny" } }] }]));
+		vi.stubGlobal("fetch", fetchMock);
+
+		await collect({
+			model: "gpt-4o",
+			messages: [
+				{ role: "user", content: "Weather in Oslo?" },
+				{
+					role: "assistant",
+					content: [
+						{ type: "tool_use", id: "call_a", name: "get_weather", input: { city: "Oslo" } },
+					],
+				},
+				{
+					role: "user",
+					content: [{ type: "tool_result", tool_use_id: "call_a", content: "sunny" }],
+				},
+			],
+			tools: [weatherTool],
+		});
+
+		const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+		expect(body.messages[1].tool_calls[0]).toEqual({
+			id: "call_a",
+			type: "function",
+			function: { name: "get_weather", arguments: '{"city":"Oslo"}' },
+		});
+		expect(body.messages[2]).toEqual({ role: "tool", tool_call_id: "call_a", content: "sunny" });
+	});
+
+	it("passes text through untouched for native models", async () => {
+		vi.stubGlobal(
+			"fetch",
+			vi
+				.fn()
+				.mockResolvedValue(
+					sseResponse([{ choices: [{ delta: { content: "Let me check that for you." } }] }]),
+				),
+		);
+
+		const events = await collect({
+			model: "gpt-4o",
+			messages: [{ role: "user", content: "Hi" }],
+		});
+
+		expect(events.filter((e) => e.type === "text_delta").map((e) => e.text)).toEqual([
+			"Let me check that for you.",
+		]);
+	});
+
+	it("falls back to the text-prompt protocol for models without native tools", async () => {
+		const fetchMock = vi.fn().mockResolvedValue(
+			sseResponse([
+				{
+					choices: [
+						{
+							delta: {
+								content: '```json\n{"tool": "get_weather", "parameters": {"city": "Oslo"}}\n```',
+							},
+						},
+					],
+				},
+			]),
+		);
+		vi.stubGlobal("fetch", fetchMock);
+
+		const events = await collect({
+			model: "legacy-model",
+			messages: [{ role: "user", content: "Weather in Oslo?" }],
+			tools: [weatherTool],
+		});
+
+		const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+		expect(body.tools).toBeUndefined();
+		expect(body.messages[0].content).toContain("get_weather");
+		expect(events.find((e) => e.type === "tool_use")?.toolUse).toMatchObject({
+			name: "get_weather",
+			input: { city: "Oslo" },
+		});
+		expect(events.some((e) => e.type === "text_delta")).toBe(false);
+	});
+});
+
+describe("streamChat retries and fallbacks", () => {
+	const retry = { maxRetries: 2, baseDelayMs: 0 };
+	const fallbackProvider = {
+		id: "openai" as const,
+		protocol: "openai" as const,
+		baseUrl: "http://fallback.test/v1",
+	};
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it("retries retryable errors before any output", async () => {
+		const fetchMock = vi
+			.fn()
+			.mockResolvedValueOnce(new Response("overloaded", { status: 503 }))
+			.mockResolvedValue(sseResponse([{ choices: [{ delta: { content: "Hi" } }] }]));
+		vi.stubGlobal("fetch", fetchMock);
+
+		const events: string[] = [];
+		const answered = await llm.streamChat(
+			{ model: "gpt-4o", messages: [{ role: "user", content: "Hi" }], retry },
+			async (event) => {
+				if (event.text) events.push(event.text);
+			},
+		);
+
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+		expect(events).toEqual(["Hi"]);
+		expect(answered.model).toBe("gpt-4o");
+	});
+
+	it("falls back to the next model after exhausting retries", async () => {
+		const fetchMock = vi.fn(async (url: string, _init?: RequestInit) =>
+			url.startsWith("http://fallback.test")
+				? sseResponse([{ choices: [{ delta: { content: "From fallback" } }] }])
+				: new Response("rate limited", { status: 429 }),
+		);
+		vi.stubGlobal("fetch", fetchMock);
+
+		const answered = await llm.streamChat(
+			{
+				model: "gpt-4o",
+				messages: [{ role: "user", content: "Hi" }],
+				fallbacks: [{ model: "backup-model", provider: fallbackProvider }],
+				retry,
+			},
+			async () => {},
+		);
+
+		// Primary tried 1 + 2 retries, then the fallback once
+		expect(fetchMock).toHaveBeenCalledTimes(4);
+		expect(answered.model).toBe("backup-model");
+		expect(JSON.parse(fetchMock.mock.calls[3][1]?.body as string).model).toBe("backup-model");
+	});
+
+	it("does not retry non-retryable errors on the same model", async () => {
+		const fetchMock = vi.fn().mockResolvedValue(new Response("bad request", { status: 400 }));
+		vi.stubGlobal("fetch", fetchMock);
+
+		await expect(
+			llm.streamChat(
+				{ model: "gpt-4o", messages: [{ role: "user", content: "Hi" }], retry },
+				async () => {},
+			),
+		).rejects.toMatchObject({ status: 400 });
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+	});
+});
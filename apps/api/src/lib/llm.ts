@@ -1,11 +1,19 @@
 import Anthropic from "@anthropic-ai/sdk";
+import { type ProviderConfig, type ResolvedModel, resolveProvider } from "./providers";
 
 // LLM Provider abstraction
-// Supports: Anthropic (default), OpenAI-compatible (Ollama, OpenAI, etc.)
+// Supports: Anthropic, OpenAI-compatible (Ollama, OpenAI, etc.), chosen per call via ProviderConfig
 
-interface ChatMessage {
+// Content blocks follow the Anthropic shape so tool calls and their results can be
+// replayed to the model across steps of an agentic loop
+export type ContentBlock =
+	| { type: "text"; text: string }
+	| { type: "tool_use"; id: string; name: string; input: Record<string, unknown> }
+	| { type: "tool_result"; tool_use_id: string; content: string; is_error?: boolean };
+
+export interface LLMMessage {
 	role: "user" | "assistant" | "system";
-	content: string;
+	content: string | ContentBlock[];
 }
 
 export interface Tool {
@@ -24,40 +32,83 @@ export interface ToolUse {
 	input: Record<string, unknown>;
 }
 
-interface StreamOptions {
+export interface StreamOptions {
 	model: string;
 	maxTokens?: number;
 	temperature?: number;
 	system?: string;
-	messages: ChatMessage[];
+	messages: LLMMessage[];
 	tools?: Tool[];
+	// "none" keeps the tools declared, so earlier tool calls can be replayed, but lets the model
+	// only answer in text
+	toolChoice?: "auto" | "none";
+	// Defaults to the deployment-wide provider from env
+	provider?: ProviderConfig;
+	// Tried in order when the primary model fails before any output has streamed
+	fallbacks?: ResolvedModel[];
+	retry?: RetryPolicy;
 }
 
 interface StreamEvent {
-	type: "text_delta" | "tool_use" | "done" | "error";
+	type: "text_delta" | "tool_use" | "done";
 	text?: string;
 	toolUse?: ToolUse;
 	usage?: {
 		inputTokens: number;
 		outputTokens: number;
 	};
-	error?: string;
 }
 
 type StreamCallback = (event: StreamEvent) => Promise<void>;
 
-// Determine which provider to use
-const useOpenAI = !!process.env.OPENAI_API_BASE;
+// Retries per model on retryable errors, with exponential backoff from baseDelayMs
+export interface RetryPolicy {
+	maxRetries: number;
+	baseDelayMs: number;
+}
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = { maxRetries: 2, baseDelayMs: 500 };
 
-// Anthropic client (only init if needed)
-let anthropicClient: Anthropic | null = null;
-function getAnthropic(): Anthropic {
-	if (!anthropicClient) {
-		anthropicClient = new Anthropic({
-			apiKey: process.env.ANTHROPIC_API_KEY,
-		});
+// Failed request to an LLM endpoint, with the HTTP status when there was a response
+export class LLMRequestError extends Error {
+	constructor(
+		message: string,
+		readonly status?: number,
+	) {
+		super(message);
+		this.name = "LLMRequestError";
+	}
+}
+
+// Rate limits, overloads, timeouts and server errors are worth retrying
+const RETRYABLE_STATUSES = new Set([408, 409, 429, 500, 502, 503, 504, 529]);
+
+function isRetryableError(error: unknown): boolean {
+	if (error instanceof Anthropic.APIConnectionError) {
+		return true;
+	}
+	if (error instanceof Anthropic.APIError || error instanceof LLMRequestError) {
+		if (error.status !== undefined) {
+			return RETRYABLE_STATUSES.has(error.status);
+		}
+		// Errors sent mid-stream have no status; Anthropic reports overloads this way
+		return error.message.includes("overloaded");
+	}
+	// fetch() rejects with a TypeError when the endpoint can't be reached
+	return error instanceof TypeError;
+}
+
+// Anthropic clients keyed by API key (agents may bring their own)
+const anthropicClients = new Map<string, Anthropic>();
+function getAnthropic(apiKey: string | undefined): Anthropic {
+	const key = apiKey || "";
+	let client = anthropicClients.get(key);
+	if (!client) {
+		// Retries are handled by streamChat so they can fall through to other models
+		client = new Anthropic({ apiKey: key, maxRetries: 0 });
+		anthropicClients.set(key, client);
 	}
-	return anthropicClient;
+	return client;
 }
 
 // Build a system prompt that includes tool descriptions for models that don't support native tool calling
@@ -139,56 +190,122 @@ function stripToolCallsFromText(text: string): string {
 		/\{\s*"tool"\s*:\s*"[^"]+"\s*,\s*"parameters"\s*:\s*\{[^}]+\}\s*\}/g,
 		"",
 	);
-	// Remove waiting/processing phrases
-	cleaned = cleaned.replace(/wait (for )?a moment[^.]*[.!]?/gi, "");
-	cleaned = cleaned.replace(/I'll wait[^.)]*[.)]/gi, "");
-	cleaned = cleaned.replace(/\(I'll wait[^)]*\)/gi, "");
-	cleaned = cleaned.replace(/one moment[^.]*[.!]?/gi, "");
-	cleaned = cleaned.replace(/please wait[^.]*[.!]?/gi, "");
-	cleaned = cleaned.replace(/let me check[^.]*[.!]?/gi, "");
-	cleaned = cleaned.replace(/checking[^.]*[.!]?/gi, "");
-	// Remove common phrases about using tools
-	cleaned = cleaned.replace(
-		/I('ll| will| am going to) (use|run|execute|call)[^.]*tool[^.]*\./gi,
-		"",
-	);
-	cleaned = cleaned.replace(/Let me (use|check|get|run|call)[^.]*\./gi, "");
-	cleaned = cleaned.replace(/Using the \w+ tool[^.]*[:.]/gi, "");
-	cleaned = cleaned.replace(/Running[^.]*tool[^.]*\.\.\./gi, "");
-	cleaned = cleaned.replace(/Result:\s*/gi, "");
-	// Remove tool-related headers and labels
-	cleaned = cleaned.replace(/^\s*Tool call:?\s*$/gim, "");
-	cleaned = cleaned.replace(/^\s*Running.*:?\s*$/gim, "");
-	// Remove orphaned parenthetical notes about waiting
-	cleaned = cleaned.replace(/\([^)]*wait[^)]*result[^)]*\)/gi, "");
-	cleaned = cleaned.replace(/\([^)]*before responding[^)]*\)/gi, "");
 	// Clean up extra whitespace and newlines
 	cleaned = cleaned.replace(/\n{3,}/g, "\n\n");
 	cleaned = cleaned.replace(/^[\s\n]+|[\s\n]+$/g, "");
 	return cleaned;
 }
 
-// OpenAI-compatible streaming (works with Ollama, OpenAI, etc.)
-async function streamOpenAI(options: StreamOptions, callback: StreamCallback): Promise<void> {
-	const baseUrl = process.env.OPENAI_API_BASE || "https://api.openai.com/v1";
-	const apiKey = process.env.OPENAI_API_KEY || "";
-	const model = process.env.OPENAI_MODEL || options.model;
+// Flatten content blocks to plain text for the text-prompt tool protocol, or to replay tool
+// calls to a model that may no longer make them
+function flattenContent(content: string | ContentBlock[]): string {
+	if (typeof content === "string") {
+		return content;
+	}
+	return content
+		.map((block) => {
+			if (block.type === "text") {
+				return block.text;
+			}
+			if (block.type === "tool_use") {
+				return `\`\`\`json\n${JSON.stringify({ tool: block.name, parameters: block.input })}\n\`\`\``;
+			}
+			return `Tool result: ${block.content}`;
+		})
+		.join("\n\n");
+}
+
+// Models that can't use the native `tools` API fall back to the text-prompt protocol.
+// Comma-separated, e.g. OPENAI_TEXT_TOOL_MODELS=llama2,phi
+const textToolModels = new Set(
+	(process.env.OPENAI_TEXT_TOOL_MODELS || "")
+		.split(",")
+		.map((m) => m.trim())
+		.filter(Boolean),
+);
+
+export function supportsNativeTools(model: string): boolean {
+	return !textToolModels.has(model);
+}
+
+type OpenAIMessage =
+	| { role: "system" | "user"; content: string }
+	| {
+			role: "assistant";
+			content: string | null;
+			tool_calls?: {
+				id: string;
+				type: "function";
+				function: { name: string; arguments: string };
+			}[];
+	  }
+	| { role: "tool"; tool_call_id: string; content: string };
+
+// Convert content blocks to OpenAI chat messages with tool_calls / tool roles
+function toOpenAIMessages(message: LLMMessage): OpenAIMessage[] {
+	if (typeof message.content === "string") {
+		return [{ role: message.role, content: message.content } as OpenAIMessage];
+	}
 
-	// For OpenAI-compatible APIs, inject tools into system prompt
-	// (Native tool calling is inconsistent across Ollama models)
-	const systemWithTools = buildToolSystemPrompt(options.system, options.tools || []);
+	const text = message.content
+		.filter((b) => b.type === "text")
+		.map((b) => b.text)
+		.join("\n\n");
+
+	if (message.role === "assistant") {
+		const toolCalls = message.content
+			.filter((b) => b.type === "tool_use")
+			.map((b) => ({
+				id: b.id,
+				type: "function" as const,
+				function: { name: b.name, arguments: JSON.stringify(b.input) },
+			}));
+		return [
+			{
+				role: "assistant",
+				content: text || null,
+				...(toolCalls.length > 0 && { tool_calls: toolCalls }),
+			},
+		];
+	}
+
+	const result: OpenAIMessage[] = message.content
+		.filter((b) => b.type === "tool_result")
+		.map((b) => ({ role: "tool", tool_call_id: b.tool_use_id, content: b.content }));
+	if (text) {
+		result.push({ role: "user", content: text });
+	}
+	return result;
+}
+
+// OpenAI-compatible streaming (works with Ollama, OpenAI, etc.)
+async function streamOpenAI(
+	options: StreamOptions,
+	provider: ProviderConfig,
+	callback: StreamCallback,
+): Promise<void> {
+	const baseUrl = provider.baseUrl || "https://api.openai.com/v1";
+	const apiKey = provider.apiKey || "";
+	const model = options.model;
+
+	const tools = options.tools || [];
+	const nativeTools = supportsNativeTools(model);
+	const toolsOff = options.toolChoice === "none";
+	const textTools = !nativeTools && tools.length > 0 && !toolsOff;
 
 	// Convert messages format - include system as first message for OpenAI
-	const messages: { role: string; content: string }[] = [];
-	if (systemWithTools) {
-		messages.push({ role: "system", content: systemWithTools });
+	const messages: OpenAIMessage[] = [];
+	const system = textTools ? buildToolSystemPrompt(options.system, tools) : options.system;
+	if (system) {
+		messages.push({ role: "system", content: system });
+	}
+	for (const m of options.messages) {
+		if (nativeTools) {
+			messages.push(...toOpenAIMessages(m));
+		} else {
+			messages.push({ role: m.role, content: flattenContent(m.content) } as OpenAIMessage);
+		}
 	}
-	messages.push(
-		...options.messages.map((m) => ({
-			role: m.role,
-			content: m.content,
-		})),
-	);
 
 	const response = await fetch(`${baseUrl}/chat/completions`, {
 		method: "POST",
@@ -202,29 +319,43 @@ async function streamOpenAI(options: StreamOptions, callback: StreamCallback): P
 			max_tokens: options.maxTokens || 4096,
 			temperature: options.temperature || 0.5,
 			stream: true,
+			stream_options: { include_usage: true },
+			...(nativeTools &&
+				tools.length > 0 && {
+					tools: tools.map((tool) => ({
+						type: "function",
+						function: {
+							name: tool.name,
+							description: tool.description,
+							parameters: tool.input_schema,
+						},
+					})),
+					...(toolsOff && { tool_choice: "none" }),
+				}),
 		}),
 	});
 
 	if (!response.ok) {
 		const error = await response.text();
-		await callback({ type: "error", error });
-		return;
+		throw new LLMRequestError(error || response.statusText, response.status);
 	}
 
 	const reader = response.body?.getReader();
 	if (!reader) {
-		await callback({ type: "error", error: "No response body" });
-		return;
+		throw new LLMRequestError("No response body");
 	}
 
 	const decoder = new TextDecoder();
 	let buffer = "";
 	let totalInputTokens = 0;
 	let totalOutputTokens = 0;
-	let accumulatedText = ""; // Track full response to detect tool calls
+	let accumulatedText = ""; // Track full response to detect text-protocol tool calls
 	let lastEmittedLength = 0; // Track what we've already sent to client
 
-	// Helper to emit cleaned text incrementally
+	// Native tool calls arrive as deltas keyed by index; arguments stream in pieces
+	const pendingToolCalls = new Map<number, { id: string; name: string; arguments: string }>();
+
+	// Helper to emit cleaned text incrementally (text-prompt protocol only)
 	const emitCleanedText = async () => {
 		const cleaned = stripToolCallsFromText(accumulatedText);
 		if (cleaned.length > lastEmittedLength) {
@@ -234,6 +365,47 @@ async function streamOpenAI(options: StreamOptions, callback: StreamCallback): P
 		}
 	};
 
+	const finish = async () => {
+		if (textTools) {
+			const toolCall = parseToolCallFromText(accumulatedText);
+			if (toolCall) {
+				await callback({
+					type: "tool_use",
+					toolUse: {
+						id: `tool_${Date.now()}`,
+						name: toolCall.tool,
+						input: toolCall.parameters,
+					},
+				});
+			}
+
+			// Emit any remaining cleaned text
+			await emitCleanedText();
+		}
+
+		for (const [index, call] of [...pendingToolCalls.entries()].sort((a, b) => a[0] - b[0])) {
+			let input: Record<string, unknown>;
+			try {
+				input = call.arguments ? JSON.parse(call.arguments) : {};
+			} catch {
+				// Invalid JSON arguments, skip
+				continue;
+			}
+			await callback({
+				type: "tool_use",
+				toolUse: { id: call.id || `tool_${Date.now()}_${index}`, name: call.name, input },
+			});
+		}
+
+		await callback({
+			type: "done",
+			usage: {
+				inputTokens: totalInputTokens,
+				outputTokens: totalOutputTokens,
+			},
+		});
+	};
+
 	try {
 		while (true) {
 			const { done, value } = await reader.read();
@@ -247,29 +419,7 @@ async function streamOpenAI(options: StreamOptions, callback: StreamCallback): P
 				if (line.startsWith("data: ")) {
 					const data = line.slice(6);
 					if (data === "[DONE]") {
-						// Check for tool call in accumulated text before finishing
-						const toolCall = parseToolCallFromText(accumulatedText);
-						if (toolCall) {
-							await callback({
-								type: "tool_use",
-								toolUse: {
-									id: `tool_${Date.now()}`,
-									name: toolCall.tool,
-									input: toolCall.parameters,
-								},
-							});
-						}
-
-						// Emit any remaining cleaned text
-						await emitCleanedText();
-
-						await callback({
-							type: "done",
-							usage: {
-								inputTokens: totalInputTokens,
-								outputTokens: totalOutputTokens,
-							},
-						});
+						await finish();
 						return;
 					}
 
@@ -277,19 +427,34 @@ async function streamOpenAI(options: StreamOptions, callback: StreamCallback): P
 						const parsed = JSON.parse(data);
 						const delta = parsed.choices?.[0]?.delta;
 						if (delta?.content) {
-							accumulatedText += delta.content;
-							totalOutputTokens += 1; // Rough estimate
-
-							// Only emit if we're not in the middle of a tool call block
-							// Check if we have an unclosed ```tool_call block
-							const toolCallStarts = (accumulatedText.match(/```tool_call/g) || []).length;
-							const codeBlockEnds = (accumulatedText.match(/```(?!tool_call)/g) || []).length;
-							const inToolBlock = toolCallStarts > codeBlockEnds;
-
-							if (!inToolBlock) {
-								await emitCleanedText();
+							totalOutputTokens += 1; // Rough estimate, replaced by reported usage
+
+							if (textTools) {
+								accumulatedText += delta.content;
+
+								// Only emit if we're not in the middle of a tool call block
+								// Check if we have an unclosed ```tool_call block
+								const toolCallStarts = (accumulatedText.match(/```tool_call/g) || []).length;
+								const codeBlockEnds = (accumulatedText.match(/```(?!tool_call)/g) || []).length;
+								const inToolBlock = toolCallStarts > codeBlockEnds;
+
+								if (!inToolBlock) {
+									await emitCleanedText();
+								}
+							} else {
+								await callback({ type: "text_delta", text: delta.content });
 							}
 						}
+						for (const toolCallDelta of delta?.tool_calls || []) {
+							const index: number = toolCallDelta.index ?? 0;
+							const call = pendingToolCalls.get(index) || { id: "", name: "", arguments: "" };
+							if (toolCallDelta.id) call.id = toolCallDelta.id;
+							if (toolCallDelta.function?.name) call.name += toolCallDelta.function.name;
+							if (toolCallDelta.function?.arguments) {
+								call.arguments += toolCallDelta.function.arguments;
+							}
+							pendingToolCalls.set(index, call);
+						}
 						// Some providers include usage
 						if (parsed.usage) {
 							totalInputTokens = parsed.usage.prompt_tokens || 0;
@@ -302,37 +467,23 @@ async function streamOpenAI(options: StreamOptions, callback: StreamCallback): P
 			}
 		}
 
-		// Check for tool call in accumulated text (for providers that don't send [DONE])
-		const toolCall = parseToolCallFromText(accumulatedText);
-		if (toolCall) {
-			await callback({
-				type: "tool_use",
-				toolUse: {
-					id: `tool_${Date.now()}`,
-					name: toolCall.tool,
-					input: toolCall.parameters,
-				},
-			});
-		}
-
-		// Emit any remaining cleaned text
-		await emitCleanedText();
-
-		await callback({
-			type: "done",
-			usage: {
-				inputTokens: totalInputTokens,
-				outputTokens: totalOutputTokens,
-			},
-		});
+		// Providers that don't send [DONE]
+		await finish();
 	} finally {
 		reader.releaseLock();
 	}
 }
 
 // Anthropic streaming
-async function streamAnthropic(options: StreamOptions, callback: StreamCallback): Promise<void> {
-	const anthropic = getAnthropic();
+async function streamAnthropic(
+	options: StreamOptions,
+	provider: ProviderConfig,
+	callback: StreamCallback,
+): Promise<void> {
+	const anthropic = getAnthropic(provider.apiKey);
+	// This SDK has no tool_choice "none", so the earlier tool calls are replayed as text instead,
+	// which is valid without tools declared
+	const toolsOff = options.toolChoice === "none";
 
 	const streamOptions: Parameters<typeof anthropic.messages.stream>[0] = {
 		model: options.model,
@@ -341,12 +492,12 @@ async function streamAnthropic(options: StreamOptions, callback: StreamCallback)
 		system: options.system,
 		messages: options.messages.map((m) => ({
 			role: m.role as "user" | "assistant",
-			content: m.content,
+			content: toolsOff ? flattenContent(m.content) : m.content,
 		})),
 	};
 
 	// Add tools if provided
-	if (options.tools && options.tools.length > 0) {
+	if (options.tools && options.tools.length > 0 && !toolsOff) {
 		streamOptions.tools = options.tools;
 	}
 
@@ -401,16 +552,77 @@ async function streamAnthropic(options: StreamOptions, callback: StreamCallback)
 	});
 }
 
-// Main export - streams LLM response
-export async function streamChat(options: StreamOptions, callback: StreamCallback): Promise<void> {
-	if (useOpenAI) {
-		return streamOpenAI(options, callback);
+function streamModel(
+	options: StreamOptions,
+	provider: ProviderConfig,
+	callback: StreamCallback,
+): Promise<void> {
+	if (provider.protocol === "openai") {
+		return streamOpenAI(options, provider, callback);
 	}
-	return streamAnthropic(options, callback);
+	return streamAnthropic(options, provider, callback);
 }
 
-// Export config for reference
-export const llmConfig = {
-	provider: useOpenAI ? "openai" : "anthropic",
-	baseUrl: useOpenAI ? process.env.OPENAI_API_BASE : undefined,
-};
+// Main export - streams LLM response, retrying and then falling back to options.fallbacks
+// while nothing has been streamed yet. Resolves with the model that answered.
+export async function streamChat(
+	options: StreamOptions,
+	callback: StreamCallback,
+): Promise<ResolvedModel> {
+	const primary: ResolvedModel = {
+		model: options.model,
+		provider: options.provider ?? resolveProvider({ model: options.model }).provider,
+	};
+	const candidates = [primary, ...(options.fallbacks ?? [])];
+	const retry = options.retry ?? DEFAULT_RETRY_POLICY;
+
+	let streamed = false;
+	let callbackFailed = false;
+	const trackedCallback: StreamCallback = async (event) => {
+		if (event.type !== "done") {
+			streamed = true;
+		}
+		try {
+			await callback(event);
+		} catch (err) {
+			callbackFailed = true;
+			throw err;
+		}
+	};
+
+	let lastError: unknown;
+	for (const [index, candidate] of candidates.entries()) {
+		for (let attempt = 0; ; attempt++) {
+			try {
+				await streamModel(
+					{ ...options, model: candidate.model },
+					candidate.provider,
+					trackedCallback,
+				);
+				return candidate;
+			} catch (err) {
+				// Once output has reached the caller, another attempt would duplicate it
+				if (streamed || callbackFailed) {
+					throw err;
+				}
+				lastError = err;
+				if (!isRetryableError(err) || attempt >= retry.maxRetries) {
+					break;
+				}
+				const delay = retry.baseDelayMs * 2 ** attempt;
+				console.warn(
+					`[llm] ${candidate.model} failed (attempt ${attempt + 1}), retrying in ${delay}ms:`,
+					err instanceof Error ? err.message : err,
+				);
+				await new Promise((resolve) => setTimeout(resolve, delay));
+			}
+		}
+
+		const next = candidates[index + 1];
+		if (next) {
+			console.warn(`[llm] ${candidate.model} failed, falling back to ${next.model}`);
+		}
+	}
+
+	throw lastError;
+}
@@ -0,0 +1,158 @@
+import { config } from "./config";
+import { decryptSecret } from "./crypto";
+
+// LLM provider registry
+// Each agent can pick a provider and override its base URL / API key;
+// anything not set on the agent falls back to deployment-wide env config.
+
+export type ProviderId = "anthropic" | "openai" | "ollama";
+
+// Wire protocol used to talk to the provider
+export type ProviderProtocol = "anthropic" | "openai";
+
+// Resolved connection settings passed to streamChat
+export interface ProviderConfig {
+	id: ProviderId;
+	protocol: ProviderProtocol;
+	baseUrl?: string;
+	apiKey?: string;
+}
+
+interface ProviderDefinition {
+	label: string;
+	protocol: ProviderProtocol;
+	defaultBaseUrl?: string;
+	// Models offered when the endpoint can't be queried for its own list
+	staticModels: string[];
+	// Deployment-wide settings from env, null when the provider isn't configured
+	env(): { baseUrl?: string; apiKey?: string } | null;
+}
+
+export const PROVIDERS: Record<ProviderId, ProviderDefinition> = {
+	anthropic: {
+		label: "Anthropic",
+		protocol: "anthropic",
+		staticModels: ["claude-sonnet-4-20250514", "claude-opus-4-20250514"],
+		env: () => (process.env.ANTHROPIC_API_KEY ? { apiKey: process.env.ANTHROPIC_API_KEY } : null),
+	},
+	openai: {
+		label: "OpenAI-compatible",
+		protocol: "openai",
+		defaultBaseUrl: "https://api.openai.com/v1",
+		staticModels: ["gpt-4o", "gpt-4o-mini", "gpt-4-turbo"],
+		env: () =>
+			process.env.OPENAI_API_BASE || process.env.OPENAI_API_KEY
+				? { baseUrl: process.env.OPENAI_API_BASE, apiKey: process.env.OPENAI_API_KEY }
+				: null,
+	},
+	ollama: {
+		label: "Ollama",
+		protocol: "openai",
+		defaultBaseUrl: "http://localhost:11434/v1",
+		staticModels: [],
+		env: () => (process.env.OLLAMA_BASE_URL ? { baseUrl: process.env.OLLAMA_BASE_URL } : null),
+	},
+};
+
+export const PROVIDER_IDS = Object.keys(PROVIDERS) as ProviderId[];
+
+export function isProviderId(value: string | null | undefined): value is ProviderId {
+	return !!value && value in PROVIDERS;
+}
+
+// Provider used by agents that haven't chosen one
+export function getDefaultProviderId(): ProviderId {
+	return config.llmProvider as ProviderId;
+}
+
+export interface AgentProviderSettings {
+	model: string;
+	provider?: string | null;
+	providerBaseUrl?: string | null;
+	providerApiKey?: string | null; // encrypted
+}
+
+// A model together with the provider connection that serves it
+export interface ResolvedModel {
+	provider: ProviderConfig;
+	model: string;
+}
+
+export function resolveProvider(settings: AgentProviderSettings): ResolvedModel {
+	const explicit = isProviderId(settings.provider);
+	const id = explicit ? (settings.provider as ProviderId) : getDefaultProviderId();
+	const definition = PROVIDERS[id];
+	const env = definition.env() ?? {};
+
+	// Agents that predate per-agent providers keep following the OPENAI_MODEL override
+	const model =
+		!explicit && id === "openai" && process.env.OPENAI_MODEL
+			? process.env.OPENAI_MODEL
+			: settings.model;
+
+	let apiKey: string | undefined;
+	if (settings.providerApiKey) {
+		apiKey = decryptSecret(settings.providerApiKey);
+	} else if (!settings.providerBaseUrl) {
+		// Never send the deployment key to an agent-supplied endpoint
+		apiKey = env.apiKey;
+	}
+
+	return {
+		model,
+		provider: {
+			id,
+			protocol: definition.protocol,
+			baseUrl: settings.providerBaseUrl || env.baseUrl || definition.defaultBaseUrl,
+			apiKey,
+		},
+	};
+}
+
+// Fallback entries reuse the agent's endpoint and key when they target the agent's own provider
+export function resolveFallbackModels(
+	settings: AgentProviderSettings,
+	fallbacks: { provider: string; model: string }[],
+): ResolvedModel[] {
+	return fallbacks
+		.filter((f) => isProviderId(f.provider))
+		.map((f) =>
+			resolveProvider(
+				f.provider === settings.provider
+					? { ...settings, model: f.model }
+					: { model: f.model, provider: f.provider },
+			),
+		);
+}
+
+// Providers configured for this deployment (the default one is always included)
+export function getConfiguredProviderIds(): ProviderId[] {
+	const defaultId = getDefaultProviderId();
+	return PROVIDER_IDS.filter((id) => id === defaultId || PROVIDERS[id].env() !== null);
+}
+
+export async function listProviderModels(id: ProviderId): Promise<string[]> {
+	const definition = PROVIDERS[id];
+	if (definition.protocol !== "openai") {
+		return definition.staticModels;
+	}
+
+	const { provider } = resolveProvider({ model: "", provider: id });
+	if (provider.baseUrl === PROVIDERS.openai.defaultBaseUrl) {
+		return definition.staticModels;
+	}
+
+	try {
+		// Fetch available models from the OpenAI-compatible endpoint (Ollama, vLLM, etc.)
+		const response = await fetch(`${provider.baseUrl}/models`, {
+			headers: provider.apiKey ? { Authorization: `Bearer ${provider.apiKey}` } : {},
+		});
+		if (response.ok) {
+			const data = (await response.json()) as { data?: { id: string }[] };
+			return data.data?.map((m) => m.id) || [];
+		}
+	} catch (err) {
+		console.warn(`[providers] Failed to fetch ${id} models:`, err);
+	}
+	return definition.staticModels;
+}
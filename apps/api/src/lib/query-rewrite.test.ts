@@ -0,0 +1,14 @@
+import { describe, expect, it } from "vitest";
+import { parseRewrittenQueries } from "./query-rewrite";
+
+describe("parseRewrittenQueries", () => {
+	it("strips list markers and quotes and drops duplicates", () => {
+		const text = '1. "Pro plan price"\n\n2) Pro plan monthly cost\n- Pro plan price\n';
+
+		expect(parseRewrittenQueries(text, 3)).toEqual(["Pro plan price", "Pro plan monthly cost"]);
+	});
+
+	it("keeps at most the requested number of queries", () => {
+		expect(parseRewrittenQueries("a\nb\nc", 1)).toEqual(["a"]);
+	});
+});
@@ -0,0 +1,79 @@
+import { type LLMMessage, streamChat } from "./llm";
+import type { ResolvedModel } from "./providers";
+
+// Recent turns given to the rewriter; older ones rarely change what a follow-up refers to
+const HISTORY_MESSAGES = 6;
+
+export interface RewriteResult {
+	queries: string[];
+	model: string; // model that produced the rewrite (may be a fallback)
+	usage: { inputTokens: number; outputTokens: number };
+}
+
+function buildRewritePrompt(variants: number): string {
+	const output =
+		variants > 1
+			? `Write ${variants} different search queries for it, one per line, each phrased differently or covering a different aspect of the question.`
+			: "Write one search query for it.";
+	return `You turn the latest user message in a conversation into standalone search queries for a knowledge base. Resolve pronouns and references using the earlier messages so each query makes sense on its own. ${output} Reply with the queries only, without numbering, quotes or explanations.`;
+}
+
+function formatHistory(messages: LLMMessage[]): string {
+	return messages
+		.slice(-HISTORY_MESSAGES)
+		.filter((m) => typeof m.content === "string")
+		.map((m) => `${m.role === "assistant" ? "Assistant" : "User"}: ${m.content}`)
+		.join("\n\n");
+}
+
+// One query per non-empty line, with any list markers or quotes the model added removed
+export function parseRewrittenQueries(text: string, max: number): string[] {
+	const queries = text
+		.split("\n")
+		.map((line) =>
+			line
+				.trim()
+				.replace(/^(\d+[.)]|[-*•])\s*/, "")
+				.replace(/^["']|["']$/g, "")
+				.trim(),
+		)
+		.filter((line) => line.length > 0);
+	return [...new Set(queries)].slice(0, max);
+}
+
+// Condense the conversation into standalone search queries with the agent's own model.
+// Returns null when the model produced nothing usable.
+export async function rewriteQuery(
+	messages: LLMMessage[],
+	model: ResolvedModel,
+	fallbacks: ResolvedModel[],
+	variants: number,
+): Promise<RewriteResult | null> {
+	let text = "";
+	let usage = { inputTokens: 0, outputTokens: 0 };
+
+	const answered = await streamChat(
+		{
+			model: model.model,
+			provider: model.provider,
+			fallbacks,
+			maxTokens: 200,
+			temperature: 0,
+			system: buildRewritePrompt(variants),
+			messages: [{ role: "user", content: formatHistory(messages) }],
+		},
+		async (event) => {
+			if (event.type === "text_delta" && event.text) {
+				text += event.text;
+			} else if (event.type === "done" && event.usage) {
+				usage = event.usage;
+			}
+		},
+	);
+
+	const queries = parseRewrittenQueries(text, variants);
+	if (queries.length === 0) {
+		return null;
+	}
+	return { queries, model: answered.model, usage };
+}
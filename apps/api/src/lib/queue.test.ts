@@ -0,0 +1,12 @@
+import { describe, expect, it } from "vitest";
+import { retryDelayMs } from "./queue";
+
+describe("retryDelayMs", () => {
+	it("doubles the delay after each failed attempt", () => {
+		expect([1, 2, 3].map(retryDelayMs)).toEqual([30_000, 60_000, 120_000]);
+	});
+
+	it("caps the delay at 30 minutes", () => {
+		expect(retryDelayMs(20)).toBe(30 * 60_000);
+	});
+});
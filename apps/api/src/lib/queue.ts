@@ -0,0 +1,365 @@
+import { randomUUID } from "node:crypto";
+import { hostname } from "node:os";
+import { and, desc, eq, getDb, inArray, type Job, jobs, lt, sql } from "@vela/db";
+
+// Postgres-backed job queue for ingestion work. Jobs are rows in `jobs`; a worker claims the
+// oldest due job with FOR UPDATE SKIP LOCKED, runs its handler, then completes it or schedules
+// a retry with exponential backoff until maxAttempts. Running jobs heartbeat through updated_at,
+// and jobs whose worker stopped heartbeating are put back in the queue.
+
+export type JobType =
+	| "ingest_document"
+	| "embed_text_source"
+	| "embed_qa_source"
+	| "crawl_web_source"
+	| "rechunk_agent"
+	| "reindex_agent"
+	| "detect_embedding_model";
+
+// What a job works on; "agent" for jobs that cover all of an agent's sources
+export type JobSourceType = "document" | "text_source" | "qa_source" | "web_source" | "agent";
+
+export interface JobContext {
+	job: Job;
+	// Record how far the job has got, shown by the dashboard
+	progress(done: number, total?: number): Promise<void>;
+}
+
+// Thrown by handlers for failures a retry won't fix, such as a file with no text in it
+export class PermanentJobError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "PermanentJobError";
+	}
+}
+
+type JobHandler<P> = (payload: P, context: JobContext) => Promise<void>;
+
+interface RegisteredHandler {
+	handler: JobHandler<Record<string, unknown>>;
+	concurrency: number; // jobs of this type one worker runs at once
+}
+
+const POLL_INTERVAL_MS = 1000;
+const HEARTBEAT_INTERVAL_MS = 30_000;
+const STALE_AFTER_MS = 5 * 60_000;
+const RETRY_BASE_DELAY_MS = 30_000;
+const RETRY_MAX_DELAY_MS = 30 * 60_000;
+
+const handlers = new Map<string, RegisteredHandler>();
+
+export function registerJobHandler<P extends Record<string, unknown>>(
+	type: JobType,
+	handler: JobHandler<P>,
+	options: { concurrency?: number } = {},
+): void {
+	handlers.set(type, {
+		handler: handler as JobHandler<Record<string, unknown>>,
+		concurrency: options.concurrency ?? Number.POSITIVE_INFINITY,
+	});
+}
+
+// Delay before the next attempt of a job that failed its nth attempt: 30s, 1m, 2m, ... up to 30m
+export function retryDelayMs(attempt: number): number {
+	return Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1), RETRY_MAX_DELAY_MS);
+}
+
+interface EnqueueOptions {
+	agentId?: string;
+	sourceType?: JobSourceType;
+	sourceId?: string;
+	maxAttempts?: number;
+}
+
+// Queue a job. A job of the same type already queued for the same source is returned instead,
+// since it will pick up the latest state of the source when it runs.
+export async function enqueueJob(
+	type: JobType,
+	payload: Record<string, unknown>,
+	options: EnqueueOptions = {},
+): Promise<Job> {
+	const db = getDb();
+
+	// jobs_queued_source_idx allows one queued job per type and source, so when two requests
+	// enqueue at once the insert of one of them does nothing and it returns the other's job. The
+	// loop covers a queued job being claimed between the insert and the select.
+	for (;;) {
+		const [job] = await db
+			.insert(jobs)
+			.values({
+				type,
+				payload,
+				agentId: options.agentId,
+				sourceType: options.sourceType,
+				sourceId: options.sourceId,
+				maxAttempts: options.maxAttempts,
+			})
+			.onConflictDoNothing({
+				target: [jobs.type, jobs.sourceId],
+				where: sql`${jobs.status} = 'queued'`,
+			})
+			.returning();
+		// Only a job with a source can conflict with a queued one
+		if (job || !options.sourceId) {
+			return job;
+		}
+
+		const [queued] = await db
+			.select()
+			.from(jobs)
+			.where(
+				and(eq(jobs.type, type), eq(jobs.sourceId, options.sourceId), eq(jobs.status, "queued")),
+			)
+			.limit(1);
+		if (queued) {
+			return queued;
+		}
+	}
+}
+
+// Cancel the jobs of a type queued for a source, before a worker claims them. Returns how many
+// were cancelled.
+export async function cancelQueuedJobs(type: JobType, sourceId: string): Promise<number> {
+	const db = getDb();
+	const cancelled = await db
+		.update(jobs)
+		.set({ status: "cancelled", updatedAt: new Date() })
+		.where(and(eq(jobs.type, type), eq(jobs.sourceId, sourceId), eq(jobs.status, "queued")))
+		.returning({ id: jobs.id });
+	return cancelled.length;
+}
+
+// Whether another job of the same type is queued for the job's source. It will redo the work,
+// and only one may be queued, so the job is failed instead of being put back on the queue.
+const QUEUED_AGAIN = sql`EXISTS (
+	SELECT 1 FROM jobs q
+	WHERE q.status = 'queued' AND q.type = ${jobs.type} AND q.source_id = ${jobs.sourceId}
+		AND q.id <> ${jobs.id}
+)`;
+
+// Claim the oldest due job of one of the given types. Jobs for a source that already has a
+// running job wait, so two jobs never write the same source's chunks at once.
+async function claimJob(types: string[], workerId: string): Promise<Job | null> {
+	const db = getDb();
+	const [job] = await db
+		.update(jobs)
+		.set({
+			status: "running",
+			attempts: sql`${jobs.attempts} + 1`,
+			lockedBy: workerId,
+			lockedAt: new Date(),
+			updatedAt: new Date(),
+		})
+		.where(
+			eq(
+				jobs.id,
+				sql`(
+					SELECT j.id FROM jobs j
+					WHERE j.status = 'queued' AND j.run_at <= now()
+						AND j.type IN (${sql.join(
+							types.map((type) => sql`${type}`),
+							sql`, `,
+						)})
+						AND (j.source_id IS NULL OR NOT EXISTS (
+							SELECT 1 FROM jobs r WHERE r.status = 'running' AND r.source_id = j.source_id))
+					ORDER BY j.run_at
+					LIMIT 1
+					FOR UPDATE SKIP LOCKED
+				)`,
+			),
+		)
+		.returning();
+	return job ?? null;
+}
+
+// Put back jobs whose worker stopped heartbeating, failing those out of attempts
+async function requeueStaleJobs(): Promise<void> {
+	const db = getDb();
+	const staleBefore = new Date(Date.now() - STALE_AFTER_MS);
+	const stale = and(eq(jobs.status, "running"), lt(jobs.updatedAt, staleBefore));
+
+	await db
+		.update(jobs)
+		.set({
+			status: "failed",
+			errorMessage: "worker stopped responding",
+			lockedBy: null,
+			updatedAt: new Date(),
+		})
+		.where(and(stale, sql`${jobs.attempts} >= ${jobs.maxAttempts}`));
+	await db
+		.update(jobs)
+		.set({
+			status: "failed",
+			errorMessage: "worker stopped responding; a newer job is queued",
+			lockedBy: null,
+			updatedAt: new Date(),
+		})
+		.where(and(stale, QUEUED_AGAIN));
+	const requeued = await db
+		.update(jobs)
+		.set({ status: "queued", lockedBy: null, lockedAt: null, updatedAt: new Date() })
+		.where(stale)
+		.returning({ id: jobs.id });
+
+	if (requeued.length > 0) {
+		console.warn(`[queue] Requeued ${requeued.length} jobs left running by a stopped worker`);
+	}
+}
+
+export async function updateJobProgress(id: string, done: number, total?: number): Promise<void> {
+	const db = getDb();
+	await db
+		.update(jobs)
+		.set({ progress: done, ...(total !== undefined && { total }), updatedAt: new Date() })
+		.where(eq(jobs.id, id));
+}
+
+async function completeJob(job: Job): Promise<void> {
+	const db = getDb();
+	await db
+		.update(jobs)
+		.set({
+			status: "completed",
+			errorMessage: null,
+			lockedBy: null,
+			completedAt: new Date(),
+			updatedAt: new Date(),
+		})
+		.where(eq(jobs.id, job.id));
+}
+
+async function failJob(job: Job, error: unknown): Promise<void> {
+	const db = getDb();
+	const errorMessage = error instanceof Error ? error.message : "Unknown error";
+	const retry = !(error instanceof PermanentJobError) && job.attempts < job.maxAttempts;
+	await db
+		.update(jobs)
+		.set({
+			status: retry ? sql`CASE WHEN ${QUEUED_AGAIN} THEN 'failed' ELSE 'queued' END` : "failed",
+			errorMessage,
+			lockedBy: null,
+			...(retry && { runAt: new Date(Date.now() + retryDelayMs(job.attempts)) }),
+			updatedAt: new Date(),
+		})
+		.where(eq(jobs.id, job.id));
+}
+
+export interface WorkerOptions {
+	concurrency?: number; // jobs run at once across all types, WORKER_CONCURRENCY by default
+	pollIntervalMs?: number;
+}
+
+export interface Worker {
+	// Stop claiming jobs and wait for running ones to finish
+	stop(): Promise<void>;
+}
+
+// Poll the queue and run jobs with the registered handlers
+export function startWorker(options: WorkerOptions = {}): Worker {
+	const concurrency = options.concurrency ?? (Number(process.env.WORKER_CONCURRENCY) || 2);
+	const workerId = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+	const running = new Map<string, Promise<void>>();
+	const runningByType = new Map<string, number>();
+	let lastStaleCheck = 0;
+	let polling = false;
+	let stopped = false;
+
+	const run = async (job: Job) => {
+		const registered = handlers.get(job.type);
+		const heartbeat = setInterval(() => {
+			getDb()
+				.update(jobs)
+				.set({ updatedAt: new Date() })
+				.where(and(eq(jobs.id, job.id), eq(jobs.lockedBy, workerId)))
+				.catch((err) => console.error(`[queue] Heartbeat for job ${job.id} failed:`, err));
+		}, HEARTBEAT_INTERVAL_MS);
+
+		try {
+			if (!registered) {
+				throw new Error(`no handler registered for ${job.type}`);
+			}
+			await registered.handler(job.payload, {
+				job,
+				progress: (done, total) => updateJobProgress(job.id, done, total),
+			});
+			await completeJob(job);
+		} catch (error) {
+			console.error(`[queue] Job ${job.id} (${job.type}) failed, attempt ${job.attempts}:`, error);
+			await failJob(job, error).catch((err) =>
+				console.error(`[queue] Failed to record failure of job ${job.id}:`, err),
+			);
+		} finally {
+			clearInterval(heartbeat);
+		}
+	};
+
+	const poll = async () => {
+		if (polling || stopped) {
+			return;
+		}
+		polling = true;
+		try {
+			if (Date.now() - lastStaleCheck > HEARTBEAT_INTERVAL_MS) {
+				lastStaleCheck = Date.now();
+				await requeueStaleJobs();
+			}
+
+			while (!stopped && running.size < concurrency) {
+				const types = [...handlers]
+					.filter(([type, { concurrency }]) => (runningByType.get(type) ?? 0) < concurrency)
+					.map(([type]) => type);
+				if (types.length === 0) {
+					break;
+				}
+				const job = await claimJob(types, workerId);
+				if (!job) {
+					break;
+				}
+
+				runningByType.set(job.type, (runningByType.get(job.type) ?? 0) + 1);
+				running.set(
+					job.id,
+					run(job).finally(() => {
+						running.delete(job.id);
+						runningByType.set(job.type, (runningByType.get(job.type) ?? 1) - 1);
+						// A slot is free, look for more work without waiting for the next tick
+						poll();
+					}),
+				);
+			}
+		} catch (err) {
+			console.error("[queue] Polling for jobs failed:", err);
+		} finally {
+			polling = false;
+		}
+	};
+
+	const interval = setInterval(poll, options.pollIntervalMs ?? POLL_INTERVAL_MS);
+	poll();
+	console.log(`[queue] Worker ${workerId} started, running up to ${concurrency} jobs at once`);
+
+	return {
+		async stop() {
+			stopped = true;
+			clearInterval(interval);
+			await Promise.allSettled(running.values());
+		},
+	};
+}
+
+// Latest jobs for an agent: everything queued or running, and finished jobs from the last hour
+export async function listRecentJobs(agentId: string): Promise<Job[]> {
+	const db = getDb();
+	return db
+		.select()
+		.from(jobs)
+		.where(
+			and(
+				eq(jobs.agentId, agentId),
+				sql`(${inArray(jobs.status, ["queued", "running"])} OR ${jobs.updatedAt} > now() - interval '1 hour')`,
+			),
+		)
+		.orderBy(desc(jobs.createdAt))
+		.limit(100);
+}
@@ -0,0 +1,412 @@
+import {
+	agents,
+	and,
+	desc,
+	eq,
+	getDb,
+	inArray,
+	isNull,
+	jobs,
+	type ReindexJob,
+	reindexJobs,
+	sql,
+} from "@vela/db";
+import { createEmbeddings, getEmbeddingModelId } from "./embeddings";
+import { enqueueJob, type JobContext, PermanentJobError } from "./queue";
+
+// Re-index jobs re-embed every chunk of an agent with the configured embedding model. They run as
+// reindex_agent jobs on the queue, with a reindex_jobs row recording the model and progress for
+// the dashboard. New vectors are staged in each chunk's pending_embedding column, so a retried or
+// requeued job resumes where it stopped, and are swapped into embedding in a single transaction
+// once every chunk has one.
+
+const BATCH_SIZE = 64;
+
+type SQL = ReturnType<typeof sql>;
+
+interface ChunkTable {
+	name: string;
+	// Subquery condition selecting an agent's chunks, with the chunk table aliased as `c`
+	scope: (agentId: string) => SQL;
+	// Q&A chunks also embed the question alone, for exact-match answers
+	hasQuestion?: boolean;
+}
+
+const CHUNK_TABLES: ChunkTable[] = [
+	{
+		name: "document_chunks",
+		scope: (agentId) =>
+			sql`c.document_id IN (SELECT id FROM documents WHERE agent_id = ${agentId}::uuid)`,
+	},
+	{
+		name: "text_source_chunks",
+		scope: (agentId) =>
+			sql`c.text_source_id IN (SELECT id FROM text_sources WHERE agent_id = ${agentId}::uuid)`,
+	},
+	{
+		name: "qa_source_chunks",
+		scope: (agentId) =>
+			sql`c.qa_source_id IN (SELECT id FROM qa_sources WHERE agent_id = ${agentId}::uuid)`,
+		hasQuestion: true,
+	},
+	{
+		name: "web_source_page_chunks",
+		scope: (agentId) => sql`c.web_source_page_id IN (
+        SELECT wsp.id FROM web_source_pages wsp
+        JOIN web_sources ws ON wsp.web_source_id = ws.id
+        WHERE ws.agent_id = ${agentId}::uuid)`,
+	},
+];
+
+// Agents whose chunks were embedded with another model than the configured one. Their vectors
+// can't be compared with query embeddings until they are re-indexed. Agents created before the
+// model was recorded have none, and are treated as needing it until detectEmbeddingModel checks.
+export function needsReindex(embeddingModel: string | null): boolean {
+	return embeddingModel !== getEmbeddingModelId();
+}
+
+function toVector(embedding: number[]): string {
+	return `[${embedding.join(",")}]`;
+}
+
+async function countChunks(agentId: string, filter: SQL = sql`TRUE`): Promise<number> {
+	const db = getDb();
+	let total = 0;
+	for (const table of CHUNK_TABLES) {
+		const [row] = (await db.execute(sql`
+      SELECT COUNT(*) AS count FROM ${sql.raw(table.name)} c
+      WHERE ${table.scope(agentId)} AND ${filter}
+    `)) as unknown as Array<{ count: string }>;
+		total += Number(row.count);
+	}
+	return total;
+}
+
+interface ChunkRow {
+	id: string;
+	content: string;
+	question?: string;
+}
+
+// Next batch of an agent's chunks matching filter, with the texts to embed for them: the
+// content of each, followed by each question for Q&A chunks
+async function selectBatch(
+	table: ChunkTable,
+	agentId: string,
+	filter: SQL,
+): Promise<{ rows: ChunkRow[]; texts: string[] }> {
+	const db = getDb();
+	const rows = (await db.execute(sql`
+    SELECT c.id, c.content${table.hasQuestion ? sql`, c.question` : sql``}
+    FROM ${sql.raw(table.name)} c
+    WHERE ${table.scope(agentId)} AND ${filter}
+    LIMIT ${BATCH_SIZE}
+  `)) as unknown as ChunkRow[];
+	const texts = rows.map((r) => r.content);
+	if (table.hasQuestion) {
+		texts.push(...rows.map((r) => r.question ?? ""));
+	}
+	return { rows, texts };
+}
+
+async function clearPending(agentId: string): Promise<void> {
+	const db = getDb();
+	for (const table of CHUNK_TABLES) {
+		await db.execute(sql`
+      UPDATE ${sql.raw(table.name)} c
+      SET pending_embedding = NULL${table.hasQuestion ? sql`, pending_question_embedding = NULL` : sql``}
+      WHERE ${table.scope(agentId)}
+    `);
+	}
+}
+
+// Embeds the next batch of chunks without a pending vector; returns how many were done
+async function embedBatch(table: ChunkTable, agentId: string): Promise<number> {
+	const db = getDb();
+	const { rows, texts } = await selectBatch(table, agentId, sql`c.pending_embedding IS NULL`);
+	if (rows.length === 0) {
+		return 0;
+	}
+
+	const embeddings = await createEmbeddings(texts);
+
+	await db.transaction(async (tx) => {
+		for (const [index, row] of rows.entries()) {
+			await tx.execute(sql`
+        UPDATE ${sql.raw(table.name)}
+        SET pending_embedding = ${toVector(embeddings[index])}::vector${
+					table.hasQuestion
+						? sql`, pending_question_embedding = ${toVector(embeddings[rows.length + index])}::vector`
+						: sql``
+				}
+        WHERE id = ${row.id}::uuid
+      `);
+		}
+	});
+
+	return rows.length;
+}
+
+// Swap the staged vectors in and record the new model, all at once so search never mixes models
+async function switchOver(job: ReindexJob): Promise<void> {
+	const db = getDb();
+	await db.transaction(async (tx) => {
+		for (const table of CHUNK_TABLES) {
+			await tx.execute(sql`
+        UPDATE ${sql.raw(table.name)} c
+        SET embedding = c.pending_embedding, pending_embedding = NULL,
+            embedding_status = 'ok', embedding_error = NULL${
+							table.hasQuestion
+								? sql`, question_embedding = c.pending_question_embedding, pending_question_embedding = NULL`
+								: sql``
+						}
+        WHERE ${table.scope(job.agentId)} AND c.pending_embedding IS NOT NULL
+      `);
+		}
+		await tx
+			.update(agents)
+			.set({ embeddingModel: job.embeddingModel, updatedAt: new Date() })
+			.where(eq(agents.id, job.agentId));
+		await tx
+			.update(reindexJobs)
+			.set({ status: "completed", completedAt: new Date(), updatedAt: new Date() })
+			.where(eq(reindexJobs.id, job.id));
+	});
+}
+
+async function failReindexJob(id: string, errorMessage: string): Promise<void> {
+	const db = getDb();
+	await db
+		.update(reindexJobs)
+		.set({ status: "failed", errorMessage, updatedAt: new Date() })
+		.where(and(eq(reindexJobs.id, id), eq(reindexJobs.status, "running")));
+}
+
+// Runs a re-index as a reindex_agent job. Failures are retried by the queue; the re-index is
+// marked failed once it runs out of attempts.
+export async function reindexAgent(
+	{ reindexJobId }: { reindexJobId: string },
+	{ job, progress }: JobContext,
+): Promise<void> {
+	const db = getDb();
+	const [reindex] = await db
+		.select()
+		.from(reindexJobs)
+		.where(eq(reindexJobs.id, reindexJobId))
+		.limit(1);
+	if (reindex?.status !== "running") return;
+	if (reindex.embeddingModel !== getEmbeddingModelId()) {
+		await failReindexJob(reindex.id, `embedding model changed to ${getEmbeddingModelId()}`);
+		return;
+	}
+
+	let processed = reindex.processedChunks;
+	try {
+		await progress(processed, reindex.totalChunks);
+		for (const table of CHUNK_TABLES) {
+			for (let done = await embedBatch(table, reindex.agentId); done > 0; ) {
+				processed += done;
+				await db
+					.update(reindexJobs)
+					.set({ processedChunks: processed, errorMessage: null, updatedAt: new Date() })
+					.where(eq(reindexJobs.id, reindex.id));
+				await progress(processed, reindex.totalChunks);
+				done = await embedBatch(table, reindex.agentId);
+			}
+		}
+
+		await switchOver(reindex);
+		console.log(`[reindex] Agent ${reindex.agentId} now uses ${reindex.embeddingModel}`);
+	} catch (error) {
+		const errorMessage = error instanceof Error ? error.message : "Unknown error";
+		if (error instanceof PermanentJobError || job.attempts >= job.maxAttempts) {
+			await failReindexJob(reindex.id, errorMessage);
+		} else {
+			await db
+				.update(reindexJobs)
+				.set({ errorMessage, updatedAt: new Date() })
+				.where(eq(reindexJobs.id, reindex.id));
+		}
+		throw error;
+	}
+}
+
+// A re-index still marked running whose queue job has gone, e.g. requeued by a stopped worker
+// and out of attempts, is marked failed so it can be started again. Recent ones are left alone,
+// as their job may be about to be queued.
+async function failAbandoned(reindex: ReindexJob): Promise<ReindexJob> {
+	if (reindex.status !== "running" || reindex.updatedAt > new Date(Date.now() - 60_000)) {
+		return reindex;
+	}
+	const db = getDb();
+	const [active] = await db
+		.select({ id: jobs.id })
+		.from(jobs)
+		.where(
+			and(
+				eq(jobs.type, "reindex_agent"),
+				eq(jobs.sourceId, reindex.agentId),
+				inArray(jobs.status, ["queued", "running"]),
+			),
+		)
+		.limit(1);
+	if (active) {
+		return reindex;
+	}
+
+	const [failed] = await db
+		.update(reindexJobs)
+		.set({ status: "failed", errorMessage: "interrupted", updatedAt: new Date() })
+		.where(and(eq(reindexJobs.id, reindex.id), eq(reindexJobs.status, "running")))
+		.returning();
+	return failed ?? reindex;
+}
+
+export async function getLatestReindexJob(agentId: string): Promise<ReindexJob | null> {
+	const db = getDb();
+	const [job] = await db
+		.select()
+		.from(reindexJobs)
+		.where(eq(reindexJobs.agentId, agentId))
+		.orderBy(desc(reindexJobs.createdAt))
+		.limit(1);
+	return job ? failAbandoned(job) : null;
+}
+
+// Queue re-embedding an agent's chunks with the configured model. Returns the running re-index
+// if there is one; a failed one's staged vectors are reused when the model matches.
+export async function startReindex(agentId: string): Promise<ReindexJob> {
+	const db = getDb();
+	const embeddingModel = getEmbeddingModelId();
+
+	const latest = await getLatestReindexJob(agentId);
+	if (latest?.status === "running") {
+		return latest;
+	}
+	if (latest && latest.status !== "completed" && latest.embeddingModel !== embeddingModel) {
+		await clearPending(agentId);
+	}
+
+	const total = await countChunks(agentId);
+	const remaining = await countChunks(agentId, sql`c.pending_embedding IS NULL`);
+	const [reindex] = await db
+		.insert(reindexJobs)
+		.values({ agentId, embeddingModel, totalChunks: total, processedChunks: total - remaining })
+		.returning();
+
+	await enqueueJob(
+		"reindex_agent",
+		{ reindexJobId: reindex.id },
+		{ agentId, sourceType: "agent", sourceId: agentId },
+	);
+	return reindex;
+}
+
+// Stored and fresh embeddings of the same text from the same model are near identical; another
+// model's vectors aren't comparable and come out far lower
+const SAME_MODEL_SIMILARITY = 0.99;
+
+// Whether the agent's chunks were embedded with the configured model, judged by embedding one of
+// them again. An agent without embedded chunks has nothing to re-index.
+async function embeddedWithConfiguredModel(agentId: string): Promise<boolean> {
+	const db = getDb();
+	for (const table of CHUNK_TABLES) {
+		const [sample] = (await db.execute(sql`
+      SELECT c.id, c.content FROM ${sql.raw(table.name)} c
+      WHERE ${table.scope(agentId)} AND c.embedding IS NOT NULL
+      LIMIT 1
+    `)) as unknown as ChunkRow[];
+		if (!sample) {
+			continue;
+		}
+
+		const [embedding] = await createEmbeddings([sample.content]);
+		const [row] = (await db.execute(sql`
+      SELECT 1 - (embedding <=> ${toVector(embedding)}::vector) AS similarity
+      FROM ${sql.raw(table.name)} WHERE id = ${sample.id}::uuid
+    `)) as unknown as Array<{ similarity: number }>;
+		return Number(row.similarity) >= SAME_MODEL_SIMILARITY;
+	}
+	return true;
+}
+
+// Runs as a detect_embedding_model job, queued by a migration for agents created before their
+// embedding model was recorded. Records the configured model when their vectors came from it,
+// and re-indexes them otherwise.
+export async function detectEmbeddingModel({ agentId }: { agentId: string }): Promise<void> {
+	const db = getDb();
+	const [agent] = await db
+		.select({ embeddingModel: agents.embeddingModel })
+		.from(agents)
+		.where(eq(agents.id, agentId));
+	if (!agent || agent.embeddingModel !== null) return;
+
+	if (await embeddedWithConfiguredModel(agentId)) {
+		const embeddingModel = getEmbeddingModelId();
+		await db
+			.update(agents)
+			.set({ embeddingModel, updatedAt: new Date() })
+			.where(and(eq(agents.id, agentId), isNull(agents.embeddingModel)));
+		console.log(`[reindex] Agent ${agentId} was embedded with ${embeddingModel}`);
+	} else {
+		await startReindex(agentId);
+		console.log(`[reindex] Agent ${agentId} was embedded with another model, re-indexing`);
+	}
+}
+
+const FAILED = sql`c.embedding_status = 'failed'`;
+
+export interface RetryResult {
+	retried: number; // chunks that now have embeddings
+	failed: number; // chunks still without, because the provider failed again
+	error: string | null;
+}
+
+// Embed chunks stored without vectors while the embedding provider was down. Stops at the first
+// failing batch, since the provider is most likely still unavailable.
+export async function retryFailedEmbeddings(agentId: string): Promise<RetryResult> {
+	const db = getDb();
+	let retried = 0;
+
+	for (const table of CHUNK_TABLES) {
+		for (;;) {
+			const { rows, texts } = await selectBatch(table, agentId, FAILED);
+			if (rows.length === 0) {
+				break;
+			}
+
+			let embeddings: number[][];
+			try {
+				embeddings = await createEmbeddings(texts);
+			} catch (error) {
+				const message = error instanceof Error ? error.message : "Unknown error";
+				await db.execute(sql`
+          UPDATE ${sql.raw(table.name)} SET embedding_error = ${message}
+          WHERE id IN (${sql.join(
+						rows.map((r) => sql`${r.id}::uuid`),
+						sql`, `,
+					)})
+        `);
+				return { retried, failed: await countChunks(agentId, FAILED), error: message };
+			}
+
+			await db.transaction(async (tx) => {
+				for (const [index, row] of rows.entries()) {
+					await tx.execute(sql`
+            UPDATE ${sql.raw(table.name)}
+            SET embedding = ${toVector(embeddings[index])}::vector${
+							table.hasQuestion
+								? sql`, question_embedding = ${toVector(embeddings[rows.length + index])}::vector`
+								: sql``
+						},
+                embedding_status = 'ok', embedding_error = NULL
+            WHERE id = ${row.id}::uuid
+          `);
+				}
+			});
+			retried += rows.length;
+		}
+	}
+
+	return { retried, failed: 0, error: null };
+}
@@ -0,0 +1,51 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { NoopReranker, parseLLMScores, VoyageReranker } from "./rerank";
+
+const results = [
+	{ id: "a", content: "Shipping is free over $50.", score: 0.9 },
+	{ id: "b", content: "Refunds take 5 days.", score: 0.8 },
+	{ id: "c", content: "We ship worldwide.", score: 0.7 },
+];
+
+describe("NoopReranker", () => {
+	it("keeps the retrieval order and scores", async () => {
+		expect(await new NoopReranker().rerank("refunds", results)).toEqual(results);
+	});
+});
+
+describe("VoyageReranker", () => {
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it("re-sorts results by relevance score", async () => {
+		const fetchMock = vi.fn().mockResolvedValue(
+			Response.json({
+				data: [
+					{ index: 1, relevance_score: 0.95 },
+					{ index: 0, relevance_score: 0.2 },
+					{ index: 2, relevance_score: 0.1 },
+				],
+			}),
+		);
+		vi.stubGlobal("fetch", fetchMock);
+
+		const reranked = await new VoyageReranker().rerank("how long do refunds take", results);
+
+		expect(reranked.map((r) => [r.id, r.score])).toEqual([
+			["b", 0.95],
+			["a", 0.2],
+			["c", 0.1],
+		]);
+	});
+});
+
+describe("parseLLMScores", () => {
+	it("reads one score per passage and scores skipped passages 0", () => {
+		expect(parseLLMScores("1: 3\n[3] = 10\nignored 9: 4", 3)).toEqual([
+			{ index: 0, relevance_score: 0.3 },
+			{ index: 1, relevance_score: 0 },
+			{ index: 2, relevance_score: 1 },
+		]);
+	});
+});
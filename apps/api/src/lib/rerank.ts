@@ -0,0 +1,174 @@
+import type { VectorSearchResult } from "@vela/types";
+import { streamChat } from "./llm";
+import type { ResolvedModel } from "./providers";
+
+// Rerankers re-score retrieved chunks against the query, usually with a model that reads the
+// query and chunk together (cross-encoder) rather than comparing separate embeddings
+
+// "none" keeps the retrieval order, "voyage" uses Voyage's rerank API, "local" a self-hosted
+// reranker with a Jina/Cohere-style /rerank endpoint, "llm" asks the agent's model to score chunks
+export type RerankerId = "none" | "voyage" | "local" | "llm";
+
+export const RERANKER_IDS: RerankerId[] = ["none", "voyage", "local", "llm"];
+
+export interface Reranker {
+	// Returns the results re-scored and sorted by relevance, best first
+	rerank(query: string, results: VectorSearchResult[]): Promise<VectorSearchResult[]>;
+}
+
+const VOYAGE_RERANK_MODEL = "rerank-2";
+
+// Passages longer than this are cut before being sent to the LLM scorer
+const LLM_PASSAGE_CHARS = 1000;
+
+// Relevance scores from a rerank endpoint, by index into the documents sent
+type RerankScores = Array<{ index: number; relevance_score: number }>;
+
+function applyScores(results: VectorSearchResult[], scores: RerankScores): VectorSearchResult[] {
+	return scores
+		.filter((s) => results[s.index])
+		.map((s) => ({ ...results[s.index], score: s.relevance_score }))
+		.sort((a, b) => b.score - a.score);
+}
+
+// Keeps the retrieval order; used when reranking is off and in tests
+export class NoopReranker implements Reranker {
+	async rerank(_query: string, results: VectorSearchResult[]): Promise<VectorSearchResult[]> {
+		return results;
+	}
+}
+
+export class VoyageReranker implements Reranker {
+	async rerank(query: string, results: VectorSearchResult[]): Promise<VectorSearchResult[]> {
+		if (results.length === 0) {
+			return results;
+		}
+
+		const response = await fetch("https://api.voyageai.com/v1/rerank", {
+			method: "POST",
+			headers: {
+				"Content-Type": "application/json",
+				Authorization: `Bearer ${process.env.VOYAGE_API_KEY}`,
+			},
+			body: JSON.stringify({
+				model: VOYAGE_RERANK_MODEL,
+				query,
+				documents: results.map((r) => r.content),
+			}),
+		});
+
+		if (!response.ok) {
+			throw new Error(`Voyage rerank error: ${response.statusText}`);
+		}
+
+		const data = (await response.json()) as { data: RerankScores };
+		return applyScores(results, data.data);
+	}
+}
+
+// Self-hosted rerankers (Infinity, TEI, llama.cpp, vLLM, ...) configured like OPENAI_API_BASE
+export class LocalReranker implements Reranker {
+	async rerank(query: string, results: VectorSearchResult[]): Promise<VectorSearchResult[]> {
+		if (results.length === 0) {
+			return results;
+		}
+
+		const baseUrl = process.env.RERANK_API_BASE?.replace(/\/$/, "");
+		if (!baseUrl) {
+			throw new Error("RERANK_API_BASE is not configured");
+		}
+
+		const response = await fetch(`${baseUrl}/rerank`, {
+			method: "POST",
+			headers: {
+				"Content-Type": "application/json",
+				...(process.env.RERANK_API_KEY && {
+					Authorization: `Bearer ${process.env.RERANK_API_KEY}`,
+				}),
+			},
+			body: JSON.stringify({
+				model: process.env.RERANK_MODEL,
+				query,
+				documents: results.map((r) => r.content),
+			}),
+		});
+
+		if (!response.ok) {
+			throw new Error(`Rerank API error: ${response.statusText}`);
+		}
+
+		const data = (await response.json()) as { results: RerankScores };
+		return applyScores(results, data.results);
+	}
+}
+
+// Scores from an "index: score" line per passage; passages the model skipped score 0
+export function parseLLMScores(text: string, count: number): RerankScores {
+	const scores = new Map<number, number>();
+	for (const match of text.matchAll(/\[?(\d+)\]?\s*[:=-]\s*(\d+(?:\.\d+)?)/g)) {
+		const index = Number(match[1]) - 1;
+		if (index >= 0 && index < count && !scores.has(index)) {
+			scores.set(index, Math.min(Number(match[2]), 10) / 10);
+		}
+	}
+	return Array.from({ length: count }, (_, index) => ({
+		index,
+		relevance_score: scores.get(index) ?? 0,
+	}));
+}
+
+// Asks the agent's own model to score each passage from 0 to 10
+export class LLMReranker implements Reranker {
+	constructor(
+		private model: ResolvedModel,
+		private fallbacks: ResolvedModel[] = [],
+	) {}
+
+	async rerank(query: string, results: VectorSearchResult[]): Promise<VectorSearchResult[]> {
+		if (results.length === 0) {
+			return results;
+		}
+
+		const passages = results
+			.map((r, i) => `[${i + 1}] ${r.content.slice(0, LLM_PASSAGE_CHARS)}`)
+			.join("\n\n");
+		let text = "";
+
+		await streamChat(
+			{
+				model: this.model.model,
+				provider: this.model.provider,
+				fallbacks: this.fallbacks,
+				maxTokens: 10 * results.length + 50,
+				temperature: 0,
+				system:
+					"You rate how well passages answer a search query. For every passage, reply with one line in the form `number: score`, where score is 0 (irrelevant) to 10 (answers the query directly). Reply with the scores only.",
+				messages: [{ role: "user", content: `Query: ${query}\n\nPassages:\n\n${passages}` }],
+			},
+			async (event) => {
+				if (event.type === "text_delta" && event.text) {
+					text += event.text;
+				}
+			},
+		);
+
+		return applyScores(results, parseLLMScores(text, results.length));
+	}
+}
+
+export function createReranker(
+	id: RerankerId,
+	model: ResolvedModel,
+	fallbacks: ResolvedModel[] = [],
+): Reranker {
+	switch (id) {
+		case "voyage":
+			return new VoyageReranker();
+		case "local":
+			return new LocalReranker();
+		case "llm":
+			return new LLMReranker(model, fallbacks);
+		default:
+			return new NoopReranker();
+	}
+}
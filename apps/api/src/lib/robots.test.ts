@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { parseRobotsTxt } from "./robots";
+
+const USER_AGENT = "VelaBot/1.0 (+https://usevela.ai)";
+
+describe("parseRobotsTxt", () => {
+	it("applies the * group when none names our bot", () => {
+		const robots = parseRobotsTxt(
+			`User-agent: Googlebot
+			Disallow:
+
+			User-agent: *
+			Disallow: /admin # staff only
+			Disallow: /*.json$
+			Allow: /admin/help`,
+			USER_AGENT,
+		);
+
+		expect(robots.isAllowed("https://example.com/docs")).toBe(true);
+		expect(robots.isAllowed("https://example.com/admin/users")).toBe(false);
+		expect(robots.isAllowed("https://example.com/admin/help/faq")).toBe(true);
+		expect(robots.isAllowed("https://example.com/data/feed.json")).toBe(false);
+		expect(robots.isAllowed("https://example.com/data/feed.json?v=2")).toBe(true);
+		expect(robots.crawlDelay).toBeNull();
+	});
+
+	it("prefers the group naming our bot and reads its crawl delay", () => {
+		const robots = parseRobotsTxt(
+			`User-agent: *
+			Disallow: /
+
+			User-agent: OtherBot
+			User-agent: velabot
+			Crawl-delay: 2
+			Disallow: /private`,
+			USER_AGENT,
+		);
+
+		expect(robots.isAllowed("https://example.com/docs")).toBe(true);
+		expect(robots.isAllowed("https://example.com/private/notes")).toBe(false);
+		expect(robots.crawlDelay).toBe(2);
+	});
+
+	it("lets Allow win a tie and allows everything without rules", () => {
+		const robots = parseRobotsTxt("User-agent: *\nDisallow: /page\nAllow: /page", USER_AGENT);
+
+		expect(robots.isAllowed("https://example.com/page")).toBe(true);
+		expect(parseRobotsTxt("", USER_AGENT).isAllowed("https://example.com/")).toBe(true);
+	});
+});
@@ -0,0 +1,130 @@
+import { fetchPublicUrl } from "./safe-fetch";
+
+// robots.txt support for the crawler (RFC 9309). The group for our user agent's product token
+// applies, else the "*" group; within it the longest matching Allow/Disallow path wins, Allow on
+// a tie. Crawl-delay is not in the RFC but widely used, so it is honoured too.
+
+export interface RobotsRules {
+	isAllowed(url: string): boolean;
+	crawlDelay: number | null; // seconds between requests
+}
+
+interface PathRule {
+	allow: boolean;
+	pattern: RegExp;
+	length: number;
+}
+
+interface Group {
+	agents: string[];
+	rules: PathRule[];
+	crawlDelay: number | null;
+}
+
+const FETCH_TIMEOUT_MS = 10_000;
+const MAX_ROBOTS_BYTES = 500 * 1024;
+
+export const ALLOW_ALL: RobotsRules = { isAllowed: () => true, crawlDelay: null };
+const DISALLOW_ALL: RobotsRules = { isAllowed: () => false, crawlDelay: null };
+
+// "*" matches any characters and a trailing "$" anchors the end of the path
+function compilePath(path: string): RegExp {
+	const anchored = path.endsWith("$");
+	const body = (anchored ? path.slice(0, -1) : path)
+		.split("*")
+		.map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+		.join(".*");
+	return new RegExp(`^${body}${anchored ? "$" : ""}`);
+}
+
+// "VelaBot/1.0 (+https://usevela.ai)" -> "velabot"
+function productToken(userAgent: string): string {
+	return userAgent.split(/[/\s]/)[0].toLowerCase();
+}
+
+export function parseRobotsTxt(text: string, userAgent: string): RobotsRules {
+	const groups: Group[] = [];
+	let current: Group | null = null;
+
+	for (const rawLine of text.split(/\r?\n/)) {
+		const line = rawLine.replace(/#.*/, "").trim();
+		const separator = line.indexOf(":");
+		if (separator === -1) continue;
+		const key = line.slice(0, separator).trim().toLowerCase();
+		const value = line.slice(separator + 1).trim();
+
+		if (key === "user-agent") {
+			// Consecutive user-agent lines share one group
+			if (!current || current.rules.length > 0 || current.crawlDelay !== null) {
+				current = { agents: [], rules: [], crawlDelay: null };
+				groups.push(current);
+			}
+			current.agents.push(value.toLowerCase());
+		} else if (current && (key === "allow" || key === "disallow")) {
+			// An empty Disallow allows everything, which is the default anyway
+			if (value) {
+				current.rules.push({
+					allow: key === "allow",
+					pattern: compilePath(value),
+					length: value.length,
+				});
+			}
+		} else if (current && key === "crawl-delay") {
+			const delay = Number(value);
+			if (Number.isFinite(delay) && delay >= 0) {
+				current.crawlDelay = delay;
+			}
+		}
+	}
+
+	const token = productToken(userAgent);
+	let matching = groups.filter((group) => group.agents.includes(token));
+	if (matching.length === 0) {
+		matching = groups.filter((group) => group.agents.includes("*"));
+	}
+	if (matching.length === 0) {
+		return ALLOW_ALL;
+	}
+
+	const rules = matching.flatMap((group) => group.rules);
+	const delays = matching.flatMap((group) => (group.crawlDelay === null ? [] : [group.crawlDelay]));
+
+	return {
+		isAllowed(url: string) {
+			const { pathname, search } = new URL(url);
+			const path = `${pathname}${search}`;
+			let best: PathRule | null = null;
+			for (const rule of rules) {
+				if (!rule.pattern.test(path)) continue;
+				if (!best || rule.length > best.length || (rule.length === best.length && rule.allow)) {
+					best = rule;
+				}
+			}
+			return best?.allow ?? true;
+		},
+		crawlDelay: delays.length > 0 ? Math.max(...delays) : null,
+	};
+}
+
+// Fetches an origin's robots.txt. A missing file (4xx) allows everything; a server error or an
+// unreachable host disallows everything until the next crawl, as the RFC asks.
+export async function fetchRobotsTxt(origin: string, userAgent: string): Promise<RobotsRules> {
+	try {
+		const response = await fetchPublicUrl(`${origin}/robots.txt`, {
+			headers: { "User-Agent": userAgent },
+			signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+		});
+
+		if (response.status >= 400 && response.status < 500) {
+			return ALLOW_ALL;
+		}
+		if (!response.ok) {
+			return DISALLOW_ALL;
+		}
+
+		const text = (await response.text()).slice(0, MAX_ROBOTS_BYTES);
+		return parseRobotsTxt(text, userAgent);
+	} catch {
+		return DISALLOW_ALL;
+	}
+}
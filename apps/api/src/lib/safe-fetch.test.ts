@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { assertPublicUrl, BlockedUrlError, isPrivateAddress } from "./safe-fetch";
+
+describe("isPrivateAddress", () => {
+	it("flags loopback, private, link-local and mapped addresses", () => {
+		for (const address of [
+			"127.0.0.1",
+			"10.1.2.3",
+			"172.20.0.1",
+			"192.168.1.1",
+			"169.254.169.254",
+			"100.64.0.1",
+			"0.0.0.0",
+			"::1",
+			"fd00::1",
+			"fe80::1",
+			"::ffff:127.0.0.1",
+		]) {
+			expect(isPrivateAddress(address), address).toBe(true);
+		}
+		expect(isPrivateAddress("93.184.216.34")).toBe(false);
+		expect(isPrivateAddress("2606:2800:220:1::1")).toBe(false);
+	});
+});
+
+describe("assertPublicUrl", () => {
+	it("refuses private hosts and other protocols", async () => {
+		await expect(assertPublicUrl("http://169.254.169.254/latest/", false)).rejects.toThrow(
+			BlockedUrlError,
+		);
+		await expect(assertPublicUrl("http://[::ffff:7f00:1]:8080/", false)).rejects.toThrow(
+			"non-public address ::ffff:7f00:1",
+		);
+		await expect(assertPublicUrl("file:///etc/passwd", true)).rejects.toThrow(
+			"unsupported protocol file:",
+		);
+		await expect(assertPublicUrl("http://93.184.216.34/", false)).resolves.toBeUndefined();
+	});
+
+	it("lets everything through with WEB_ALLOW_PRIVATE_URLS", async () => {
+		await expect(assertPublicUrl("http://127.0.0.1:3001/", true)).resolves.toBeUndefined();
+	});
+});
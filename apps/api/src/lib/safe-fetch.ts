@@ -0,0 +1,106 @@
+import { lookup } from "node:dns/promises";
+import { BlockList, isIP } from "node:net";
+
+// Fetching URLs users supply: web source pages, sitemaps and robots.txt. On a hosted deployment
+// those must not reach the server's own network, such as the cloud metadata service at
+// 169.254.169.254 or internal services, so hosts resolving to loopback, private, link-local and
+// other non-public addresses are refused unless WEB_ALLOW_PRIVATE_URLS=true (for self-hosted
+// installs crawling an intranet). Redirects are followed by hand so every hop is checked.
+
+export class BlockedUrlError extends Error {
+	constructor(url: string, reason: string) {
+		super(`Refusing to fetch ${url}: ${reason}`);
+		this.name = "BlockedUrlError";
+	}
+}
+
+const MAX_REDIRECTS = 5;
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+
+// Addresses that aren't on the public internet. IPv4-mapped IPv6 addresses are checked against
+// the IPv4 ranges.
+const NON_PUBLIC = new BlockList();
+for (const [network, prefix] of [
+	["0.0.0.0", 8], // "this network"
+	["10.0.0.0", 8],
+	["100.64.0.0", 10], // carrier-grade NAT
+	["127.0.0.0", 8],
+	["169.254.0.0", 16], // link-local, including cloud metadata services
+	["172.16.0.0", 12],
+	["192.0.0.0", 24],
+	["192.0.2.0", 24], // documentation
+	["192.168.0.0", 16],
+	["198.18.0.0", 15], // benchmarking
+	["198.51.100.0", 24],
+	["203.0.113.0", 24],
+	["224.0.0.0", 4], // multicast
+	["240.0.0.0", 4], // reserved and broadcast
+] as const) {
+	NON_PUBLIC.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+	["::", 128],
+	["::1", 128],
+	["64:ff9b::", 96], // NAT64, which can reach IPv4 private ranges
+	["fc00::", 7], // unique local
+	["fe80::", 10], // link-local
+	["ff00::", 8], // multicast
+] as const) {
+	NON_PUBLIC.addSubnet(network, prefix, "ipv6");
+}
+
+export function isPrivateAddress(address: string): boolean {
+	const family = isIP(address);
+	if (family === 0) return false;
+	return NON_PUBLIC.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+// Whether WEB_ALLOW_PRIVATE_URLS lets user-supplied URLs reach private addresses
+export function allowPrivateUrls(env: Record<string, string | undefined> = process.env): boolean {
+	return env.WEB_ALLOW_PRIVATE_URLS === "true";
+}
+
+// Throws a BlockedUrlError unless the URL is http(s) and its host resolves only to public
+// addresses
+export async function assertPublicUrl(
+	url: string,
+	allowPrivate = allowPrivateUrls(),
+): Promise<void> {
+	const { protocol, hostname } = new URL(url);
+	if (protocol !== "http:" && protocol !== "https:") {
+		throw new BlockedUrlError(url, `unsupported protocol ${protocol}`);
+	}
+	if (allowPrivate) return;
+
+	const host = hostname.replace(/^\[|\]$/g, "");
+	const addresses = isIP(host) ? [host] : (await lookup(host, { all: true })).map((a) => a.address);
+	const blocked = addresses.find(isPrivateAddress);
+	if (blocked) {
+		throw new BlockedUrlError(url, `${hostname} resolves to the non-public address ${blocked}`);
+	}
+}
+
+// fetch() for user-supplied URLs: checks the URL and every redirect it follows with
+// assertPublicUrl. The host is resolved again when connecting, so this narrows but can't close
+// the window for a DNS record that changes in between.
+export async function fetchPublicUrl(
+	url: string,
+	init: Omit<RequestInit, "redirect"> = {},
+	allowPrivate = allowPrivateUrls(),
+): Promise<Response> {
+	let current = url;
+	for (let hops = 0; ; hops++) {
+		await assertPublicUrl(current, allowPrivate);
+		const response = await fetch(current, { ...init, redirect: "manual" });
+		const location = response.headers.get("location");
+		if (!REDIRECT_STATUSES.includes(response.status) || !location) {
+			return response;
+		}
+
+		await response.body?.cancel();
+		if (hops >= MAX_REDIRECTS) {
+			throw new Error(`Too many redirects fetching ${url}`);
+		}
+		current = new URL(location, current).href;
+	}
+}
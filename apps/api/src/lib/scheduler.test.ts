@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { invalidSchedule, nextCrawlTime } from "./scheduler";
+
+describe("nextCrawlTime", () => {
+	const after = new Date("2024-10-01T09:30:00Z");
+
+	it("counts daily and weekly schedules from the given time", () => {
+		expect(nextCrawlTime("daily", after).toISOString()).toBe("2024-10-02T09:30:00.000Z");
+		expect(nextCrawlTime("weekly", after).toISOString()).toBe("2024-10-08T09:30:00.000Z");
+	});
+
+	it("follows cron expressions", () => {
+		expect(nextCrawlTime("0 3 * * *", after).toISOString()).toBe("2024-10-02T03:00:00.000Z");
+	});
+});
+
+describe("invalidSchedule", () => {
+	it("explains what is wrong with a schedule", () => {
+		expect(invalidSchedule("weekly")).toBeNull();
+		expect(invalidSchedule("hourly")).toBe(
+			"expected 5 fields (minute hour day-of-month month day-of-week), got 1",
+		);
+		expect(invalidSchedule("0 0 31 2 *")).toBe('"0 0 31 2 *" never runs');
+	});
+});
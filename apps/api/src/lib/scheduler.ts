@@ -0,0 +1,123 @@
+import { and, eq, getDb, inArray, isNotNull, jobs, lte, webSources } from "@vela/db";
+import { queueCrawl } from "./crawler";
+import { parseCron } from "./cron";
+
+// Scheduled recrawls of web sources. A source's schedule is "daily", "weekly" or a cron
+// expression in UTC, and its nextCrawlAt says when it is next due. The scheduler runs next to the
+// job worker and checks every minute for due sources. Several processes may run it: each due
+// occurrence is claimed by moving nextCrawlAt on, which only one of them manages.
+
+const CHECK_INTERVAL_MS = 60_000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// When a source with this schedule next crawls after `after`. Throws on an invalid schedule.
+export function nextCrawlTime(schedule: string, after: Date): Date {
+	switch (schedule) {
+		case "daily":
+			return new Date(after.getTime() + DAY_MS);
+		case "weekly":
+			return new Date(after.getTime() + 7 * DAY_MS);
+		default:
+			return parseCron(schedule).next(after);
+	}
+}
+
+// Why a schedule is invalid, or null if it is fine
+export function invalidSchedule(schedule: string): string | null {
+	try {
+		nextCrawlTime(schedule, new Date());
+		return null;
+	} catch (error) {
+		return error instanceof Error ? error.message : "invalid schedule";
+	}
+}
+
+// Queue crawls of the web sources that are due. An occurrence that comes round while the
+// source's last crawl is still queued or running is skipped, so runs of one source never overlap.
+export async function enqueueDueCrawls(now = new Date()): Promise<number> {
+	const db = getDb();
+	const due = await db
+		.select({
+			id: webSources.id,
+			agentId: webSources.agentId,
+			schedule: webSources.schedule,
+			nextCrawlAt: webSources.nextCrawlAt,
+		})
+		.from(webSources)
+		.where(and(isNotNull(webSources.schedule), lte(webSources.nextCrawlAt, now)));
+
+	let queued = 0;
+	for (const source of due) {
+		if (!source.schedule || !source.nextCrawlAt) continue;
+
+		let next: Date | null;
+		try {
+			next = nextCrawlTime(source.schedule, now);
+		} catch (error) {
+			// Schedules are validated when set, so this is a cron expression that stopped matching
+			console.error(`[scheduler] Invalid schedule for web source ${source.id}:`, error);
+			next = null;
+		}
+
+		const [claimed] = await db
+			.update(webSources)
+			.set({ nextCrawlAt: next })
+			.where(and(eq(webSources.id, source.id), eq(webSources.nextCrawlAt, source.nextCrawlAt)))
+			.returning({ id: webSources.id });
+		if (!claimed || !next) continue;
+
+		const [active] = await db
+			.select({ id: jobs.id })
+			.from(jobs)
+			.where(
+				and(
+					eq(jobs.type, "crawl_web_source"),
+					eq(jobs.sourceId, source.id),
+					inArray(jobs.status, ["queued", "running"]),
+				),
+			)
+			.limit(1);
+		if (active) {
+			console.log(`[scheduler] Skipping web source ${source.id}, its last crawl hasn't finished`);
+			continue;
+		}
+
+		await queueCrawl(source, "scheduled");
+		queued++;
+	}
+
+	if (queued > 0) {
+		console.log(`[scheduler] Queued ${queued} scheduled crawls`);
+	}
+	return queued;
+}
+
+export interface Scheduler {
+	stop(): void;
+}
+
+export function startCrawlScheduler(): Scheduler {
+	let checking = false;
+
+	const check = async () => {
+		if (checking) return;
+		checking = true;
+		try {
+			await enqueueDueCrawls();
+		} catch (err) {
+			console.error("[scheduler] Checking for due crawls failed:", err);
+		} finally {
+			checking = false;
+		}
+	};
+
+	const interval = setInterval(check, CHECK_INTERVAL_MS);
+	check();
+	console.log("[scheduler] Checking for scheduled crawls every minute");
+
+	return {
+		stop() {
+			clearInterval(interval);
+		},
+	};
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { parseSitemapXml } from "./sitemap";
+
+describe("parseSitemapXml", () => {
+	it("reads each page's location and last modification", () => {
+		const xml = `<?xml version="1.0" encoding="UTF-8"?>
+			<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+				<url><loc>https://example.com/</loc><lastmod>2024-10-01</lastmod></url>
+				<url>
+					<loc>https://example.com/search?q=a&amp;page=2</loc>
+					<lastmod>2024-10-02T09:30:00+02:00</lastmod>
+				</url>
+				<url><loc><![CDATA[https://example.com/faq]]></loc><lastmod>soon</lastmod></url>
+			</urlset>`;
+
+		expect(parseSitemapXml(xml)).toEqual({
+			pages: [
+				{ url: "https://example.com/", lastmod: new Date("2024-10-01T00:00:00Z") },
+				{
+					url: "https://example.com/search?q=a&page=2",
+					lastmod: new Date("2024-10-02T07:30:00Z"),
+				},
+				{ url: "https://example.com/faq", lastmod: null },
+			],
+			sitemaps: [],
+		});
+	});
+
+	it("lists the sitemaps of a sitemap index", () => {
+		const xml = `<sitemapindex>
+			<sitemap><loc>https://example.com/sitemap-docs.xml</loc><lastmod>2024-10-01</lastmod></sitemap>
+			<sitemap><loc>https://example.com/sitemap-blog.xml</loc></sitemap>
+		</sitemapindex>`;
+
+		expect(parseSitemapXml(xml)).toEqual({
+			pages: [],
+			sitemaps: ["https://example.com/sitemap-docs.xml", "https://example.com/sitemap-blog.xml"],
+		});
+	});
+});
@@ -0,0 +1,60 @@
+import { decodeEntities } from "./html";
+import { fetchPublicUrl } from "./safe-fetch";
+
+export interface SitemapEntry {
+	url: string;
+	lastmod: Date | null; // when the page last changed, if the sitemap says
+}
+
+// Nested sitemaps read from a sitemap index
+const MAX_NESTED_SITEMAPS = 5;
+const FETCH_TIMEOUT_MS = 30_000;
+
+// Text of an element, without a CDATA wrapper
+function elementText(xml: string, name: string): string | null {
+	const match = xml.match(
+		new RegExp(`<${name}>\\s*(?:<!\\[CDATA\\[([\\s\\S]*?)\\]\\]>|([^<]*))\\s*</${name}>`),
+	);
+	if (!match) return null;
+	return match[1] ?? decodeEntities(match[2]).trim();
+}
+
+// The pages a sitemap lists with their <lastmod>, or, for a sitemap index, the sitemaps it lists
+export function parseSitemapXml(xml: string): { pages: SitemapEntry[]; sitemaps: string[] } {
+	if (xml.includes("<sitemapindex")) {
+		const sitemaps = [...xml.matchAll(/<sitemap>([\s\S]*?)<\/sitemap>/g)].flatMap(
+			([, entry]) => elementText(entry, "loc") ?? [],
+		);
+		return { pages: [], sitemaps };
+	}
+
+	const pages = [...xml.matchAll(/<url>([\s\S]*?)<\/url>/g)].flatMap(([, entry]) => {
+		const url = elementText(entry, "loc");
+		if (!url) return [];
+		const lastmod = new Date(elementText(entry, "lastmod") ?? "");
+		return [{ url, lastmod: Number.isNaN(lastmod.getTime()) ? null : lastmod }];
+	});
+	return { pages, sitemaps: [] };
+}
+
+// Fetches a sitemap, following the first few sitemaps of an index; nested sitemaps that fail are
+// skipped
+export async function fetchSitemap(url: string, userAgent: string): Promise<SitemapEntry[]> {
+	const response = await fetchPublicUrl(url, {
+		headers: { "User-Agent": userAgent },
+		signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+	});
+	if (!response.ok) {
+		throw new Error(`Failed to fetch sitemap: ${response.status}`);
+	}
+
+	const { pages, sitemaps } = parseSitemapXml(await response.text());
+	for (const sitemapUrl of sitemaps.slice(0, MAX_NESTED_SITEMAPS)) {
+		try {
+			pages.push(...(await fetchSitemap(sitemapUrl, userAgent)));
+		} catch {
+			// Ignore nested sitemap errors
+		}
+	}
+	return pages;
+}
@@ -0,0 +1,226 @@
+import { createHash, createHmac } from "node:crypto";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import { dirname, resolve, sep } from "node:path";
+
+// File storage for original uploads. STORAGE_DRIVER picks the backend: "local" writes under
+// STORAGE_LOCAL_PATH, "s3" uses any S3-compatible object store (AWS S3, MinIO, R2).
+
+export type StorageDriverId = "local" | "s3";
+
+export interface FileStorage {
+	readonly id: StorageDriverId;
+	put(key: string, data: Buffer, contentType: string): Promise<void>;
+	// Throws StorageNotFoundError for missing keys
+	get(key: string): Promise<Buffer>;
+	delete(key: string): Promise<void>;
+}
+
+export class StorageNotFoundError extends Error {
+	constructor(key: string) {
+		super(`${key} not found in storage`);
+		this.name = "StorageNotFoundError";
+	}
+}
+
+export class LocalFileStorage implements FileStorage {
+	readonly id = "local";
+	private root: string;
+
+	constructor(root: string) {
+		this.root = resolve(root);
+	}
+
+	// Keys are generated by the API, but never let one escape the storage directory
+	private path(key: string): string {
+		const path = resolve(this.root, key);
+		if (!path.startsWith(this.root + sep)) {
+			throw new Error(`Invalid storage key "${key}"`);
+		}
+		return path;
+	}
+
+	async put(key: string, data: Buffer): Promise<void> {
+		const path = this.path(key);
+		await mkdir(dirname(path), { recursive: true });
+		await writeFile(path, data);
+	}
+
+	async get(key: string): Promise<Buffer> {
+		try {
+			return await readFile(this.path(key));
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+				throw new StorageNotFoundError(key);
+			}
+			throw error;
+		}
+	}
+
+	async delete(key: string): Promise<void> {
+		await rm(this.path(key), { force: true });
+	}
+}
+
+export interface S3Config {
+	endpoint: string; // e.g. https://s3.us-east-1.amazonaws.com or http://minio:9000
+	bucket: string;
+	region: string;
+	accessKeyId: string;
+	secretAccessKey: string;
+	// Address the bucket in the path (endpoint/bucket/key) rather than the host name; MinIO needs it
+	forcePathStyle: boolean;
+}
+
+const sha256 = (data: string | Buffer) => createHash("sha256").update(data).digest("hex");
+const hmac = (key: string | Buffer, data: string) =>
+	createHmac("sha256", key).update(data).digest();
+
+// S3 wants every byte but unreserved characters percent-encoded, slashes kept in paths
+const encodeKey = (key: string) =>
+	key
+		.split("/")
+		.map((part) =>
+			encodeURIComponent(part).replace(
+				/[!'()*]/g,
+				(c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`,
+			),
+		)
+		.join("/");
+
+// AWS Signature Version 4 Authorization header for a request without query parameters
+export function signS3Request(
+	config: Pick<S3Config, "region" | "accessKeyId" | "secretAccessKey">,
+	request: { method: string; url: URL; headers: Record<string, string>; payloadHash: string },
+	date: Date,
+): string {
+	const amzDate = date.toISOString().replace(/[:-]|\.\d{3}/g, "");
+	const day = amzDate.slice(0, 8);
+	const scope = `${day}/${config.region}/s3/aws4_request`;
+
+	const headers = Object.entries(request.headers)
+		.map(([name, value]) => [name.toLowerCase(), value.trim()] as const)
+		.sort(([a], [b]) => (a < b ? -1 : 1));
+	const signedHeaders = headers.map(([name]) => name).join(";");
+	const canonicalRequest = [
+		request.method,
+		request.url.pathname,
+		"",
+		...headers.map(([name, value]) => `${name}:${value}`),
+		"",
+		signedHeaders,
+		request.payloadHash,
+	].join("\n");
+
+	const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256(canonicalRequest)].join("\n");
+	const signingKey = ["s3", "aws4_request"].reduce(
+		(key, part) => hmac(key, part),
+		hmac(hmac(`AWS4${config.secretAccessKey}`, day), config.region),
+	);
+	const signature = createHmac("sha256", signingKey).update(stringToSign).digest("hex");
+
+	return `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`;
+}
+
+export class S3FileStorage implements FileStorage {
+	readonly id = "s3";
+
+	constructor(private config: S3Config) {}
+
+	private url(key: string): URL {
+		const endpoint = new URL(this.config.endpoint);
+		if (this.config.forcePathStyle) {
+			return new URL(
+				`${endpoint.origin}${endpoint.pathname.replace(/\/$/, "")}/${this.config.bucket}/${encodeKey(key)}`,
+			);
+		}
+		return new URL(
+			`${endpoint.protocol}//${this.config.bucket}.${endpoint.host}/${encodeKey(key)}`,
+		);
+	}
+
+	private async request(
+		method: string,
+		key: string,
+		body?: Buffer,
+		extraHeaders: Record<string, string> = {},
+	): Promise<Response> {
+		const url = this.url(key);
+		const date = new Date();
+		const payloadHash = sha256(body ?? "");
+		const headers: Record<string, string> = {
+			...extraHeaders,
+			host: url.host,
+			"x-amz-content-sha256": payloadHash,
+			"x-amz-date": date.toISOString().replace(/[:-]|\.\d{3}/g, ""),
+		};
+		headers.authorization = signS3Request(this.config, { method, url, headers, payloadHash }, date);
+		// fetch sets Host itself
+		const { host: _host, ...sent } = headers;
+		return fetch(url, { method, headers: sent, body });
+	}
+
+	async put(key: string, data: Buffer, contentType: string): Promise<void> {
+		const response = await this.request("PUT", key, data, { "content-type": contentType });
+		if (!response.ok) {
+			throw new Error(`S3 PUT ${key} failed: ${response.status} ${await response.text()}`);
+		}
+	}
+
+	async get(key: string): Promise<Buffer> {
+		const response = await this.request("GET", key);
+		if (response.status === 404) {
+			throw new StorageNotFoundError(key);
+		}
+		if (!response.ok) {
+			throw new Error(`S3 GET ${key} failed: ${response.status} ${await response.text()}`);
+		}
+		return Buffer.from(await response.arrayBuffer());
+	}
+
+	async delete(key: string): Promise<void> {
+		const response = await this.request("DELETE", key);
+		if (!response.ok && response.status !== 404) {
+			throw new Error(`S3 DELETE ${key} failed: ${response.status} ${await response.text()}`);
+		}
+	}
+}
+
+type StorageEnv = Record<string, string | undefined>;
+
+// Builds the storage described by the environment; local files under ./storage by default
+export function createFileStorage(env: StorageEnv = process.env): FileStorage {
+	const driver = (env.STORAGE_DRIVER || "local") as StorageDriverId;
+
+	if (driver === "local") {
+		return new LocalFileStorage(env.STORAGE_LOCAL_PATH || "storage");
+	}
+	if (driver !== "s3") {
+		throw new Error(`Unknown STORAGE_DRIVER "${driver}"`);
+	}
+
+	const missing = ["S3_BUCKET", "S3_ACCESS_KEY_ID", "S3_SECRET_ACCESS_KEY"].filter(
+		(name) => !env[name],
+	);
+	if (missing.length > 0) {
+		throw new Error(`STORAGE_DRIVER=s3 requires ${missing.join(", ")}`);
+	}
+	const region = env.S3_REGION || "us-east-1";
+	return new S3FileStorage({
+		endpoint: env.S3_ENDPOINT || `https://s3.${region}.amazonaws.com`,
+		bucket: env.S3_BUCKET as string,
+		region,
+		accessKeyId: env.S3_ACCESS_KEY_ID as string,
+		secretAccessKey: env.S3_SECRET_ACCESS_KEY as string,
+		forcePathStyle: env.S3_FORCE_PATH_STYLE === "true",
+	});
+}
+
+let storage: FileStorage | null = null;
+
+export function getFileStorage(): FileStorage {
+	if (!storage) {
+		storage = createFileStorage();
+		console.log(`[storage] Storing uploads with the ${storage.id} driver`);
+	}
+	return storage;
+}
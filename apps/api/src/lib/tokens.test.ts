@@ -0,0 +1,54 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { estimateTokens, loadTokenizer } from "./tokens";
+
+describe("estimateTokens", () => {
+	it("counts about four characters per token for English", () => {
+		expect(estimateTokens("How do I reset my password?")).toBe(7);
+	});
+
+	it("counts CJK characters as a token each", () => {
+		expect(estimateTokens("パスワードを再設定する方法")).toBe(13);
+		expect(estimateTokens("如何重置密码")).toBe(6);
+	});
+
+	it("counts other non-Latin letters at about two per token", () => {
+		expect(estimateTokens("пароль")).toBe(3);
+	});
+});
+
+describe("loadTokenizer", () => {
+	let dir: string;
+
+	beforeAll(async () => {
+		dir = await mkdtemp(join(tmpdir(), "tokenizer-"));
+		await writeFile(
+			join(dir, "tokenizer.json"),
+			JSON.stringify({
+				version: "1.0",
+				added_tokens: [],
+				normalizer: null,
+				pre_tokenizer: { type: "Whitespace" },
+				post_processor: null,
+				decoder: null,
+				model: { type: "WordLevel", vocab: { "[UNK]": 0, hello: 1, world: 2 }, unk_token: "[UNK]" },
+			}),
+		);
+	});
+
+	afterAll(async () => {
+		await rm(dir, { recursive: true, force: true });
+	});
+
+	it("reads the tokenizer from a directory without a tokenizer_config.json", async () => {
+		const countTokens = await loadTokenizer({ path: dir });
+
+		expect(countTokens("hello world hello")).toBe(3);
+	});
+
+	it("rejects when the directory has no tokenizer.json", async () => {
+		await expect(loadTokenizer({ path: join(dir, "missing") })).rejects.toThrow();
+	});
+});
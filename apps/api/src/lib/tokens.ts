@@ -0,0 +1,96 @@
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { Tokenizer } from "@huggingface/tokenizers";
+import { getEmbeddingModel } from "./embeddings";
+
+// CJK characters are about a token each, letters of other non-Latin scripts (Cyrillic, Greek,
+// Arabic, ...) about two to a token, and English-like text about four characters to a token
+const CJK = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/gu;
+const NON_LATIN = /[^\p{Script=Latin}\p{Script=Common}\p{Script=Inherited}]/gu;
+
+// Rough token count for budgeting prompt context, by script
+export function estimateTokens(text: string): number {
+	const cjk = text.match(CJK)?.length ?? 0;
+	const otherScripts = (text.match(NON_LATIN)?.length ?? 0) - cjk;
+	const rest = text.length - cjk - otherScripts;
+	return Math.ceil(cjk + otherScripts / 2 + rest / 4);
+}
+
+export type TokenCounter = (text: string) => number;
+
+// Hugging Face repos publishing the tokenizer of each embedding model
+const TOKENIZER_REPOS: Record<string, string> = {
+	"voyage-3": "voyageai/voyage-3",
+	"voyage-3-large": "voyageai/voyage-3-large",
+	"voyage-3-lite": "voyageai/voyage-3-lite",
+	"mxbai-embed-large": "mixedbread-ai/mxbai-embed-large-v1",
+	"bge-m3": "BAAI/bge-m3",
+	"nomic-embed-text": "nomic-ai/nomic-embed-text-v1.5",
+};
+
+const DOWNLOAD_TIMEOUT_MS = 15_000;
+// After the tokenizer fails to load, token counts are estimated for this long before trying again
+const RETRY_AFTER_MS = 10 * 60_000;
+
+let embeddingCounter: Promise<TokenCounter> | null = null;
+let retryAt: number | null = null;
+
+async function readTokenizerFiles(dir: string): Promise<[object, object]> {
+	const tokenizerJson = JSON.parse(await readFile(join(dir, "tokenizer.json"), "utf-8"));
+	const tokenizerConfig = await readFile(join(dir, "tokenizer_config.json"), "utf-8").then(
+		JSON.parse,
+		() => ({}),
+	);
+	return [tokenizerJson, tokenizerConfig];
+}
+
+async function downloadTokenizerFiles(repo: string): Promise<[object, object]> {
+	const base = `https://huggingface.co/${repo}/resolve/main`;
+	const [tokenizerJson, tokenizerConfig] = await Promise.all(
+		["tokenizer.json", "tokenizer_config.json"].map(async (file) => {
+			const response = await fetch(`${base}/${file}`, {
+				signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS),
+			});
+			if (!response.ok) {
+				throw new Error(`Failed to fetch ${repo}/${file}: ${response.status}`);
+			}
+			return response.json() as Promise<object>;
+		}),
+	);
+	return [tokenizerJson, tokenizerConfig];
+}
+
+// Loads a tokenizer from a directory holding tokenizer.json (and optionally
+// tokenizer_config.json), or downloads it from a Hugging Face repo
+export async function loadTokenizer(
+	source: { path: string } | { repo: string },
+): Promise<TokenCounter> {
+	const [tokenizerJson, tokenizerConfig] =
+		"path" in source
+			? await readTokenizerFiles(source.path)
+			: await downloadTokenizerFiles(source.repo);
+	const tokenizer = new Tokenizer(tokenizerJson, tokenizerConfig);
+	return (text) => tokenizer.encode(text, { add_special_tokens: false }).ids.length;
+}
+
+// Counts tokens the way the configured embedding model does, so chunk sizes match its limits.
+// The tokenizer is read from TOKENIZER_PATH when set, for installs that can't reach
+// huggingface.co, else downloaded. Falls back to estimateTokens when the tokenizer is unknown or
+// fails to load, and only tries loading it again after RETRY_AFTER_MS.
+export function getEmbeddingTokenCounter(
+	env: Record<string, string | undefined> = process.env,
+): Promise<TokenCounter> {
+	if (!embeddingCounter || (retryAt !== null && Date.now() >= retryAt)) {
+		retryAt = null;
+		const repo = TOKENIZER_REPOS[getEmbeddingModel()];
+		const source = env.TOKENIZER_PATH ? { path: env.TOKENIZER_PATH } : repo ? { repo } : null;
+		embeddingCounter = source
+			? loadTokenizer(source).catch((err) => {
+					console.warn(`[tokens] Using estimated token counts, tokenizer unavailable: ${err}`);
+					retryAt = Date.now() + RETRY_AFTER_MS;
+					return estimateTokens;
+				})
+			: Promise.resolve(estimateTokens);
+	}
+	return embeddingCounter;
+}
@@ -0,0 +1,137 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { runToolLoop } from "./tool-loop";
+
+const anthropicRequests = vi.hoisted(() => [] as Record<string, unknown>[]);
+
+// Every response calls get_weather, so the loop only ends by reaching its step limit
+vi.mock("@anthropic-ai/sdk", () => {
+	class Anthropic {
+		static APIError = class extends Error {};
+		static APIConnectionError = class extends Error {};
+		messages = {
+			stream: (params: Record<string, unknown>) => {
+				anthropicRequests.push(params);
+				const id = `toolu_${anthropicRequests.length}`;
+				return {
+					async *[Symbol.asyncIterator]() {
+						yield {
+							type: "content_block_start",
+							content_block: { type: "tool_use", id, name: "get_weather" },
+						};
+						yield {
+							type: "content_block_delta",
+							delta: { type: "input_json_delta", partial_json: '{"city":"Oslo"}' },
+						};
+						yield { type: "content_block_stop" };
+					},
+					finalMessage: async () => ({ usage: { input_tokens: 10, output_tokens: 5 } }),
+				};
+			},
+		};
+	}
+	return { default: Anthropic };
+});
+
+const weatherTool = {
+	name: "get_weather",
+	description: "Get the weather",
+	input_schema: {
+		type: "object" as const,
+		properties: { city: { type: "string" } },
+		required: ["city"],
+	},
+};
+
+function toolCallResponse(id: string): Response {
+	const chunk = {
+		choices: [
+			{
+				delta: {
+					tool_calls: [
+						{ index: 0, id, function: { name: "get_weather", arguments: '{"city":"Oslo"}' } },
+					],
+				},
+			},
+		],
+	};
+	return new Response(`data: ${JSON.stringify(chunk)}\n\ndata: [DONE]\n\n`, { status: 200 });
+}
+
+function handlers() {
+	return {
+		onText: vi.fn(async () => {}),
+		runTool: vi.fn(async () => "sunny"),
+		onResponse: vi.fn(),
+	};
+}
+
+describe("runToolLoop", () => {
+	afterEach(() => {
+		vi.unstubAllGlobals();
+		anthropicRequests.length = 0;
+	});
+
+	it("keeps the tools but turns them off once the step limit is reached", async () => {
+		let calls = 0;
+		const fetchMock = vi.fn(async (_url: string, _init?: RequestInit) =>
+			toolCallResponse(`call_${++calls}`),
+		);
+		vi.stubGlobal("fetch", fetchMock);
+		const loop = handlers();
+
+		await runToolLoop(
+			{
+				model: "gpt-4o",
+				provider: { id: "openai", protocol: "openai", baseUrl: "http://llm.test/v1" },
+				messages: [{ role: "user", content: "Weather in Oslo?" }],
+				tools: [weatherTool],
+				maxSteps: 2,
+			},
+			loop,
+		);
+
+		expect(fetchMock).toHaveBeenCalledTimes(3);
+		expect(loop.runTool).toHaveBeenCalledTimes(2);
+		expect(loop.onResponse).toHaveBeenCalledTimes(3);
+
+		const bodies = fetchMock.mock.calls.map(([, init]) => JSON.parse(init?.body as string));
+		expect(bodies[1].tool_choice).toBeUndefined();
+		const last = bodies[2];
+		expect(last.tools[0].function.name).toBe("get_weather");
+		expect(last.tool_choice).toBe("none");
+		expect(last.messages.filter((m: { role: string }) => m.role === "tool")).toEqual([
+			{ role: "tool", tool_call_id: "call_1", content: "sunny" },
+			{ role: "tool", tool_call_id: "call_2", content: "sunny" },
+		]);
+	});
+
+	it("replays earlier tool calls as text to Anthropic once the step limit is reached", async () => {
+		const loop = handlers();
+
+		await runToolLoop(
+			{
+				model: "claude-sonnet-4-5",
+				provider: { id: "anthropic", protocol: "anthropic", apiKey: "test-key" },
+				messages: [{ role: "user", content: "Weather in Oslo?" }],
+				tools: [weatherTool],
+				maxSteps: 1,
+			},
+			loop,
+		);
+
+		expect(anthropicRequests).toHaveLength(2);
+		expect(loop.runTool).toHaveBeenCalledTimes(1);
+		expect(anthropicRequests[0].tools).toEqual([weatherTool]);
+
+		const last = anthropicRequests[1];
+		expect(last.tools).toBeUndefined();
+		expect(last.messages).toEqual([
+			{ role: "user", content: "Weather in Oslo?" },
+			{
+				role: "assistant",
+				content: '```json\n{"tool":"get_weather","parameters":{"city":"Oslo"}}\n```',
+			},
+			{ role: "user", content: "Tool result: sunny" },
+		]);
+	});
+});
@@ -0,0 +1,73 @@
+import { type ContentBlock, type StreamOptions, streamChat, type ToolUse } from "./llm";
+
+export interface ToolLoopOptions extends StreamOptions {
+	// Model responses that may call tools before the model has to answer
+	maxSteps: number;
+}
+
+export interface ToolLoopHandlers {
+	onText(text: string): Promise<void>;
+	// Runs a tool the model called in the given step and returns its result
+	runTool(toolUse: ToolUse, step: number): Promise<string>;
+	// Called after each model response with the model that answered and its token usage
+	onResponse(model: string, usage: { inputTokens: number; outputTokens: number }): void;
+}
+
+// Streams a chat completion, running the tools the model calls and feeding their results back
+// until it answers in text. After maxSteps steps the tools stay declared, since the replayed tool
+// calls need them, but the model may no longer call them and has to answer.
+export async function runToolLoop(
+	options: ToolLoopOptions,
+	handlers: ToolLoopHandlers,
+): Promise<void> {
+	const { maxSteps, ...chatOptions } = options;
+	// Conversation replayed to the model, grown with tool calls and results each step
+	const messages = [...chatOptions.messages];
+
+	for (let step = 0; ; step++) {
+		const lastStep = step >= maxSteps;
+		let stepText = "";
+		const stepToolUses: ToolUse[] = [];
+		let stepUsage = { inputTokens: 0, outputTokens: 0 };
+
+		const answered = await streamChat(
+			{ ...chatOptions, messages: [...messages], ...(lastStep && { toolChoice: "none" }) },
+			async (event) => {
+				if (event.type === "text_delta" && event.text) {
+					stepText += event.text;
+					await handlers.onText(event.text);
+				} else if (event.type === "tool_use" && event.toolUse) {
+					stepToolUses.push(event.toolUse);
+				} else if (event.type === "done" && event.usage) {
+					stepUsage = event.usage;
+				}
+			},
+		);
+		handlers.onResponse(answered.model, stepUsage);
+
+		if (stepToolUses.length === 0 || lastStep) {
+			return;
+		}
+
+		// Run every tool call from this step and feed the results back as tool_result blocks
+		const resultBlocks: ContentBlock[] = [];
+		for (const toolUse of stepToolUses) {
+			const result = await handlers.runTool(toolUse, step);
+			resultBlocks.push({ type: "tool_result", tool_use_id: toolUse.id, content: result });
+		}
+
+		const assistantBlocks: ContentBlock[] = stepText ? [{ type: "text", text: stepText }] : [];
+		for (const toolUse of stepToolUses) {
+			assistantBlocks.push({
+				type: "tool_use",
+				id: toolUse.id,
+				name: toolUse.name,
+				input: toolUse.input,
+			});
+		}
+		messages.push(
+			{ role: "assistant", content: assistantBlocks },
+			{ role: "user", content: resultBlocks },
+		);
+	}
+}
@@ -0,0 +1,89 @@
+import JSZip from "jszip";
+import { describe, expect, it } from "vitest";
+import { expandUploads, MAX_FILE_SIZE } from "./uploads";
+
+async function zip(files: Record<string, string | Buffer>): Promise<Buffer> {
+	const archive = new JSZip();
+	for (const [path, content] of Object.entries(files)) {
+		archive.file(path, content);
+	}
+	return archive.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+}
+
+// Rewrites the uncompressed size an archive of one file declares, in both the local file header
+// and the central directory
+function declareSize(archive: Buffer, size: number): Buffer {
+	const patched = Buffer.from(archive);
+	patched.writeUInt32LE(size, patched.indexOf(Buffer.from([0x50, 0x4b, 0x03, 0x04])) + 22);
+	patched.writeUInt32LE(size, patched.indexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02])) + 24);
+	return patched;
+}
+
+describe("expandUploads", () => {
+	it("unpacks ZIP archives into documents named by their path", async () => {
+		const data = await zip({
+			"guides/setup.md": "# Setup",
+			"guides/.DS_Store": "junk",
+			"__MACOSX/guides/._setup.md": "junk",
+			"logo.png": "png",
+			"old.zip": "zip",
+		});
+
+		const entries = await expandUploads([
+			{ name: "help-centre.zip", type: "application/zip", data },
+			{ name: "faq.txt", type: "text/plain", data: Buffer.from("Q&A") },
+		]);
+
+		expect(entries.map(({ filename, status }) => [filename, status])).toEqual([
+			["guides/setup.md", "ok"],
+			["logo.png", "skipped"],
+			["old.zip", "skipped"],
+			["faq.txt", "ok"],
+		]);
+		expect(entries[0]).toMatchObject({ mimeType: "text/markdown" });
+	});
+
+	it("reports broken archives and oversized files as failed", async () => {
+		const entries = await expandUploads([
+			{ name: "broken.zip", type: "application/zip", data: Buffer.from("not a zip") },
+			{ name: "huge.txt", type: "text/plain", data: Buffer.alloc(MAX_FILE_SIZE + 1) },
+		]);
+
+		expect(entries).toEqual([
+			{ filename: "broken.zip", status: "failed", reason: "not a valid ZIP archive" },
+			{ filename: "huge.txt", status: "failed", reason: "file too large (max 10MB)" },
+		]);
+	});
+
+	it("treats Office files as documents, not archives", async () => {
+		const data = await zip({ "word/document.xml": "<w:document/>" });
+
+		const [entry] = await expandUploads([{ name: "terms.docx", type: "", data }]);
+
+		expect(entry).toMatchObject({
+			filename: "terms.docx",
+			status: "ok",
+			mimeType: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+		});
+	});
+
+	it("stops unpacking a file that inflates past its declared size", async () => {
+		const data = declareSize(await zip({ "bomb.txt": Buffer.alloc(MAX_FILE_SIZE + 1, "a") }), 100);
+
+		const entries = await expandUploads([{ name: "bomb.zip", type: "application/zip", data }]);
+
+		expect(entries).toEqual([
+			{ filename: "bomb.txt", status: "failed", reason: "file too large (max 10MB)" },
+		]);
+	});
+
+	it("fails files declared too large without unpacking them", async () => {
+		const data = declareSize(await zip({ "big.txt": "small" }), MAX_FILE_SIZE + 1);
+
+		const entries = await expandUploads([{ name: "big.zip", type: "application/zip", data }]);
+
+		expect(entries).toEqual([
+			{ filename: "big.txt", status: "failed", reason: "file too large (max 10MB)" },
+		]);
+	});
+});
@@ -0,0 +1,169 @@
+import { createHash } from "node:crypto";
+import JSZip from "jszip";
+import { resolveMimeType, type SupportedMimeType } from "./extractors";
+
+export const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB per document
+export const MAX_ARCHIVE_SIZE = 100 * 1024 * 1024; // 100MB per ZIP archive
+export const MAX_UNPACKED_SIZE = 200 * 1024 * 1024; // 200MB of documents unpacked per archive
+export const MAX_BULK_FILES = 500;
+
+export const UNSUPPORTED_TYPE_MESSAGE =
+	"unsupported file type (PDF, DOCX, XLSX, PPTX, TXT, Markdown, HTML, CSV, JSON, EPUB only)";
+
+const UNPACKED_TOO_LARGE = "archive too large when unpacked (max 200MB)";
+
+export interface UploadedFile {
+	name: string;
+	type: string;
+	data: Buffer;
+}
+
+// A file ready to store, or why it can't be. Files inside archives are named by their path.
+export type UploadEntry =
+	| { filename: string; status: "ok"; data: Buffer; mimeType: SupportedMimeType }
+	| { filename: string; status: "skipped" | "failed"; reason: string };
+
+export function hashFile(data: Buffer): string {
+	return createHash("sha256").update(data).digest("hex");
+}
+
+function isZip(file: UploadedFile): boolean {
+	return (
+		file.type === "application/zip" ||
+		file.type === "application/x-zip-compressed" ||
+		file.name.toLowerCase().endsWith(".zip")
+	);
+}
+
+// Folders, hidden files and the resource forks macOS adds to archives
+function isIgnoredPath(path: string): boolean {
+	return path.split("/").some((part) => part.startsWith(".") || part === "__MACOSX");
+}
+
+function toEntry(filename: string, type: string, data: Buffer): UploadEntry {
+	const mimeType = resolveMimeType(type, filename);
+	if (!mimeType) {
+		return { filename, status: "skipped", reason: UNSUPPORTED_TYPE_MESSAGE };
+	}
+	if (data.length > MAX_FILE_SIZE) {
+		return { filename, status: "failed", reason: "file too large (max 10MB)" };
+	}
+	if (data.length === 0) {
+		return { filename, status: "failed", reason: "file is empty" };
+	}
+	return { filename, status: "ok", data, mimeType };
+}
+
+// Uncompressed size the archive declares for an entry. JSZip only keeps it on a private field,
+// and an archive can lie about it, so unpacking is capped as well.
+function declaredSize(entry: JSZip.JSZipObject): number | undefined {
+	return (entry as unknown as { _data?: { uncompressedSize?: number } })._data?.uncompressedSize;
+}
+
+// Unpacks an entry, or returns null as soon as it passes limit bytes, so a small archive that
+// inflates to gigabytes never does
+function unpack(entry: JSZip.JSZipObject, limit: number): Promise<Buffer | null> {
+	return new Promise((resolve, reject) => {
+		const chunks: Buffer[] = [];
+		let size = 0;
+		const stream = entry.nodeStream("nodebuffer");
+		stream
+			.on("data", (chunk: Buffer) => {
+				size += chunk.length;
+				if (size > limit) {
+					stream.pause();
+					chunks.length = 0;
+					resolve(null);
+					return;
+				}
+				chunks.push(chunk);
+			})
+			.on("error", reject)
+			.on("end", () => resolve(Buffer.concat(chunks)));
+	});
+}
+
+async function expandZip(file: UploadedFile): Promise<UploadEntry[]> {
+	if (file.data.length > MAX_ARCHIVE_SIZE) {
+		return [{ filename: file.name, status: "failed", reason: "archive too large (max 100MB)" }];
+	}
+
+	let zip: JSZip;
+	try {
+		zip = await JSZip.loadAsync(file.data);
+	} catch {
+		return [{ filename: file.name, status: "failed", reason: "not a valid ZIP archive" }];
+	}
+
+	const entries: UploadEntry[] = [];
+	let unpackedSize = 0;
+	for (const entry of Object.values(zip.files)) {
+		if (entry.dir || isIgnoredPath(entry.name)) {
+			continue;
+		}
+		// Archives inside archives aren't expanded
+		if (entry.name.toLowerCase().endsWith(".zip")) {
+			entries.push({ filename: entry.name, status: "skipped", reason: "nested archive" });
+			continue;
+		}
+		// Checked before unpacking so files that won't be kept aren't inflated
+		if (!resolveMimeType("", entry.name)) {
+			entries.push({ filename: entry.name, status: "skipped", reason: UNSUPPORTED_TYPE_MESSAGE });
+			continue;
+		}
+		const size = declaredSize(entry);
+		if (size !== undefined && size > MAX_FILE_SIZE) {
+			entries.push({ filename: entry.name, status: "failed", reason: "file too large (max 10MB)" });
+			continue;
+		}
+		if (unpackedSize + (size ?? 0) > MAX_UNPACKED_SIZE) {
+			entries.push({ filename: entry.name, status: "failed", reason: UNPACKED_TOO_LARGE });
+			continue;
+		}
+
+		let data: Buffer | null;
+		try {
+			data = await unpack(entry, MAX_FILE_SIZE);
+		} catch {
+			entries.push({ filename: entry.name, status: "failed", reason: "could not be unpacked" });
+			continue;
+		}
+		if (!data) {
+			entries.push({ filename: entry.name, status: "failed", reason: "file too large (max 10MB)" });
+			continue;
+		}
+		if (unpackedSize + data.length > MAX_UNPACKED_SIZE) {
+			entries.push({ filename: entry.name, status: "failed", reason: UNPACKED_TOO_LARGE });
+			continue;
+		}
+		unpackedSize += data.length;
+		entries.push(toEntry(entry.name, "", data));
+	}
+	return entries;
+}
+
+// Flattens a batch of uploads into documents, unpacking ZIP archives. The batch is capped at
+// MAX_BULK_FILES documents; anything past that is reported as failed.
+export async function expandUploads(files: UploadedFile[]): Promise<UploadEntry[]> {
+	const entries: UploadEntry[] = [];
+	for (const file of files) {
+		const type = resolveMimeType(file.type, file.name);
+		if (!type && isZip(file)) {
+			entries.push(...(await expandZip(file)));
+		} else {
+			entries.push(toEntry(file.name, file.type, file.data));
+		}
+	}
+
+	let documents = 0;
+	return entries.map((entry) => {
+		if (entry.status !== "ok" || ++documents <= MAX_BULK_FILES) {
+			return entry;
+		}
+		return {
+			filename: entry.filename,
+			status: "failed",
+			reason: `too many files in one upload (max ${MAX_BULK_FILES})`,
+		};
+	});
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import {
+	applySourceWeights,
+	fitTokenBudget,
+	normalizeQuestion,
+	reciprocalRankFusion,
+} from "./vector";
+
+function result(id: string, score: number) {
+	return { id, content: id, score };
+}
+
+function sourced(id: string, score: number, type: "document" | "web") {
+	return { ...result(id, score), source: { type, sourceId: id, title: id } };
+}
+
+describe("reciprocalRankFusion", () => {
+	it("ranks chunks found by both methods above single-method hits", () => {
+		const vector = [result("a", 0.9), result("b", 0.8), result("c", 0.7)];
+		const keyword = [result("sku", 3.2), result("b", 1.1)];
+
+		const fused = reciprocalRankFusion([vector, keyword], 3);
+
+		expect(fused.map((r) => r.id)).toEqual(["b", "a", "sku"]);
+		expect(fused[0].score).toBeCloseTo(1 / 62 + 1 / 62);
+	});
+
+	it("ignores the raw scores of each method", () => {
+		const fused = reciprocalRankFusion([[result("x", 0.01)], [result("y", 100)]], 2);
+
+		expect(fused[0].score).toBe(fused[1].score);
+	});
+});
+
+describe("applySourceWeights", () => {
+	it("re-ranks by weighted score and drops zero-weighted source types", () => {
+		const weighted = applySourceWeights(
+			[sourced("web-1", 0.9, "web"), sourced("doc-1", 0.6, "document")],
+			{ document: 2 },
+		);
+		expect(weighted.map((r) => [r.id, r.score])).toEqual([
+			["doc-1", 1.2],
+			["web-1", 0.9],
+		]);
+
+		expect(applySourceWeights([sourced("web-1", 0.9, "web")], { web: 0 })).toEqual([]);
+	});
+});
+
+describe("fitTokenBudget", () => {
+	it("keeps top results until the budget is exceeded", () => {
+		const results = [
+			{ id: "a", content: "x".repeat(40), score: 3 },
+			{ id: "b", content: "x".repeat(40), score: 2 },
+			{ id: "c", content: "x".repeat(40), score: 1 },
+		];
+
+		expect(fitTokenBudget(results, 25).map((r) => r.id)).toEqual(["a", "b"]);
+	});
+});
+
+describe("normalizeQuestion", () => {
+	it("keeps letters of any script, so non-Latin questions don't all match each other", () => {
+		const returns = normalizeQuestion("Как вернуть товар?");
+		const shipping = normalizeQuestion("送料はいくらですか？");
+
+		expect(returns).toBe("каквернутьтовар");
+		expect(shipping).toBe("送料はいくらですか");
+		expect(normalizeQuestion("как  вернуть ТОВАР")).toBe(returns);
+		expect(returns).not.toBe(shipping);
+	});
+
+	it("leaves nothing of a query without letters or digits", () => {
+		expect(normalizeQuestion("?!")).toBe("");
+	});
+});
@@ -1,58 +1,350 @@
-import { getDb, sql } from "@vela/db";
-import type { VectorSearchResult } from "@vela/types";
+import { getDb, type RetrievalSettings, sql } from "@vela/db";
+import type { SourceType, VectorSearchResult } from "@vela/types";
 import { createQueryEmbedding } from "./embeddings";
+import type { Reranker } from "./rerank";
+import { estimateTokens } from "./tokens";
+
+// "vector" ranks by embedding similarity, "keyword" by Postgres full-text rank,
+// "hybrid" fuses both rankings with reciprocal rank fusion
+export type RetrievalMode = "vector" | "keyword" | "hybrid";
+
+export const RETRIEVAL_MODES: RetrievalMode[] = ["vector", "keyword", "hybrid"];
+
+// Used for any setting an agent hasn't customised
+export const DEFAULT_RETRIEVAL_SETTINGS: RetrievalSettings = {
+	topK: 5,
+	minScore: 0,
+	sourceWeights: {},
+	maxContextTokens: 4000,
+	qaMatchThreshold: null,
+	qaSkipLlm: true,
+	queryRewrite: false,
+	queryVariants: 1,
+	reranker: "none",
+	rerankCandidates: 30,
+};
+
+// A curated Q&A whose question matches the user's message
+export interface QaMatch {
+	qaSourceId: string;
+	question: string;
+	answer: string; // may be HTML
+	score: number;
+}
+
+type QaMatchRow = {
+	qa_source_id: string;
+	question: string;
+	answer: string;
+	score: number;
+};
+
+export interface SearchOptions {
+	limit?: number;
+	mode?: RetrievalMode;
+	// Minimum cosine similarity for vector matches; keyword matches are exact term hits and always kept
+	minScore?: number;
+	// Score multipliers per source type (default 1); 0 leaves a source type out
+	sourceWeights?: Partial<Record<SourceType, number>>;
+	// Stop adding chunks once their combined size would exceed this many tokens
+	maxContextTokens?: number;
+	// Re-scores the top rerankCandidates matches before the final limit is applied
+	reranker?: Reranker;
+	rerankCandidates?: number;
+}
 
 export interface VectorClient {
-	search(query: string, agentId: string, limit?: number): Promise<VectorSearchResult[]>;
+	// Several queries (e.g. rewritten variants) are searched separately and merged into one ranking
+	search(
+		query: string | string[],
+		agentId: string,
+		options?: SearchOptions,
+	): Promise<VectorSearchResult[]>;
 }
 
-export class VectorSearchClient implements VectorClient {
-	async search(query: string, agentId: string, limit = 5): Promise<VectorSearchResult[]> {
-		const db = getDb();
-		const embedding = await createQueryEmbedding(query);
+type SQL = ReturnType<typeof sql>;
+
+type SearchRow = {
+	id: string;
+	content: string;
+	score: number;
+	source_type: SourceType;
+	source_id: string;
+	source_title: string;
+	source_url: string | null;
+	source_version: number | null;
+};
+
+// Each ranking contributes 1 / (k + rank); 60 is the constant from the original RRF paper
+const RRF_K = 60;
+
+// Hybrid mode, multiple queries and source weighting re-rank a wider candidate pool before
+// taking the top results
+const CANDIDATE_MULTIPLIER = 4;
+
+export function applySourceWeights(
+	results: VectorSearchResult[],
+	weights: Partial<Record<SourceType, number>>,
+): VectorSearchResult[] {
+	return results
+		.map((r) => ({ ...r, score: r.score * (r.source ? (weights[r.source.type] ?? 1) : 1) }))
+		.filter((r) => r.score > 0)
+		.sort((a, b) => b.score - a.score);
+}
 
-		// Skip vector search if embeddings are unavailable
-		if (!embedding || embedding.length === 0) {
-			return [];
+// Keep results in rank order until the token budget is used up
+export function fitTokenBudget(
+	results: VectorSearchResult[],
+	maxTokens: number,
+): VectorSearchResult[] {
+	const kept: VectorSearchResult[] = [];
+	let used = 0;
+	for (const result of results) {
+		used += estimateTokens(result.content);
+		if (used > maxTokens) {
+			break;
 		}
+		kept.push(result);
+	}
+	return kept;
+}
 
-		const embeddingStr = `[${embedding.join(",")}]`;
+// Question text as compared for exact Q&A matches: lowercase letters and digits of any script.
+// matchQa does the same to stored questions in SQL with [^[:alnum:]].
+export function normalizeQuestion(text: string): string {
+	return text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, "");
+}
+
+export function reciprocalRankFusion(
+	rankings: VectorSearchResult[][],
+	limit: number,
+): VectorSearchResult[] {
+	const fused = new Map<string, VectorSearchResult>();
+	for (const ranking of rankings) {
+		ranking.forEach((result, rank) => {
+			const score = 1 / (RRF_K + rank + 1);
+			const existing = fused.get(result.id);
+			fused.set(result.id, { ...result, score: (existing?.score ?? 0) + score });
+		});
+	}
+	return [...fused.values()].sort((a, b) => b.score - a.score).slice(0, limit);
+}
 
-		// Search document_chunks, text_source_chunks, qa_source_chunks, and web_source_page_chunks for the specific agent
-		const results = await db.execute<{
-			id: string;
-			content: string;
-			score: number;
-		}>(sql`
-      (SELECT dc.id, dc.content, 1 - (dc.embedding <=> ${embeddingStr}::vector) as score
-       FROM document_chunks dc
-       JOIN documents d ON dc.document_id = d.id
-       WHERE dc.embedding IS NOT NULL AND d.agent_id = ${agentId}::uuid)
+// Search document_chunks, text_source_chunks, qa_source_chunks, and web_source_page_chunks for the specific agent,
+// returning where each chunk came from so answers can cite it. Every branch aliases its chunk table as `c`
+// so `score` and `filter` apply to all four.
+async function searchChunks(
+	agentId: string,
+	score: SQL,
+	filter: SQL,
+	limit: number,
+): Promise<VectorSearchResult[]> {
+	const db = getDb();
+	const results = await db.execute<SearchRow>(sql`
+      (SELECT c.id, c.content, ${score} as score,
+              'document' as source_type, d.id as source_id, d.filename as source_title, NULL as source_url,
+              d.version as source_version
+       FROM document_chunks c
+       JOIN documents d ON c.document_id = d.id
+       WHERE ${filter} AND d.agent_id = ${agentId}::uuid)
       UNION ALL
-      (SELECT tsc.id, tsc.content, 1 - (tsc.embedding <=> ${embeddingStr}::vector) as score
-       FROM text_source_chunks tsc
-       JOIN text_sources ts ON tsc.text_source_id = ts.id
-       WHERE tsc.embedding IS NOT NULL AND ts.agent_id = ${agentId}::uuid)
+      (SELECT c.id, c.content, ${score} as score,
+              'text' as source_type, ts.id as source_id, ts.title as source_title, NULL as source_url,
+              NULL::integer as source_version
+       FROM text_source_chunks c
+       JOIN text_sources ts ON c.text_source_id = ts.id
+       WHERE ${filter} AND ts.agent_id = ${agentId}::uuid)
       UNION ALL
-      (SELECT qsc.id, qsc.content, 1 - (qsc.embedding <=> ${embeddingStr}::vector) as score
-       FROM qa_source_chunks qsc
-       JOIN qa_sources qs ON qsc.qa_source_id = qs.id
-       WHERE qsc.embedding IS NOT NULL AND qs.agent_id = ${agentId}::uuid)
+      (SELECT c.id, c.content, ${score} as score,
+              'qa' as source_type, qs.id as source_id, c.question as source_title, NULL as source_url,
+              NULL::integer as source_version
+       FROM qa_source_chunks c
+       JOIN qa_sources qs ON c.qa_source_id = qs.id
+       WHERE ${filter} AND qs.agent_id = ${agentId}::uuid)
       UNION ALL
-      (SELECT wspc.id, wspc.content, 1 - (wspc.embedding <=> ${embeddingStr}::vector) as score
-       FROM web_source_page_chunks wspc
-       JOIN web_source_pages wsp ON wspc.web_source_page_id = wsp.id
+      (SELECT c.id, c.content, ${score} as score,
+              'web' as source_type, wsp.id as source_id, COALESCE(wsp.title, wsp.url) as source_title, wsp.url as source_url,
+              NULL::integer as source_version
+       FROM web_source_page_chunks c
+       JOIN web_source_pages wsp ON c.web_source_page_id = wsp.id
        JOIN web_sources ws ON wsp.web_source_id = ws.id
-       WHERE wspc.embedding IS NOT NULL AND ws.agent_id = ${agentId}::uuid AND wsp.status = 'crawled')
+       WHERE ${filter} AND ws.agent_id = ${agentId}::uuid AND wsp.status = 'crawled')
       ORDER BY score DESC
       LIMIT ${limit}
     `);
 
-		return (results as unknown as { id: string; content: string; score: number }[]).map((r) => ({
-			id: r.id,
-			content: r.content,
-			score: Number(r.score),
-		}));
+	return (results as unknown as SearchRow[]).map((r) => ({
+		id: r.id,
+		content: r.content,
+		score: Number(r.score),
+		source: {
+			type: r.source_type,
+			sourceId: r.source_id,
+			title: r.source_title,
+			...(r.source_url && { url: r.source_url }),
+			...(r.source_version !== null && { version: r.source_version }),
+		},
+	}));
+}
+
+async function queryEmbeddingOrNull(query: string): Promise<number[] | null> {
+	try {
+		return await createQueryEmbedding(query);
+	} catch (error) {
+		console.error("[vector] Query embedding failed, searching without vectors:", error);
+		return null;
+	}
+}
+
+export class VectorSearchClient implements VectorClient {
+	async search(
+		query: string | string[],
+		agentId: string,
+		options: SearchOptions = {},
+	): Promise<VectorSearchResult[]> {
+		const {
+			limit = 5,
+			mode = "vector",
+			minScore = 0,
+			sourceWeights = {},
+			maxContextTokens,
+			reranker,
+			rerankCandidates = DEFAULT_RETRIEVAL_SETTINGS.rerankCandidates,
+		} = options;
+
+		const queries = Array.isArray(query) ? query : [query];
+		const weighted = Object.values(sourceWeights).some((w) => w !== 1);
+		let candidates =
+			mode === "hybrid" || weighted || queries.length > 1 ? limit * CANDIDATE_MULTIPLIER : limit;
+		if (reranker) {
+			candidates = Math.max(candidates, rerankCandidates);
+		}
+
+		const rankings = await Promise.all(
+			queries.map((q) => this.rank(q, agentId, mode, candidates, minScore)),
+		);
+		let results = rankings.length === 1 ? rankings[0] : reciprocalRankFusion(rankings, candidates);
+		if (reranker) {
+			try {
+				results = await reranker.rerank(queries[0], results);
+			} catch (err) {
+				// Fall back to the retrieval order rather than failing the chat
+				console.warn("[vector] Reranking failed, keeping retrieval order:", err);
+			}
+		}
+		if (weighted) {
+			results = applySourceWeights(results, sourceWeights);
+		}
+		results = results.slice(0, limit);
+
+		return maxContextTokens ? fitTokenBudget(results, maxContextTokens) : results;
+	}
+
+	private async rank(
+		query: string,
+		agentId: string,
+		mode: RetrievalMode,
+		limit: number,
+		minScore: number,
+	): Promise<VectorSearchResult[]> {
+		if (mode === "keyword") {
+			return this.keywordSearch(query, agentId, limit);
+		}
+
+		// Fall back to keyword search rather than returning nothing while embeddings are unavailable
+		const embedding = await queryEmbeddingOrNull(query);
+		if (!embedding) {
+			return this.keywordSearch(query, agentId, limit);
+		}
+
+		if (mode === "vector") {
+			return this.vectorSearch(embedding, agentId, limit, minScore);
+		}
+
+		const [vectorResults, keywordResults] = await Promise.all([
+			this.vectorSearch(embedding, agentId, limit, minScore),
+			this.keywordSearch(query, agentId, limit),
+		]);
+		return reciprocalRankFusion([vectorResults, keywordResults], limit);
+	}
+
+	// Best Q&A question scoring at least `threshold`: 1 for the same text (ignoring case and
+	// punctuation), otherwise the cosine similarity of the question embeddings. With exactOnly,
+	// for question embeddings from another model, the query isn't embedded.
+	async matchQa(
+		query: string,
+		agentId: string,
+		threshold: number,
+		exactOnly = false,
+	): Promise<QaMatch | null> {
+		const db = getDb();
+		// Without an embedding only exact question matches count
+		const embedding = exactOnly ? null : await queryEmbeddingOrNull(query);
+		const similarity = embedding
+			? sql`COALESCE(1 - (c.question_embedding <=> ${`[${embedding.join(",")}]`}::vector), 0)`
+			: sql`0`;
+		const normalizedQuery = normalizeQuestion(query);
+		// A query of only punctuation would equal every question that normalises to nothing
+		const exact = normalizedQuery
+			? sql`regexp_replace(lower(c.question), '[^[:alnum:]]+', '', 'g') = ${normalizedQuery}`
+			: sql`false`;
+
+		const results = await db.execute<QaMatchRow>(sql`
+      SELECT * FROM (
+        SELECT qs.id as qa_source_id, c.question, qs.answer,
+               CASE WHEN ${exact} THEN 1 ELSE ${similarity} END as score
+        FROM qa_source_chunks c
+        JOIN qa_sources qs ON c.qa_source_id = qs.id
+        WHERE qs.agent_id = ${agentId}::uuid
+      ) matches
+      WHERE score >= ${threshold}
+      ORDER BY score DESC
+      LIMIT 1
+    `);
+
+		const [match] = results as unknown as QaMatchRow[];
+		if (!match) {
+			return null;
+		}
+		return {
+			qaSourceId: match.qa_source_id,
+			question: match.question,
+			answer: match.answer,
+			score: Number(match.score),
+		};
+	}
+
+	private vectorSearch(
+		embedding: number[],
+		agentId: string,
+		limit: number,
+		minScore: number,
+	): Promise<VectorSearchResult[]> {
+		const embeddingStr = `[${embedding.join(",")}]`;
+		const similarity = sql`1 - (c.embedding <=> ${embeddingStr}::vector)`;
+		return searchChunks(
+			agentId,
+			similarity,
+			minScore > 0
+				? sql`c.embedding IS NOT NULL AND ${similarity} >= ${minScore}`
+				: sql`c.embedding IS NOT NULL`,
+			limit,
+		);
+	}
+
+	// websearch_to_tsquery accepts free text (quotes, OR, -exclusions) without syntax errors
+	private keywordSearch(
+		query: string,
+		agentId: string,
+		limit: number,
+	): Promise<VectorSearchResult[]> {
+		const tsquery = sql`websearch_to_tsquery('english', ${query})`;
+		return searchChunks(
+			agentId,
+			sql`ts_rank_cd(c.search_vector, ${tsquery})`,
+			sql`c.search_vector @@ ${tsquery}`,
+			limit,
+		);
 	}
 }
 
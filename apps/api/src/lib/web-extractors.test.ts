@@ -0,0 +1,188 @@
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { BlockedUrlError } from "./safe-fetch";
+import {
+	createWebExtractor,
+	DEFAULT_USER_AGENT,
+	FallbackWebExtractor,
+	NativeWebExtractor,
+	PageFetchError,
+	parseJinaResponse,
+} from "./web-extractors";
+
+// Pages served by the local fixture server: [content type, body]
+const FIXTURES: Record<string, [string, string | Buffer]> = {
+	"/article": [
+		"text/html; charset=utf-8",
+		`<html><head><title>Returns &amp; refunds | Acme Help</title></head><body>
+			<header><a href="/">Acme</a><nav><a href="/help">Help</a></nav></header>
+			<div class="cookie-banner">We use cookies. <button>Accept</button></div>
+			<main>
+				<h1>Returns &amp; refunds</h1>
+				<p>Refunds take 5 days.</p>
+				<div class="share-buttons"><a href="#">Share</a></div>
+				<p>Items must be unused.</p>
+			</main>
+			<aside class="sidebar"><h3>Popular</h3><p>Shipping</p></aside>
+			<footer>© Acme</footer>
+		</body></html>`,
+	],
+	"/no-main": [
+		"text/html",
+		`<html><body>
+			<div class="layout has-sidebar">
+				<ul><li><a href="/a">Pricing</a></li><li><a href="/b">Blog</a></li><li><a href="/c">Docs</a></li></ul>
+				<div class="sidebar"><p>Newsletter signup</p></div>
+				<h1>Getting started</h1>
+				<p>Install the widget with one script tag.</p>
+				<ul><li>Copy the snippet</li><li>Paste it before &lt;/body&gt;</li></ul>
+			</div>
+		</body></html>`,
+	],
+	"/latin1": [
+		"text/html; charset=iso-8859-1",
+		Buffer.from("<html><body><article><p>Café menu</p></article></body></html>", "latin1"),
+	],
+	"/notes.txt": ["text/plain", "Opening hours: 9 to 5."],
+	"/logo.png": ["image/png", Buffer.from([0x89, 0x50, 0x4e, 0x47])],
+	"/empty": ["text/html", "<html><body><nav><a href='/'>Home</a></nav></body></html>"],
+};
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+	server = createServer((req, res) => {
+		if (req.url === "/moved") {
+			res.writeHead(301, { Location: "/notes.txt" }).end();
+			return;
+		}
+		if (req.url === "/cached") {
+			const headers = { ETag: '"v2"', "Last-Modified": "Tue, 01 Oct 2024 09:00:00 GMT" };
+			if (req.headers["if-none-match"] === '"v2"') {
+				res.writeHead(304, headers).end();
+				return;
+			}
+			res.writeHead(200, { ...headers, "Content-Type": "text/plain" }).end("Version 2");
+			return;
+		}
+		if (req.url === "/gone") {
+			res.writeHead(410).end();
+			return;
+		}
+		const fixture = FIXTURES[req.url ?? ""];
+		if (!fixture) {
+			res.writeHead(404).end("Not found");
+			return;
+		}
+		res.writeHead(200, { "Content-Type": fixture[0] }).end(fixture[1]);
+	});
+	await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+	baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+	await new Promise((resolve) => server.close(resolve));
+});
+
+describe("NativeWebExtractor", () => {
+	// The fixture server is on loopback
+	const extractor = new NativeWebExtractor(DEFAULT_USER_AGENT, 5000, true);
+
+	it("keeps the main content and takes the title from <title>", async () => {
+		const page = await extractor.extract(`${baseUrl}/article`);
+
+		expect(page?.title).toBe("Returns & refunds | Acme Help");
+		expect(page?.content).toBe(
+			"# Returns & refunds\n\nRefunds take 5 days.\n\nItems must be unused.",
+		);
+	});
+
+	it("drops menus and sidebars from pages without a <main>", async () => {
+		const page = await extractor.extract(`${baseUrl}/no-main`);
+
+		expect(page?.title).toBe("Getting started");
+		expect(page?.content).toBe(
+			"# Getting started\n\nInstall the widget with one script tag.\n\n- Copy the snippet\n- Paste it before </body>",
+		);
+	});
+
+	it("decodes the declared charset", async () => {
+		const page = await extractor.extract(`${baseUrl}/latin1`);
+
+		expect(page?.content).toBe("Café menu");
+	});
+
+	it("follows redirects and reads plain text", async () => {
+		const page = await extractor.extract(`${baseUrl}/moved`);
+
+		expect(page).toEqual({ title: "notes.txt", content: "Opening hours: 9 to 5." });
+	});
+
+	it("makes conditional requests with the validators of the last fetch", async () => {
+		const page = await extractor.extract(`${baseUrl}/cached`);
+
+		expect(page).toMatchObject({
+			content: "Version 2",
+			etag: '"v2"',
+			lastModified: "Tue, 01 Oct 2024 09:00:00 GMT",
+		});
+		expect(await extractor.extract(`${baseUrl}/cached`, { etag: '"v2"' })).toBeNull();
+		expect(await extractor.extract(`${baseUrl}/cached`, { etag: '"v1"' })).toMatchObject({
+			content: "Version 2",
+		});
+	});
+
+	it("reports the status of pages that are gone", async () => {
+		const error = await extractor.extract(`${baseUrl}/gone`).catch((error) => error);
+
+		expect(error).toBeInstanceOf(PageFetchError);
+		expect(error.status).toBe(410);
+	});
+
+	it("refuses private addresses unless allowed", async () => {
+		const extractor = new NativeWebExtractor(DEFAULT_USER_AGENT, 5000, false);
+
+		await expect(extractor.extract(`${baseUrl}/article`)).rejects.toThrow(BlockedUrlError);
+		await expect(extractor.extract("http://169.254.169.254/latest/meta-data/")).rejects.toThrow(
+			"non-public address 169.254.169.254",
+		);
+	});
+
+	it("fails on errors, unsupported types and pages without text", async () => {
+		await expect(extractor.extract(`${baseUrl}/missing`)).rejects.toThrow("404");
+		await expect(extractor.extract(`${baseUrl}/logo.png`)).rejects.toThrow(
+			"Unsupported content type image/png",
+		);
+		await expect(extractor.extract(`${baseUrl}/empty`)).rejects.toThrow("No readable content");
+	});
+});
+
+describe("parseJinaResponse", () => {
+	it("splits Jina Reader's title from the Markdown", () => {
+		const text =
+			"Title: Pricing\n\nURL Source: https://example.com/pricing\n\nMarkdown Content:\n# Plans\n\nPro is $20.";
+
+		expect(parseJinaResponse("https://example.com/pricing", text)).toEqual({
+			title: "Pricing",
+			content: "# Plans\n\nPro is $20.",
+		});
+	});
+});
+
+describe("createWebExtractor", () => {
+	it("uses the native extractor by default", () => {
+		expect(createWebExtractor({}).id).toBe("native");
+	});
+
+	it("chains extractors listed in WEB_EXTRACTOR", () => {
+		const extractor = createWebExtractor({ WEB_EXTRACTOR: "native, jina" });
+
+		expect(extractor).toBeInstanceOf(FallbackWebExtractor);
+		expect(extractor.id).toBe("native,jina");
+		expect(() => createWebExtractor({ WEB_EXTRACTOR: "browser" })).toThrow(
+			'Unknown WEB_EXTRACTOR "browser"',
+		);
+	});
+});
@@ -0,0 +1,216 @@
+import { extractText, resolveMimeType } from "./extractors";
+import { extractTitle, htmlToMarkdown, removeBoilerplate } from "./html";
+import { allowPrivateUrls, fetchPublicUrl } from "./safe-fetch";
+
+// Web page extractors turn a URL into a title and Markdown content for web sources. WEB_EXTRACTOR
+// picks one, or several separated by commas to try in order:
+// - "native" fetches the page from this server and keeps its main content (the default)
+// - "jina" sends the URL to Jina Reader (r.jina.ai), which renders JavaScript-heavy pages but is
+//   a third party that sees every crawled URL
+
+export interface ExtractedPage {
+	title: string;
+	content: string; // Markdown
+	html?: string; // the page as fetched, for link discovery; native extractor only
+	etag?: string;
+	lastModified?: string;
+}
+
+// Validators from an earlier fetch of a page, for a conditional request
+export interface PageValidators {
+	etag?: string | null;
+	lastModified?: string | null;
+}
+
+export interface WebExtractor {
+	readonly id: string;
+	// Resolves to null when the page is unchanged since the validators were issued (HTTP 304)
+	extract(url: string, validators?: PageValidators): Promise<ExtractedPage | null>;
+}
+
+// The server answered with an error status; 404 and 410 mean the page is gone
+export class PageFetchError extends Error {
+	constructor(
+		url: string,
+		readonly status: number,
+	) {
+		super(`Failed to fetch ${url}: ${status}`);
+		this.name = "PageFetchError";
+	}
+}
+
+export const DEFAULT_USER_AGENT = "VelaBot/1.0 (+https://usevela.ai)";
+
+const TIMEOUT_MS = 30_000;
+const MAX_PAGE_BYTES = 10 * 1024 * 1024;
+
+// Decodes a response body in the charset its Content-Type or <meta> declares
+function decodeBody(data: Buffer, contentType: string): string {
+	const declared =
+		contentType.match(/charset=["']?([\w-]+)/i)?.[1] ??
+		data
+			.subarray(0, 2048)
+			.toString("latin1")
+			.match(/<meta[^>]+charset=["']?([\w-]+)/i)?.[1];
+	try {
+		return new TextDecoder(declared || "utf-8").decode(data);
+	} catch {
+		return data.toString("utf-8");
+	}
+}
+
+// Fetches pages itself. HTML is reduced to its main content, readability-style; plain text,
+// Markdown and documents such as PDFs linked from a site go through the upload extractors.
+// Private addresses are refused unless allowPrivate is set (see safe-fetch.ts).
+export class NativeWebExtractor implements WebExtractor {
+	readonly id = "native";
+
+	constructor(
+		private userAgent = DEFAULT_USER_AGENT,
+		private timeoutMs = TIMEOUT_MS,
+		private allowPrivate = allowPrivateUrls(),
+	) {}
+
+	async extract(url: string, validators: PageValidators = {}): Promise<ExtractedPage | null> {
+		const response = await fetchPublicUrl(
+			url,
+			{
+				headers: {
+					Accept: "text/html,application/xhtml+xml,text/plain;q=0.9,*/*;q=0.8",
+					"User-Agent": this.userAgent,
+					...(validators.etag && { "If-None-Match": validators.etag }),
+					...(validators.lastModified && { "If-Modified-Since": validators.lastModified }),
+				},
+				signal: AbortSignal.timeout(this.timeoutMs),
+			},
+			this.allowPrivate,
+		);
+
+		if (response.status === 304) {
+			return null;
+		}
+		if (!response.ok) {
+			throw new PageFetchError(url, response.status);
+		}
+		if (Number(response.headers.get("content-length")) > MAX_PAGE_BYTES) {
+			throw new Error(`${url} is too large`);
+		}
+
+		const contentType = response.headers.get("content-type") ?? "";
+		const data = Buffer.from(await response.arrayBuffer());
+		if (data.length > MAX_PAGE_BYTES) {
+			throw new Error(`${url} is too large`);
+		}
+
+		// Kept so the next crawl can ask whether the page changed
+		const etag = response.headers.get("etag");
+		const lastModified = response.headers.get("last-modified");
+		const cacheValidators = { ...(etag && { etag }), ...(lastModified && { lastModified }) };
+
+		const mimeType = contentType.split(";")[0].trim().toLowerCase();
+		if (mimeType === "text/html" || mimeType === "application/xhtml+xml" || !mimeType) {
+			const html = decodeBody(data, contentType);
+			const content = htmlToMarkdown(removeBoilerplate(html));
+			if (!content) {
+				throw new Error(`No readable content at ${url}`);
+			}
+			return { title: extractTitle(html) ?? url, content, html, ...cacheValidators };
+		}
+
+		const filename = new URL(response.url || url).pathname;
+		const supported = resolveMimeType(mimeType, filename);
+		if (!supported) {
+			throw new Error(`Unsupported content type ${mimeType} at ${url}`);
+		}
+		const content = (await extractText(data, supported)).trim();
+		if (!content) {
+			throw new Error(`No readable content at ${url}`);
+		}
+		const name = decodeURIComponent(filename.split("/").pop() ?? "");
+		return { title: name || url, content, ...cacheValidators };
+	}
+}
+
+// Jina Reader's text response: "Title: ..." and "URL Source: ..." lines, then the page as
+// Markdown after "Markdown Content:"
+export function parseJinaResponse(url: string, text: string): ExtractedPage {
+	const title = text.match(/^Title:\s*(.+)$/m)?.[1].trim();
+	const marker = text.indexOf("Markdown Content:");
+	const content = (marker === -1 ? text : text.slice(marker + "Markdown Content:".length)).trim();
+	return { title: title || url, content };
+}
+
+export class JinaWebExtractor implements WebExtractor {
+	readonly id = "jina";
+
+	constructor(private apiKey?: string) {}
+
+	async extract(url: string): Promise<ExtractedPage> {
+		const response = await fetch(`https://r.jina.ai/${encodeURIComponent(url)}`, {
+			headers: {
+				Accept: "text/plain",
+				...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+			},
+			signal: AbortSignal.timeout(TIMEOUT_MS),
+		});
+
+		if (!response.ok) {
+			throw new PageFetchError(url, response.status);
+		}
+
+		return parseJinaResponse(url, await response.text());
+	}
+}
+
+// Tries each extractor in turn, e.g. Jina for the pages the native extractor finds no text in
+export class FallbackWebExtractor implements WebExtractor {
+	readonly id: string;
+
+	constructor(private extractors: WebExtractor[]) {
+		this.id = extractors.map((extractor) => extractor.id).join(",");
+	}
+
+	async extract(url: string, validators?: PageValidators): Promise<ExtractedPage | null> {
+		let lastError: unknown;
+		for (const extractor of this.extractors) {
+			try {
+				return await extractor.extract(url, validators);
+			} catch (error) {
+				lastError = error;
+			}
+		}
+		throw lastError;
+	}
+}
+
+type WebExtractorEnv = Record<string, string | undefined>;
+
+// The user agent pages and robots.txt are fetched with
+export function webUserAgent(env: WebExtractorEnv = process.env): string {
+	return env.WEB_USER_AGENT || DEFAULT_USER_AGENT;
+}
+
+export function createWebExtractor(env: WebExtractorEnv = process.env): WebExtractor {
+	const ids = (env.WEB_EXTRACTOR || "native").split(",").map((id) => id.trim());
+	const extractors = ids.map((id): WebExtractor => {
+		switch (id) {
+			case "native":
+				return new NativeWebExtractor(webUserAgent(env), TIMEOUT_MS, allowPrivateUrls(env));
+			case "jina":
+				return new JinaWebExtractor(env.JINA_API_KEY);
+			default:
+				throw new Error(`Unknown WEB_EXTRACTOR "${id}"`);
+		}
+	});
+	return extractors.length === 1 ? extractors[0] : new FallbackWebExtractor(extractors);
+}
+
+let extractor: WebExtractor | null = null;
+
+export function getWebExtractor(): WebExtractor {
+	if (!extractor) {
+		extractor = createWebExtractor();
+		console.log(`[crawler] Extracting web pages with ${extractor.id}`);
+	}
+	return extractor;
+}
@@ -0,0 +1,24 @@
+// Loads .env; imported first by the entrypoints, before any module that reads env vars
+import { existsSync } from "node:fs";
+import { dirname, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import { config } from "dotenv";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+// Try to find .env in multiple locations
+const possiblePaths = [
+	resolve(process.cwd(), ".env"), // Root when running from root
+	resolve(process.cwd(), "../../.env"), // Root when running from apps/api
+	resolve(__dirname, "../../../..", ".env"), // Relative to this file
+	resolve(__dirname, "..", ".env"), // apps/api/.env
+];
+
+const envPath = possiblePaths.find((p) => existsSync(p));
+if (envPath) {
+	console.log(`[api] Loading .env from: ${envPath}`);
+	config({ path: envPath });
+} else {
+	console.warn("[api] No .env file found");
+	config();
+}
@@ -1,4 +1,5 @@
 import {
+	type Agent,
 	agents,
 	and,
 	count,
@@ -11,18 +12,28 @@ import {
 } from "@vela/db";
 import { Hono } from "hono";
 import { z } from "zod";
+import { encryptSecret } from "../lib/crypto";
+import { getEmbeddingModelId } from "../lib/embeddings";
 import { getAgentLimit } from "../lib/plans";
+import {
+	getConfiguredProviderIds,
+	listProviderModels,
+	PROVIDER_IDS,
+	PROVIDERS,
+	type ProviderId,
+} from "../lib/providers";
+import { enqueueJob } from "../lib/queue";
+import {
+	getLatestReindexJob,
+	needsReindex,
+	retryFailedEmbeddings,
+	startReindex,
+} from "../lib/reindex";
+import { RERANKER_IDS, type RerankerId } from "../lib/rerank";
+import { RETRIEVAL_MODES, type RetrievalMode } from "../lib/vector";
 
 const agentsRoute = new Hono();
 
-const SUPPORTED_MODELS = [
-	"claude-sonnet-4-20250514",
-	"claude-opus-4-20250514",
-	"gpt-4o",
-	"gpt-4o-mini",
-	"gpt-4-turbo",
-] as const;
-
 // Generate URL-friendly slug from name
 function generateSlug(name: string): string {
 	return name
@@ -32,19 +43,80 @@ function generateSlug(name: string): string {
 		.slice(0, 50);
 }
 
+const providerIdSchema = z.enum(PROVIDER_IDS as [ProviderId, ...ProviderId[]]);
+
+// Ordered list of models to try when the primary one fails
+const fallbackModelsSchema = z
+	.array(z.object({ provider: providerIdSchema, model: z.string().min(1, "model required") }))
+	.max(5, "at most 5 fallback models");
+
+const sourceWeightSchema = z.number().min(0).max(5);
+
+const retrievalSettingsSchema = z
+	.object({
+		topK: z.number().int().min(1).max(20),
+		minScore: z.number().min(0).max(1),
+		sourceWeights: z
+			.object({
+				document: sourceWeightSchema,
+				text: sourceWeightSchema,
+				qa: sourceWeightSchema,
+				web: sourceWeightSchema,
+			})
+			.partial(),
+		maxContextTokens: z.number().int().min(500).max(32000),
+		// null turns Q&A matching off
+		qaMatchThreshold: z.number().min(0).max(1).nullable(),
+		qaSkipLlm: z.boolean(),
+		queryRewrite: z.boolean(),
+		queryVariants: z.number().int().min(1).max(5),
+		reranker: z.enum(RERANKER_IDS as [RerankerId, ...RerankerId[]]),
+		rerankCandidates: z.number().int().min(5).max(100),
+	})
+	.partial();
+
+// In embedding-model tokens; mxbai-embed-large reads at most 512, Voyage models far more
+const chunkSizeSchema = z
+	.number()
+	.int()
+	.min(32, "chunk size too small")
+	.max(8192, "chunk size too large");
+const chunkOverlapSchema = z.number().int().min(0).max(1024, "chunk overlap too large");
+
 const createAgentSchema = z.object({
 	name: z.string().min(1, "name required").max(100, "name too long"),
 	model: z.string().min(1, "model required"),
+	provider: providerIdSchema.nullable().default(null),
+	providerBaseUrl: z.string().url("invalid provider base URL").nullable().default(null),
+	providerApiKey: z.string().min(1).nullable().default(null),
+	fallbackModels: fallbackModelsSchema.default([]),
 	temperature: z.number().min(0).max(100).default(50),
 	systemPrompt: z.string().min(1, "system prompt required").default("You are a helpful assistant."),
+	maxToolSteps: z.number().int().min(1).max(20).default(5),
+	retrievalMode: z.enum(RETRIEVAL_MODES as [RetrievalMode, ...RetrievalMode[]]).default("vector"),
+	retrievalSettings: retrievalSettingsSchema.default({}),
+	chunkSize: chunkSizeSchema.default(256),
+	chunkOverlap: chunkOverlapSchema.default(50),
 	isDefault: z.boolean().default(false),
 });
 
 const updateAgentSchema = z.object({
 	name: z.string().min(1, "name required").max(100, "name too long").optional(),
 	model: z.string().min(1, "model required").optional(),
+	provider: providerIdSchema.nullable().optional(),
+	providerBaseUrl: z.string().url("invalid provider base URL").nullable().optional(),
+	// null clears the stored key, omitted keeps it
+	providerApiKey: z.string().min(1).nullable().optional(),
+	fallbackModels: fallbackModelsSchema.optional(),
 	temperature: z.number().min(0).max(100).optional(),
 	systemPrompt: z.string().min(1, "system prompt required").optional(),
+	maxToolSteps: z.number().int().min(1).max(20).optional(),
+	retrievalMode: z.enum(RETRIEVAL_MODES as [RetrievalMode, ...RetrievalMode[]]).optional(),
+	// Merged into the stored settings
+	retrievalSettings: retrievalSettingsSchema.optional(),
+	// Changing either re-chunks and re-embeds the agent's sources
+	chunkSize: chunkSizeSchema.optional(),
+	chunkOverlap: chunkOverlapSchema.optional(),
 	isDefault: z.boolean().optional(),
 });
 
@@ -54,6 +126,16 @@ function getUserId(c: { get: (key: string) => unknown }): string | null {
 	return user?.id ?? null;
 }
 
+// Strip the encrypted provider key before returning an agent to clients
+function serializeAgent(agent: Agent) {
+	const { providerApiKey, ...rest } = agent;
+	return {
+		...rest,
+		hasProviderApiKey: !!providerApiKey,
+		needsReindex: needsReindex(agent.embeddingModel),
+	};
+}
+
 // List all agents for the authenticated user
 agentsRoute.get("/", async (c) => {
 	const userId = getUserId(c);
@@ -68,7 +150,7 @@ agentsRoute.get("/", async (c) => {
 		.where(eq(agents.userId, userId))
 		.orderBy(desc(agents.isDefault), desc(agents.createdAt));
 
-	return c.json(allAgents);
+	return c.json(allAgents.map(serializeAgent));
 });
 
 // Get agent limits for the authenticated user
@@ -118,28 +200,17 @@ agentsRoute.get("/limits", async (c) => {
 	});
 });
 
-// Get supported models
+// Get supported models, grouped by configured provider
 agentsRoute.get("/models", async (c) => {
-	const isSelfHosted = process.env.SELF_HOSTED === "true";
-	const models: string[] = [...SUPPORTED_MODELS];
-
-	// Add local models when self-hosted
-	if (isSelfHosted && process.env.OPENAI_API_BASE) {
-		try {
-			// Fetch available models from Ollama-compatible endpoint
-			const response = await fetch(`${process.env.OPENAI_API_BASE}/models`);
-			if (response.ok) {
-				const data = (await response.json()) as { data?: { id: string }[] };
-				const localModels = data.data?.map((m) => m.id) || [];
-				// Add local models with a prefix to identify them
-				models.push(...localModels);
-			}
-		} catch (err) {
-			console.warn("[agents] Failed to fetch local models:", err);
-		}
-	}
-
-	return c.json(models);
+	const groups = await Promise.all(
+		getConfiguredProviderIds().map(async (id) => ({
+			provider: id,
+			label: PROVIDERS[id].label,
+			models: await listProviderModels(id),
+		})),
+	);
+
+	return c.json(groups);
 });
 
 // Get single agent by ID (must belong to user)
@@ -161,7 +232,7 @@ agentsRoute.get("/:id", async (c) => {
 		return c.json({ error: "agent not found" }, 404);
 	}
 
-	return c.json(agent);
+	return c.json(serializeAgent(agent));
 });
 
 // Get agent by slug (for public chat embeds - no auth required)
@@ -203,10 +274,10 @@ agentsRoute.get("/default/config", async (c) => {
 		if (!firstAgent) {
 			return c.json({ error: "no agents configured" }, 404);
 		}
-		return c.json(firstAgent);
+		return c.json(serializeAgent(firstAgent));
 	}
 
-	return c.json(agent);
+	return c.json(serializeAgent(agent));
 });
 
 // Create agent
@@ -223,7 +294,26 @@ agentsRoute.post("/", async (c) => {
 		return c.json({ error: parsed.error.issues[0].message }, 400);
 	}
 
-	const { name, model, temperature, systemPrompt, isDefault } = parsed.data;
+	const {
+		name,
+		model,
+		provider,
+		providerBaseUrl,
+		providerApiKey,
+		fallbackModels,
+		temperature,
+		systemPrompt,
+		maxToolSteps,
+		retrievalMode,
+		retrievalSettings,
+		chunkSize,
+		chunkOverlap,
+		isDefault,
+	} = parsed.data;
+
+	if (chunkOverlap >= chunkSize) {
+		return c.json({ error: "chunk overlap must be smaller than chunk size" }, 400);
+	}
 
 	const db = getDb();
 
@@ -285,8 +375,18 @@ agentsRoute.post("/", async (c) => {
 			name,
 			slug,
 			model,
+			provider,
+			providerBaseUrl,
+			providerApiKey: providerApiKey ? encryptSecret(providerApiKey) : null,
+			fallbackModels,
 			temperature,
 			systemPrompt,
+			maxToolSteps,
+			retrievalMode,
+			retrievalSettings,
+			chunkSize,
+			chunkOverlap,
+			embeddingModel: getEmbeddingModelId(),
 			isDefault,
 		})
 		.returning();
@@ -297,7 +397,7 @@ agentsRoute.post("/", async (c) => {
 		displayName: name,
 	});
 
-	return c.json(agent);
+	return c.json(serializeAgent(agent));
 });
 
 // Update agent
@@ -326,6 +426,12 @@ agentsRoute.put("/:id", async (c) => {
 		return c.json({ error: "agent not found" }, 404);
 	}
 
+	const chunkSize = parsed.data.chunkSize ?? existing.chunkSize;
+	const chunkOverlap = parsed.data.chunkOverlap ?? existing.chunkOverlap;
+	if (chunkOverlap >= chunkSize) {
+		return c.json({ error: "chunk overlap must be smaller than chunk size" }, 400);
+	}
+
 	// If setting as default, unset other defaults for this user
 	if (parsed.data.isDefault) {
 		await db.update(agents).set({ isDefault: false }).where(eq(agents.userId, userId));
@@ -353,17 +459,142 @@ agentsRoute.put("/:id", async (c) => {
 		}
 	}
 
+	const { providerApiKey, retrievalSettings, ...updates } = parsed.data;
+	// The stored key was given for the old endpoint and must not be sent to a new one
+	const baseUrlChanged =
+		updates.providerBaseUrl !== undefined &&
+		(updates.providerBaseUrl || null) !== (existing.providerBaseUrl || null);
+
 	const [updated] = await db
 		.update(agents)
 		.set({
-			...parsed.data,
+			...updates,
+			...(providerApiKey !== undefined && {
+				providerApiKey: providerApiKey ? encryptSecret(providerApiKey) : null,
+			}),
+			...(providerApiKey === undefined && baseUrlChanged && { providerApiKey: null }),
+			...(retrievalSettings && {
+				retrievalSettings: { ...existing.retrievalSettings, ...retrievalSettings },
+			}),
 			slug: newSlug,
 			updatedAt: new Date(),
 		})
 		.where(eq(agents.id, id))
 		.returning();
 
-	return c.json(updated);
+	// Apply new chunk settings to existing sources
+	if (chunkSize !== existing.chunkSize || chunkOverlap !== existing.chunkOverlap) {
+		await enqueueJob(
+			"rechunk_agent",
+			{ agentId: id },
+			{ agentId: id, sourceType: "agent", sourceId: id },
+		);
+	}
+
+	return c.json(serializeAgent(updated));
+});
+
+// Re-chunk and re-embed all of an agent's sources with its current chunk settings
+agentsRoute.post("/:id/rechunk", async (c) => {
+	const id = c.req.param("id");
+	const userId = getUserId(c);
+	if (!userId) {
+		return c.json({ error: "Unauthorized" }, 401);
+	}
+
+	const db = getDb();
+
+	const [agent] = await db
+		.select({ id: agents.id })
+		.from(agents)
+		.where(and(eq(agents.id, id), eq(agents.userId, userId)));
+
+	if (!agent) {
+		return c.json({ error: "agent not found" }, 404);
+	}
+
+	const job = await enqueueJob(
+		"rechunk_agent",
+		{ agentId: id },
+		{ agentId: id, sourceType: "agent", sourceId: id },
+	);
+
+	return c.json({ started: true, jobId: job.id }, 202);
+});
+
+// Latest re-index job, with the agent's embedding model and the configured one
+agentsRoute.get("/:id/reindex", async (c) => {
+	const id = c.req.param("id");
+	const userId = getUserId(c);
+	if (!userId) {
+		return c.json({ error: "Unauthorized" }, 401);
+	}
+
+	const db = getDb();
+
+	const [agent] = await db
+		.select({ embeddingModel: agents.embeddingModel })
+		.from(agents)
+		.where(and(eq(agents.id, id), eq(agents.userId, userId)));
+
+	if (!agent) {
+		return c.json({ error: "agent not found" }, 404);
+	}
+
+	return c.json({
+		embeddingModel: agent.embeddingModel,
+		configuredModel: getEmbeddingModelId(),
+		needsReindex: needsReindex(agent.embeddingModel),
+		job: await getLatestReindexJob(id),
+	});
+});
+
+// Re-embed all of an agent's chunks with the configured embedding model
+agentsRoute.post("/:id/reindex", async (c) => {
+	const id = c.req.param("id");
+	const userId = getUserId(c);
+	if (!userId) {
+		return c.json({ error: "Unauthorized" }, 401);
+	}
+
+	const db = getDb();
+
+	const [agent] = await db
+		.select({ id: agents.id })
+		.from(agents)
+		.where(and(eq(agents.id, id), eq(agents.userId, userId)));
+
+	if (!agent) {
+		return c.json({ error: "agent not found" }, 404);
+	}
+
+	const job = await startReindex(id);
+
+	return c.json(job, 202);
+});
+
+// Retry embedding chunks stored without vectors while the embedding provider was down
+agentsRoute.post("/:id/reembed", async (c) => {
+	const id = c.req.param("id");
+	const userId = getUserId(c);
+	if (!userId) {
+		return c.json({ error: "Unauthorized" }, 401);
+	}
+
+	const db = getDb();
+
+	const [agent] = await db
+		.select({ id: agents.id })
+		.from(agents)
+		.where(and(eq(agents.id, id), eq(agents.userId, userId)));
+
+	if (!agent) {
+		return c.json({ error: "agent not found" }, 404);
+	}
+
+	const result = await retryFailedEmbeddings(id);
+
+	return c.json(result, result.error ? 502 : 200);
 });
 
 // Delete agent
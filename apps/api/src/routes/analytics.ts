@@ -51,6 +51,7 @@ async function computeDailyStats(
 	messageCount: number;
 	thumbsUpCount: number;
 	thumbsDownCount: number;
+	qaHitCount: number;
 }> {
 	const dayStart = startOfDayUTC(date);
 	const dayEnd = new Date(dayStart);
@@ -81,6 +82,20 @@ async function computeDailyStats(
 			),
 		);
 
+	// Count answers served from matched Q&A on this day
+	const [qaResult] = await db
+		.select({ count: count() })
+		.from(chatMessages)
+		.innerJoin(conversations, eq(chatMessages.conversationId, conversations.id))
+		.where(
+			and(
+				eq(conversations.agentId, agentId),
+				sql`${chatMessages.qaSourceId} IS NOT NULL`,
+				gte(chatMessages.createdAt, dayStart),
+				lte(chatMessages.createdAt, dayEnd),
+			),
+		);
+
 	// Count feedback for messages belonging to this agent on this day
 	const feedbackResults = await db
 		.select({
@@ -107,6 +122,7 @@ async function computeDailyStats(
 		messageCount: Number(msgResult?.count) || 0,
 		thumbsUpCount: thumbsUp,
 		thumbsDownCount: thumbsDown,
+		qaHitCount: Number(qaResult?.count) || 0,
 	};
 }
 
@@ -208,6 +224,20 @@ analytics.get("/summary", async (c) => {
 				),
 			);
 
+		// Count answers served from matched Q&A in date range
+		const [qaResult] = await db
+			.select({ count: count() })
+			.from(chatMessages)
+			.innerJoin(conversations, eq(chatMessages.conversationId, conversations.id))
+			.where(
+				and(
+					eq(conversations.agentId, agentId),
+					sql`${chatMessages.qaSourceId} IS NOT NULL`,
+					gte(chatMessages.createdAt, start),
+					lte(chatMessages.createdAt, end),
+				),
+			);
+
 		// Count feedback in date range
 		const feedbackResults = await db
 			.select({
@@ -239,6 +269,7 @@ analytics.get("/summary", async (c) => {
 			thumbsUp,
 			thumbsDown,
 			feedbackRatio: thumbsUp + thumbsDown > 0 ? thumbsUp / (thumbsUp + thumbsDown) : 0,
+			qaHits: Number(qaResult?.count) || 0,
 		});
 	}
 
@@ -247,6 +278,7 @@ analytics.get("/summary", async (c) => {
 	let totalMessages = dailyStats.reduce((sum, d) => sum + d.messageCount, 0);
 	let thumbsUp = dailyStats.reduce((sum, d) => sum + d.thumbsUpCount, 0);
 	let thumbsDown = dailyStats.reduce((sum, d) => sum + d.thumbsDownCount, 0);
+	let qaHits = dailyStats.reduce((sum, d) => sum + d.qaHitCount, 0);
 
 	// Also compute today's stats (not in rollup yet) and add them
 	const today = new Date();
@@ -259,6 +291,7 @@ analytics.get("/summary", async (c) => {
 		totalMessages += todayStats.messageCount;
 		thumbsUp += todayStats.thumbsUpCount;
 		thumbsDown += todayStats.thumbsDownCount;
+		qaHits += todayStats.qaHitCount;
 	}
 
 	return c.json({
@@ -269,6 +302,7 @@ analytics.get("/summary", async (c) => {
 		thumbsUp,
 		thumbsDown,
 		feedbackRatio: thumbsUp + thumbsDown > 0 ? thumbsUp / (thumbsUp + thumbsDown) : 0,
+		qaHits,
 	});
 });
 
@@ -334,6 +368,7 @@ analytics.get("/daily", async (c) => {
 					messages: existing.messageCount,
 					thumbsUp: existing.thumbsUpCount,
 					thumbsDown: existing.thumbsDownCount,
+					qaHits: existing.qaHitCount,
 				};
 			}
 
@@ -359,6 +394,7 @@ analytics.get("/daily", async (c) => {
 				messages: stats.messageCount,
 				thumbsUp: stats.thumbsUpCount,
 				thumbsDown: stats.thumbsDownCount,
+				qaHits: stats.qaHitCount,
 			};
 		}),
 	);
@@ -13,10 +13,22 @@ import {
 import type { ChatMessage, ChatRequest } from "@vela/types";
 import { Hono } from "hono";
 import { streamSSE } from "hono/streaming";
+import { formatSources, getCitations, type NumberedSource, numberSources } from "../lib/citations";
 import { trackLLMCost } from "../lib/cost-tracking";
-import { streamChat, type Tool, type ToolUse } from "../lib/llm";
+import { stripHtml } from "../lib/html";
+import type { LLMMessage, Tool, ToolUse } from "../lib/llm";
+import {
+	type ProviderConfig,
+	type ResolvedModel,
+	resolveFallbackModels,
+	resolveProvider,
+} from "../lib/providers";
+import { type RewriteResult, rewriteQuery } from "../lib/query-rewrite";
+import { needsReindex } from "../lib/reindex";
+import { createReranker } from "../lib/rerank";
+import { runToolLoop } from "../lib/tool-loop";
 import { usageProvider } from "../lib/usage";
-import { vectorClient } from "../lib/vector";
+import { DEFAULT_RETRIEVAL_SETTINGS, type RetrievalMode, vectorClient } from "../lib/vector";
 
 const chat = new Hono();
 
@@ -156,6 +168,15 @@ async function executeToolWithConfig(toolUse: ToolUse, tool: AgentTool): Promise
 	}
 }
 
+// Tool results are usually JSON, but mock responses may be plain text
+function parseToolResult(result: string): unknown {
+	try {
+		return JSON.parse(result);
+	} catch {
+		return result;
+	}
+}
+
 // In-memory rate limiter (key: agentId:clientIP, value: timestamps)
 const rateLimitStore = new Map<string, number[]>();
 
@@ -222,21 +243,26 @@ function checkDomainAllowed(origin: string | null, allowedDomains: string[]): bo
 	}
 }
 
-function buildSystemPrompt(basePrompt: string, context: string[]): string {
-	if (context.length === 0) {
+function buildSystemPrompt(basePrompt: string, sources: NumberedSource[]): string {
+	if (sources.length === 0) {
 		return basePrompt;
 	}
 	return `${basePrompt}
 
-Use the following context to answer questions:
+Use the following numbered sources to answer questions:
 
 <context>
-${context.join("\n\n")}
+${formatSources(sources)}
 </context>
 
-Answer based on the context when relevant. If the context doesn't contain relevant information, answer from your general knowledge.`;
+Answer based on the context when relevant. When you use information from a source, cite it inline with its number in square brackets, e.g. [1]. Only cite sources you actually used. If the context doesn't contain relevant information, answer from your general knowledge.`;
 }
 
+// Tool-use rounds allowed per turn when no agent config is available
+const DEFAULT_MAX_TOOL_STEPS = 5;
+
+type ToolCallRecord = NonNullable<typeof chatMessages.$inferInsert.toolCalls>[number];
+
 interface ChatBody extends ChatRequest {
 	conversationId?: string;
 	agentId: string; // Required - chat must be scoped to an agent
@@ -316,12 +342,20 @@ chat.post("/", async (c) => {
 
 	// Determine model/temp/prompt: custom overrides > agent config > defaults
 	let agentModel: string;
+	let provider: ProviderConfig;
+	let fallbacks: ResolvedModel[] = [];
 	let agentTemp: number;
 	let basePrompt: string;
+	let maxToolSteps = DEFAULT_MAX_TOOL_STEPS;
+	let retrievalMode: RetrievalMode = "vector";
+	let retrieval = DEFAULT_RETRIEVAL_SETTINGS;
+	let exactQaOnly = false;
 
 	if (customModel || customTemp !== undefined || customPrompt) {
-		// Use custom params
-		agentModel = customModel || "claude-sonnet-4-20250514";
+		// Use custom params against the deployment's default provider
+		({ model: agentModel, provider } = resolveProvider({
+			model: customModel || "claude-sonnet-4-20250514",
+		}));
 		agentTemp = customTemp !== undefined ? customTemp / 100 : 0.5;
 		basePrompt = customPrompt || "You are a helpful assistant.";
 	} else {
@@ -335,22 +369,92 @@ chat.post("/", async (c) => {
 			[agent] = await db.select().from(agents).where(eq(agents.isDefault, true)).limit(1);
 		}
 		// Fallback defaults if no agent configured
-		agentModel = agent?.model || "claude-sonnet-4-20250514";
+		const providerSettings = {
+			model: agent?.model || "claude-sonnet-4-20250514",
+			provider: agent?.provider,
+			providerBaseUrl: agent?.providerBaseUrl,
+			providerApiKey: agent?.providerApiKey,
+		};
+		({ model: agentModel, provider } = resolveProvider(providerSettings));
+		fallbacks = resolveFallbackModels(providerSettings, agent?.fallbackModels ?? []);
 		agentTemp = agent ? agent.temperature / 100 : 0.5;
 		basePrompt = agent?.systemPrompt || "You are a helpful assistant.";
+		maxToolSteps = agent?.maxToolSteps ?? DEFAULT_MAX_TOOL_STEPS;
+		retrievalMode = (agent?.retrievalMode as RetrievalMode | undefined) ?? "vector";
+		retrieval = { ...DEFAULT_RETRIEVAL_SETTINGS, ...agent?.retrievalSettings };
+		// Vectors from another embedding model can't be compared with the query's, so search by
+		// keyword and only take exact Q&A matches until the agent is re-indexed
+		if (agent && needsReindex(agent.embeddingModel)) {
+			console.warn(`[chat] Agent ${agent.id} needs re-indexing, using keyword search`);
+			retrievalMode = "keyword";
+			exactQaOnly = true;
+		}
 	}
 
-	// Search vector DB for relevant context (scoped to agent)
-	const searchResults = await vectorClient.search(lastUserMessage.content, agentId);
-	const contextDocs = searchResults.map((r) => r.content);
-	const systemPrompt = buildSystemPrompt(basePrompt, contextDocs);
+	// A close enough match to a curated Q&A is answered with its answer verbatim
+	const qaMatch =
+		retrieval.qaMatchThreshold !== null
+			? await vectorClient.matchQa(
+					lastUserMessage.content,
+					agentId,
+					retrieval.qaMatchThreshold,
+					exactQaOnly,
+				)
+			: null;
+	const qaAnswer = qaMatch ? stripHtml(qaMatch.answer) : null;
+	const skipLlm = qaAnswer !== null && retrieval.qaSkipLlm;
 
 	// Convert messages to Anthropic format
-	const anthropicMessages = messages.map((m: ChatMessage) => ({
+	const anthropicMessages: LLMMessage[] = messages.map((m: ChatMessage) => ({
 		role: m.role as "user" | "assistant",
 		content: m.content,
 	}));
 
+	// Follow-ups like "how much does it cost?" only retrieve well once rewritten with their context
+	let rewrite: RewriteResult | null = null;
+	if (
+		!skipLlm &&
+		retrieval.queryRewrite &&
+		(anthropicMessages.length > 1 || retrieval.queryVariants > 1)
+	) {
+		try {
+			rewrite = await rewriteQuery(
+				anthropicMessages,
+				{ model: agentModel, provider },
+				fallbacks,
+				retrieval.queryVariants,
+			);
+		} catch (err) {
+			console.error("[chat] Query rewrite failed, searching with the last message:", err);
+		}
+	}
+
+	// Search vector DB for relevant context (scoped to agent)
+	const searchResults = skipLlm
+		? []
+		: await vectorClient.search(rewrite?.queries ?? lastUserMessage.content, agentId, {
+				mode: retrievalMode,
+				limit: retrieval.topK,
+				minScore: retrieval.minScore,
+				sourceWeights: retrieval.sourceWeights,
+				maxContextTokens: retrieval.maxContextTokens,
+				...(retrieval.reranker !== "none" && {
+					reranker: createReranker(retrieval.reranker, { model: agentModel, provider }, fallbacks),
+					rerankCandidates: retrieval.rerankCandidates,
+				}),
+			});
+	const sources = numberSources(searchResults);
+	let systemPrompt = buildSystemPrompt(basePrompt, sources);
+	if (qaAnswer !== null && !skipLlm) {
+		systemPrompt += `
+
+This question matches a curated answer. Reply with the following answer verbatim, without adding to or changing it:
+
+<answer>
+${qaAnswer}
+</answer>`;
+	}
+
 	// Create or get conversation for logging
 	let convoId = conversationId;
 
@@ -371,6 +475,7 @@ chat.post("/", async (c) => {
 		conversationId: convoId,
 		role: "user",
 		content: lastUserMessage.content,
+		searchQueries: rewrite?.queries ?? null,
 	});
 
 	return streamSSE(c, async (stream) => {
@@ -396,113 +501,119 @@ chat.post("/", async (c) => {
 			}),
 		});
 
-		let finalUsage = { inputTokens: 0, outputTokens: 0 };
+		// Token usage per model, since fallbacks may answer some steps
+		const usageByModel = new Map<string, { inputTokens: number; outputTokens: number }>();
+		if (rewrite) {
+			usageByModel.set(rewrite.model, { ...rewrite.usage });
+		}
+		let answeredModel = agentModel;
 
 		// Get tools for this agent
 		const tools = await getAgentTools(agentId);
 
-		// Track tool use for follow-up call
-		let usedToolName: string | null = null;
-		let toolResult: string | null = null;
+		const toolCalls: ToolCallRecord[] = [];
 
 		try {
-			await streamChat(
-				{
-					model: agentModel,
-					maxTokens: 4096,
-					temperature: agentTemp,
-					system: systemPrompt,
-					messages: anthropicMessages,
-					tools: tools.length > 0 ? tools : undefined,
-				},
-				async (event) => {
-					if (event.type === "text_delta" && event.text) {
-						fullResponse += event.text;
-						// ChatKit protocol: content_block_delta
-						await stream.writeSSE({
-							event: "content_block_delta",
-							data: JSON.stringify({
-								type: "content_block_delta",
-								index: 0,
-								delta: { type: "text_delta", text: event.text },
-							}),
-						});
-					} else if (event.type === "tool_use" && event.toolUse) {
-						// Execute the tool
-						const result = await executeTool(event.toolUse, agentId);
-
-						// Store for follow-up call
-						usedToolName = event.toolUse.name;
-						toolResult = result;
-
-						// Stream tool use info to client (for debugging/UI indicators)
-						await stream.writeSSE({
-							event: "tool_use",
-							data: JSON.stringify({
-								type: "tool_use",
-								tool: event.toolUse.name,
-								input: event.toolUse.input,
-								result: JSON.parse(result),
-							}),
-						});
-					} else if (event.type === "done" && event.usage) {
-						finalUsage = event.usage;
-					} else if (event.type === "error") {
-						throw new Error(event.error);
-					}
-				},
-			);
-
-			// If a tool was used, make a follow-up call with the result
-			if (usedToolName && toolResult) {
-				const followUpMessages = [
-					...anthropicMessages,
-					{
-						role: "assistant" as const,
-						content: fullResponse || `Using ${usedToolName}...`,
-					},
-					{
-						role: "user" as const,
-						content: `Tool result: ${toolResult}\n\nNow respond naturally to the user based on this result. Do not mention that you used a tool.`,
-					},
-				];
-
-				// Clear fullResponse so we only get the natural response
-				fullResponse = "";
-
-				await streamChat(
+			if (skipLlm) {
+				fullResponse = qaAnswer;
+				await stream.writeSSE({
+					event: "content_block_delta",
+					data: JSON.stringify({
+						type: "content_block_delta",
+						index: 0,
+						delta: { type: "text_delta", text: qaAnswer },
+					}),
+				});
+			} else {
+				await runToolLoop(
 					{
 						model: agentModel,
+						provider,
+						fallbacks,
 						maxTokens: 4096,
 						temperature: agentTemp,
 						system: systemPrompt,
-						messages: followUpMessages,
+						messages: anthropicMessages,
+						tools,
+						maxSteps: maxToolSteps,
 					},
-					async (event) => {
-						if (event.type === "text_delta" && event.text) {
-							fullResponse += event.text;
+					{
+						onText: async (text) => {
+							fullResponse += text;
+							// ChatKit protocol: content_block_delta
 							await stream.writeSSE({
 								event: "content_block_delta",
 								data: JSON.stringify({
 									type: "content_block_delta",
 									index: 0,
-									delta: { type: "text_delta", text: event.text },
+									delta: { type: "text_delta", text },
 								}),
 							});
-						} else if (event.type === "done" && event.usage) {
-							finalUsage.inputTokens += event.usage.inputTokens;
-							finalUsage.outputTokens += event.usage.outputTokens;
-						}
+						},
+						runTool: async (toolUse, step) => {
+							// Stream tool use info to client (for debugging/UI indicators)
+							await stream.writeSSE({
+								event: "tool_use",
+								data: JSON.stringify({
+									type: "tool_use",
+									step,
+									id: toolUse.id,
+									tool: toolUse.name,
+									input: toolUse.input,
+								}),
+							});
+
+							const result = await executeTool(toolUse, agentId);
+							toolCalls.push({
+								step,
+								id: toolUse.id,
+								name: toolUse.name,
+								input: toolUse.input,
+								result,
+							});
+
+							await stream.writeSSE({
+								event: "tool_result",
+								data: JSON.stringify({
+									type: "tool_result",
+									step,
+									id: toolUse.id,
+									tool: toolUse.name,
+									result: parseToolResult(result),
+								}),
+							});
+							return result;
+						},
+						onResponse: (model, usage) => {
+							answeredModel = model;
+							const modelUsage = usageByModel.get(model) ?? { inputTokens: 0, outputTokens: 0 };
+							modelUsage.inputTokens += usage.inputTokens;
+							modelUsage.outputTokens += usage.outputTokens;
+							usageByModel.set(model, modelUsage);
+						},
 					},
 				);
 			}
 
+			// Sources the answer referenced, for the client to show as links
+			const citations = getCitations(fullResponse, sources);
+			if (citations.length > 0) {
+				await stream.writeSSE({
+					event: "citations",
+					data: JSON.stringify({ type: "citations", citations }),
+				});
+			}
+
 			// Save assistant response to DB with the same ID we sent to the client
 			await db.insert(chatMessages).values({
 				id: messageId,
 				conversationId: convoId,
 				role: "assistant",
 				content: fullResponse,
+				model: skipLlm ? null : answeredModel,
+				qaSourceId: qaMatch?.qaSourceId ?? null,
+				toolCalls: toolCalls.length > 0 ? toolCalls : null,
+				citations: citations.length > 0 ? citations : null,
 			});
 
 			// Track usage for billing
@@ -511,19 +622,22 @@ chat.post("/", async (c) => {
 				console.log("[chat] Tracking message for user:", userId);
 				await usageProvider.trackMessage(userId, {
 					conversationId: convoId,
-					model: agentModel,
+					model: skipLlm ? null : answeredModel,
+					qaHit: qaMatch !== null,
 				});
 				console.log("[chat] Message tracked successfully");
 
-				// Track LLM cost with Polar Cost Insights
-				if (finalUsage.inputTokens > 0 || finalUsage.outputTokens > 0) {
-					await trackLLMCost(userId, {
-						model: agentModel,
-						inputTokens: finalUsage.inputTokens,
-						outputTokens: finalUsage.outputTokens,
-						conversationId: convoId,
-						agentId,
-					});
+				// Track LLM cost with Polar Cost Insights, per model that answered
+				for (const [model, usage] of usageByModel) {
+					if (usage.inputTokens > 0 || usage.outputTokens > 0) {
+						await trackLLMCost(userId, {
+							model,
+							inputTokens: usage.inputTokens,
+							outputTokens: usage.outputTokens,
+							conversationId: convoId,
+							agentId,
+						});
+					}
 				}
 			}
 
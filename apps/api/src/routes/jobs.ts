@@ -0,0 +1,59 @@
+import { agents, and, eq, getDb, jobs } from "@vela/db";
+import { Hono } from "hono";
+import { listRecentJobs } from "../lib/queue";
+
+const jobsRoute = new Hono();
+
+// Helper to get userId from context
+function getUserId(c: { get: (key: string) => unknown }): string | null {
+	const user = c.get("user") as { id: string } | null;
+	return user?.id ?? null;
+}
+
+// Helper to verify agent belongs to user
+async function verifyAgentOwnership(agentId: string, userId: string): Promise<boolean> {
+	const db = getDb();
+	const [agent] = await db
+		.select({ id: agents.id })
+		.from(agents)
+		.where(and(eq(agents.id, agentId), eq(agents.userId, userId)));
+	return !!agent;
+}
+
+// Queued and running jobs for an agent, plus those finished in the last hour
+jobsRoute.get("/", async (c) => {
+	const userId = getUserId(c);
+	if (!userId) {
+		return c.json({ error: "Unauthorized" }, 401);
+	}
+
+	const agentId = c.req.query("agentId");
+	if (!agentId) {
+		return c.json({ error: "agentId required" }, 400);
+	}
+
+	if (!(await verifyAgentOwnership(agentId, userId))) {
+		return c.json({ error: "agent not found" }, 404);
+	}
+
+	return c.json(await listRecentJobs(agentId));
+});
+
+jobsRoute.get("/:id", async (c) => {
+	const id = c.req.param("id");
+	const userId = getUserId(c);
+	if (!userId) {
+		return c.json({ error: "Unauthorized" }, 401);
+	}
+
+	const db = getDb();
+	const [job] = await db.select().from(jobs).where(eq(jobs.id, id));
+
+	if (!job?.agentId || !(await verifyAgentOwnership(job.agentId, userId))) {
+		return c.json({ error: "job not found" }, 404);
+	}
+
+	return c.json(job);
+});
+
+export { jobsRoute };
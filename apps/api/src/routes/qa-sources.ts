@@ -1,7 +1,7 @@
-import { agents, and, desc, eq, getDb, qaSourceChunks, qaSources } from "@vela/db";
+import { agents, and, desc, eq, getDb, qaSources, sql } from "@vela/db";
 import { Hono } from "hono";
 import { z } from "zod";
-import { createEmbeddings } from "../lib/embeddings";
+import { enqueueJob } from "../lib/queue";
 
 const qaSourcesRoute = new Hono();
 
@@ -36,21 +36,6 @@ const updateQaSourceSchema = z
 		message: "questions or answer required",
 	});
 
-function stripHtml(html: string): string {
-	return html
-		.replace(/<script[^>]*>[\s\S]*?<\/script>/gi, "")
-		.replace(/<style[^>]*>[\s\S]*?<\/style>/gi, "")
-		.replace(/<[^>]+>/g, " ")
-		.replace(/&nbsp;/g, " ")
-		.replace(/&amp;/g, "&")
-		.replace(/&lt;/g, "<")
-		.replace(/&gt;/g, ">")
-		.replace(/&quot;/g, '"')
-		.replace(/&#39;/g, "'")
-		.replace(/\s+/g, " ")
-		.trim();
-}
-
 // Create a new Q&A source
 qaSourcesRoute.post("/", async (c) => {
 	const userId = getUserId(c);
@@ -71,32 +56,25 @@ qaSourcesRoute.post("/", async (c) => {
 		return c.json({ error: "agent not found" }, 404);
 	}
 
-	const plainAnswer = stripHtml(answer);
-
-	// Create embedding content for each question (question + answer combined)
-	const embeddingTexts = questions.map((q) => `Q: ${q}\nA: ${plainAnswer}`);
-	const embeddings = await createEmbeddings(embeddingTexts);
-
 	const db = getDb();
 
 	const [source] = await db.insert(qaSources).values({ agentId, questions, answer }).returning();
 
-	const chunkRecords = questions.map((question, index) => ({
-		qaSourceId: source.id,
-		question,
-		content: embeddingTexts[index],
-		chunkIndex: index,
-		embedding: embeddings[index],
-	}));
-
-	await db.insert(qaSourceChunks).values(chunkRecords);
-
-	return c.json({
-		id: source.id,
-		questions: source.questions,
-		chunks: questions.length,
-		createdAt: source.createdAt,
-	});
+	const job = await enqueueJob(
+		"embed_qa_source",
+		{ qaSourceId: source.id },
+		{ agentId, sourceType: "qa_source", sourceId: source.id },
+	);
+
+	return c.json(
+		{
+			id: source.id,
+			questions: source.questions,
+			jobId: job.id,
+			createdAt: source.createdAt,
+		},
+		202,
+	);
 });
 
 // List all Q&A sources for an agent
@@ -120,6 +98,10 @@ qaSourcesRoute.get("/", async (c) => {
 		.select({
 			id: qaSources.id,
 			questions: qaSources.questions,
+			// Some chunks were stored without embeddings; retry with POST /agents/:id/reembed
+			needsReembedding: sql<boolean>`EXISTS (
+				SELECT 1 FROM qa_source_chunks c
+				WHERE c.qa_source_id = ${qaSources.id} AND c.embedding_status = 'failed')`,
 			createdAt: qaSources.createdAt,
 			updatedAt: qaSources.updatedAt,
 		})
@@ -185,25 +167,6 @@ qaSourcesRoute.put("/:id", async (c) => {
 	const newQuestions = parsed.data.questions ?? existing.questions;
 	const newAnswer = parsed.data.answer ?? existing.answer;
 
-	// Delete old chunks and recreate
-	await db.delete(qaSourceChunks).where(eq(qaSourceChunks.qaSourceId, id));
-
-	const plainAnswer = stripHtml(newAnswer);
-	const embeddingTexts = (newQuestions as string[]).map(
-		(q: string) => `Q: ${q}\nA: ${plainAnswer}`,
-	);
-	const embeddings = await createEmbeddings(embeddingTexts);
-
-	const chunkRecords = (newQuestions as string[]).map((question: string, index: number) => ({
-		qaSourceId: id,
-		question,
-		content: embeddingTexts[index],
-		chunkIndex: index,
-		embedding: embeddings[index],
-	}));
-
-	await db.insert(qaSourceChunks).values(chunkRecords);
-
 	const [updated] = await db
 		.update(qaSources)
 		.set({
@@ -214,7 +177,14 @@ qaSourcesRoute.put("/:id", async (c) => {
 		.where(eq(qaSources.id, id))
 		.returning();
 
-	return c.json(updated);
+	// Chunks are rebuilt from the saved questions and answer
+	const job = await enqueueJob(
+		"embed_qa_source",
+		{ qaSourceId: id },
+		{ agentId: existing.agentId, sourceType: "qa_source", sourceId: id },
+	);
+
+	return c.json({ ...updated, jobId: job.id });
 });
 
 // Delete a Q&A source
@@ -1,8 +1,9 @@
-import { agents, and, desc, eq, getDb, textSourceChunks, textSources } from "@vela/db";
+import { agents, and, desc, eq, getDb, sql, textSources } from "@vela/db";
 import { Hono } from "hono";
 import { z } from "zod";
-import { chunkText } from "../lib/chunker";
-import { createEmbeddings } from "../lib/embeddings";
+import { CHUNK_STRATEGIES, type ChunkStrategy } from "../lib/chunker";
+import { stripHtml } from "../lib/html";
+import { enqueueJob } from "../lib/queue";
 
 const textSourcesRoute = new Hono();
 
@@ -22,36 +23,25 @@ async function verifyAgentOwnership(agentId: string, userId: string): Promise<bo
 	return !!agent;
 }
 
+const chunkStrategySchema = z.enum(CHUNK_STRATEGIES as [ChunkStrategy, ...ChunkStrategy[]]);
+
 const createTextSourceSchema = z.object({
 	agentId: z.string().uuid("invalid agentId"),
 	title: z.string().min(1, "title required").max(500, "title too long"),
 	content: z.string().min(1, "content required"),
+	chunkStrategy: chunkStrategySchema.default("fixed"),
 });
 
 const updateTextSourceSchema = z
 	.object({
 		title: z.string().min(1, "title required").max(500, "title too long").optional(),
 		content: z.string().min(1, "content required").optional(),
+		chunkStrategy: chunkStrategySchema.optional(),
 	})
-	.refine((data) => data.title || data.content, {
-		message: "title or content required",
+	.refine((data) => data.title || data.content || data.chunkStrategy, {
+		message: "title, content or chunkStrategy required",
 	});
 
-function stripHtml(html: string): string {
-	return html
-		.replace(/<script[^>]*>[\s\S]*?<\/script>/gi, "")
-		.replace(/<style[^>]*>[\s\S]*?<\/style>/gi, "")
-		.replace(/<[^>]+>/g, " ")
-		.replace(/&nbsp;/g, " ")
-		.replace(/&amp;/g, "&")
-		.replace(/&lt;/g, "<")
-		.replace(/&gt;/g, ">")
-		.replace(/&quot;/g, '"')
-		.replace(/&#39;/g, "'")
-		.replace(/\s+/g, " ")
-		.trim();
-}
-
 textSourcesRoute.post("/", async (c) => {
 	const userId = getUserId(c);
 	if (!userId) {
@@ -65,20 +55,16 @@ textSourcesRoute.post("/", async (c) => {
 		return c.json({ error: parsed.error.issues[0].message }, 400);
 	}
 
-	const { agentId, title, content } = parsed.data;
+	const { agentId, title, content, chunkStrategy } = parsed.data;
 
 	if (!(await verifyAgentOwnership(agentId, userId))) {
 		return c.json({ error: "agent not found" }, 404);
 	}
 
-	const plainText = stripHtml(content);
-	if (!plainText) {
+	if (!stripHtml(content)) {
 		return c.json({ error: "no text content found" }, 400);
 	}
 
-	const chunks = chunkText(plainText);
-	const embeddings = await createEmbeddings(chunks);
-
 	const db = getDb();
 
 	const [source] = await db
@@ -87,24 +73,25 @@ textSourcesRoute.post("/", async (c) => {
 			agentId,
 			title: title.trim(),
 			content,
+			chunkStrategy,
 		})
 		.returning();
 
-	const chunkRecords = chunks.map((content, index) => ({
-		textSourceId: source.id,
-		content,
-		chunkIndex: index,
-		embedding: embeddings[index],
-	}));
-
-	await db.insert(textSourceChunks).values(chunkRecords);
-
-	return c.json({
-		id: source.id,
-		title: source.title,
-		chunks: chunks.length,
-		createdAt: source.createdAt,
-	});
+	const job = await enqueueJob(
+		"embed_text_source",
+		{ textSourceId: source.id },
+		{ agentId, sourceType: "text_source", sourceId: source.id },
+	);
+
+	return c.json(
+		{
+			id: source.id,
+			title: source.title,
+			jobId: job.id,
+			createdAt: source.createdAt,
+		},
+		202,
+	);
 });
 
 textSourcesRoute.get("/", async (c) => {
@@ -127,6 +114,10 @@ textSourcesRoute.get("/", async (c) => {
 		.select({
 			id: textSources.id,
 			title: textSources.title,
+			// Some chunks were stored without embeddings; retry with POST /agents/:id/reembed
+			needsReembedding: sql<boolean>`EXISTS (
+				SELECT 1 FROM text_source_chunks c
+				WHERE c.text_source_id = ${textSources.id} AND c.embedding_status = 'failed')`,
 			createdAt: textSources.createdAt,
 			updatedAt: textSources.updatedAt,
 		})
@@ -174,7 +165,7 @@ textSourcesRoute.put("/:id", async (c) => {
 		return c.json({ error: parsed.error.issues[0].message }, 400);
 	}
 
-	const { title, content } = parsed.data;
+	const { title, content, chunkStrategy } = parsed.data;
 
 	const db = getDb();
 
@@ -191,33 +182,27 @@ textSourcesRoute.put("/:id", async (c) => {
 
 	const newTitle = title?.trim() || existing.title;
 	const newContent = content ?? existing.content;
+	const newStrategy = chunkStrategy ?? (existing.chunkStrategy as ChunkStrategy);
 
 	const [updated] = await db
 		.update(textSources)
 		.set({
 			title: newTitle,
 			content: newContent,
+			chunkStrategy: newStrategy,
 			updatedAt: new Date(),
 		})
 		.where(eq(textSources.id, id))
 		.returning();
 
-	// Re-chunk and re-embed if content changed
-	if (content && content !== existing.content) {
-		await db.delete(textSourceChunks).where(eq(textSourceChunks.textSourceId, id));
-
-		const plainText = stripHtml(newContent);
-		const chunks = chunkText(plainText);
-		const embeddings = await createEmbeddings(chunks);
-
-		const chunkRecords = chunks.map((content, index) => ({
-			textSourceId: id,
-			content,
-			chunkIndex: index,
-			embedding: embeddings[index],
-		}));
-
-		await db.insert(textSourceChunks).values(chunkRecords);
+	// Re-chunk and re-embed if content or chunking changed
+	if ((content && content !== existing.content) || newStrategy !== existing.chunkStrategy) {
+		const job = await enqueueJob(
+			"embed_text_source",
+			{ textSourceId: id },
+			{ agentId: existing.agentId, sourceType: "text_source", sourceId: id },
+		);
+		return c.json({ ...updated, jobId: job.id });
 	}
 
 	return c.json(updated);
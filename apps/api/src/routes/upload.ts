@@ -1,13 +1,21 @@
-import { agents, and, documentChunks, documents, eq, getDb } from "@vela/db";
+import { randomUUID } from "node:crypto";
+import { agents, and, desc, documents, documentVersions, eq, getDb, inArray, sql } from "@vela/db";
 import { Hono } from "hono";
-import { chunkText } from "../lib/chunker";
-import { createEmbeddings } from "../lib/embeddings";
-import { extractText, isSupportedType } from "../lib/extractors";
+import { z } from "zod";
+import { CHUNK_STRATEGIES, type ChunkStrategy } from "../lib/chunker";
+import { resolveMimeType, type SupportedMimeType } from "../lib/extractors";
+import { enqueueJob } from "../lib/queue";
+import { getFileStorage, StorageNotFoundError } from "../lib/storage";
+import {
+	expandUploads,
+	hashFile,
+	MAX_FILE_SIZE,
+	UNSUPPORTED_TYPE_MESSAGE,
+	type UploadedFile,
+} from "../lib/uploads";
 
 const upload = new Hono();
 
-const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
-
 // Helper to get userId from context
 function getUserId(c: { get: (key: string) => unknown }): string | null {
 	const user = c.get("user") as { id: string } | null;
@@ -24,6 +32,53 @@ async function verifyAgentOwnership(agentId: string, userId: string): Promise<bo
 	return !!agent;
 }
 
+// Version numbers from the path or query; anything else matches no version
+const parseVersion = (value: string): number | null =>
+	/^\d+$/.test(value) && Number(value) <= 2 ** 31 - 1 ? Number(value) : null;
+
+const queueIngestion = (documentId: string, agentId: string) =>
+	enqueueJob(
+		"ingest_document",
+		{ documentId },
+		{ agentId, sourceType: "document", sourceId: documentId },
+	);
+
+// Keeps the original in file storage, records the document as version 1 and queues its text
+// extraction, chunking and embedding in the worker, so large files don't hold up the request
+async function storeDocument(input: {
+	agentId: string;
+	filename: string;
+	mimeType: SupportedMimeType;
+	data: Buffer;
+	contentHash: string;
+	chunkStrategy: string;
+}) {
+	const id = randomUUID();
+	const storageKey = `documents/${input.agentId}/${id}/${input.contentHash}`;
+	await getFileStorage().put(storageKey, input.data, input.mimeType);
+
+	const file = {
+		filename: input.filename,
+		mimeType: input.mimeType,
+		size: input.data.length,
+		storageKey,
+		contentHash: input.contentHash,
+	};
+
+	const db = getDb();
+	const doc = await db.transaction(async (tx) => {
+		const [doc] = await tx
+			.insert(documents)
+			.values({ id, agentId: input.agentId, chunkStrategy: input.chunkStrategy, ...file })
+			.returning();
+		await tx.insert(documentVersions).values({ documentId: id, version: 1, ...file });
+		return doc;
+	});
+
+	const job = await queueIngestion(doc.id, input.agentId);
+	return { doc, jobId: job.id };
+}
+
 upload.post("/", async (c) => {
 	const userId = getUserId(c);
 	if (!userId) {
@@ -33,11 +88,16 @@ upload.post("/", async (c) => {
 	const formData = await c.req.formData();
 	const file = formData.get("file");
 	const agentId = formData.get("agentId") as string;
+	const chunkStrategy = (formData.get("chunkStrategy") as string | null) ?? "fixed";
 
 	if (!agentId) {
 		return c.json({ error: "agentId required" }, 400);
 	}
 
+	if (!CHUNK_STRATEGIES.includes(chunkStrategy as ChunkStrategy)) {
+		return c.json({ error: "invalid chunkStrategy" }, 400);
+	}
+
 	if (!(await verifyAgentOwnership(agentId, userId))) {
 		return c.json({ error: "agent not found" }, 404);
 	}
@@ -50,46 +110,134 @@ upload.post("/", async (c) => {
 		return c.json({ error: "file too large (max 10MB)" }, 400);
 	}
 
-	if (!isSupportedType(file.type)) {
-		return c.json({ error: "unsupported file type (PDF, DOCX, TXT only)" }, 400);
+	const mimeType = resolveMimeType(file.type, file.name);
+	if (!mimeType) {
+		return c.json({ error: UNSUPPORTED_TYPE_MESSAGE }, 400);
 	}
 
-	const buffer = Buffer.from(await file.arrayBuffer());
-	const text = await extractText(buffer, file.type);
+	const data = Buffer.from(await file.arrayBuffer());
+	const { doc, jobId } = await storeDocument({
+		agentId,
+		filename: file.name,
+		mimeType,
+		data,
+		contentHash: hashFile(data),
+		chunkStrategy,
+	});
+
+	return c.json(
+		{
+			id: doc.id,
+			filename: doc.filename,
+			jobId,
+			createdAt: doc.createdAt,
+		},
+		202,
+	);
+});
+
+type BulkFileResult =
+	| { filename: string; status: "accepted"; documentId: string; jobId: string }
+	| { filename: string; status: "skipped" | "failed"; reason: string };
 
-	if (!text.trim()) {
-		return c.json({ error: "no text content extracted" }, 400);
+// Upload many documents at once: any number of "files" fields, each a document or a ZIP archive
+// of documents. Files the agent already has (same content) are skipped. Responds with the
+// outcome of every file rather than failing the whole batch.
+upload.post("/bulk", async (c) => {
+	const userId = getUserId(c);
+	if (!userId) {
+		return c.json({ error: "Unauthorized" }, 401);
 	}
 
-	const chunks = chunkText(text);
-	const embeddings = await createEmbeddings(chunks);
+	const formData = await c.req.formData();
+	const agentId = formData.get("agentId") as string;
+	const chunkStrategy = (formData.get("chunkStrategy") as string | null) ?? "fixed";
 
-	const db = getDb();
+	if (!agentId) {
+		return c.json({ error: "agentId required" }, 400);
+	}
 
-	const [doc] = await db
-		.insert(documents)
-		.values({
-			agentId,
-			filename: file.name,
-			mimeType: file.type,
-			size: file.size,
-		})
-		.returning();
+	if (!CHUNK_STRATEGIES.includes(chunkStrategy as ChunkStrategy)) {
+		return c.json({ error: "invalid chunkStrategy" }, 400);
+	}
+
+	if (!(await verifyAgentOwnership(agentId, userId))) {
+		return c.json({ error: "agent not found" }, 404);
+	}
+
+	const uploaded: UploadedFile[] = [];
+	for (const file of formData.getAll("files")) {
+		if (file instanceof File) {
+			uploaded.push({
+				name: file.name,
+				type: file.type,
+				data: Buffer.from(await file.arrayBuffer()),
+			});
+		}
+	}
+	if (uploaded.length === 0) {
+		return c.json({ error: "files required" }, 400);
+	}
 
-	const chunkRecords = chunks.map((content, index) => ({
-		documentId: doc.id,
-		content,
-		chunkIndex: index,
-		embedding: embeddings[index],
-	}));
+	const entries = await expandUploads(uploaded);
+	const hashes = entries.map((entry) => (entry.status === "ok" ? hashFile(entry.data) : null));
+	const uniqueHashes = [...new Set(hashes.filter((hash) => hash !== null))];
+
+	// Filename of the document already holding each content hash
+	const existing = new Map<string, string>();
+	if (uniqueHashes.length > 0) {
+		const db = getDb();
+		const docs = await db
+			.select({ filename: documents.filename, contentHash: documents.contentHash })
+			.from(documents)
+			.where(and(eq(documents.agentId, agentId), inArray(documents.contentHash, uniqueHashes)));
+		for (const doc of docs) {
+			if (doc.contentHash) {
+				existing.set(doc.contentHash, doc.filename);
+			}
+		}
+	}
 
-	await db.insert(documentChunks).values(chunkRecords);
+	const results: BulkFileResult[] = [];
+	for (const [index, entry] of entries.entries()) {
+		if (entry.status !== "ok") {
+			results.push({ filename: entry.filename, status: entry.status, reason: entry.reason });
+			continue;
+		}
+
+		const contentHash = hashes[index] as string;
+		const duplicateOf = existing.get(contentHash);
+		if (duplicateOf) {
+			results.push({
+				filename: entry.filename,
+				status: "skipped",
+				reason: `same content as ${duplicateOf}`,
+			});
+			continue;
+		}
+
+		try {
+			const { doc, jobId } = await storeDocument({
+				agentId,
+				filename: entry.filename,
+				mimeType: entry.mimeType,
+				data: entry.data,
+				contentHash,
+				chunkStrategy,
+			});
+			existing.set(contentHash, doc.filename);
+			results.push({ filename: entry.filename, status: "accepted", documentId: doc.id, jobId });
+		} catch (error) {
+			console.error(`[upload] Failed to store ${entry.filename}:`, error);
+			results.push({ filename: entry.filename, status: "failed", reason: "could not be stored" });
+		}
+	}
 
 	return c.json({
-		id: doc.id,
-		filename: doc.filename,
-		chunks: chunks.length,
-		createdAt: doc.createdAt,
+		accepted: results.filter((result) => result.status === "accepted").length,
+		skipped: results.filter((result) => result.status === "skipped").length,
+		failed: results.filter((result) => result.status === "failed").length,
+		files: results,
 	});
 });
 
@@ -110,8 +258,26 @@ upload.get("/", async (c) => {
 	}
 
 	const db = getDb();
+	// Extracted text is left out, it's only needed for re-chunking
 	const docs = await db
-		.select()
+		.select({
+			id: documents.id,
+			agentId: documents.agentId,
+			filename: documents.filename,
+			mimeType: documents.mimeType,
+			size: documents.size,
+			chunkStrategy: documents.chunkStrategy,
+			contentHash: documents.contentHash,
+			version: documents.version,
+			pendingVersion: documents.pendingVersion,
+			// Uploads from before originals were stored can't be downloaded or re-processed
+			hasOriginal: sql<boolean>`${documents.storageKey} IS NOT NULL`,
+			// Some chunks were stored without embeddings; retry with POST /agents/:id/reembed
+			needsReembedding: sql<boolean>`EXISTS (
+				SELECT 1 FROM document_chunks c
+				WHERE c.document_id = ${documents.id} AND c.embedding_status = 'failed')`,
+			createdAt: documents.createdAt,
+		})
 		.from(documents)
 		.where(eq(documents.agentId, agentId))
 		.orderBy(documents.createdAt);
@@ -142,9 +308,288 @@ upload.delete("/:id", async (c) => {
 		return c.json({ error: "document not found" }, 404);
 	}
 
+	const versions = await db
+		.select({ storageKey: documentVersions.storageKey })
+		.from(documentVersions)
+		.where(eq(documentVersions.documentId, id));
+
 	const [_deleted] = await db.delete(documents).where(eq(documents.id, id)).returning();
 
+	// Re-uploads of identical content share an original
+	const storageKeys = new Set(versions.flatMap((v) => (v.storageKey ? [v.storageKey] : [])));
+	for (const key of storageKeys) {
+		await getFileStorage()
+			.delete(key)
+			.catch((err) => console.error(`[storage] Failed to delete ${key}:`, err));
+	}
+
 	return c.json({ deleted: true });
 });
 
+// Download the original file of the current version, or of ?version=n
+upload.get("/:id/download", async (c) => {
+	const id = c.req.param("id");
+	const userId = getUserId(c);
+	if (!userId) {
+		return c.json({ error: "Unauthorized" }, 401);
+	}
+
+	const db = getDb();
+	const [doc] = await db.select().from(documents).where(eq(documents.id, id));
+
+	if (!doc || !(await verifyAgentOwnership(doc.agentId, userId))) {
+		return c.json({ error: "document not found" }, 404);
+	}
+
+	const requested = c.req.query("version");
+	const versionNumber = requested === undefined ? doc.version : parseVersion(requested);
+	if (versionNumber === null) {
+		return c.json({ error: "version not found" }, 404);
+	}
+
+	const [version] = await db
+		.select()
+		.from(documentVersions)
+		.where(and(eq(documentVersions.documentId, id), eq(documentVersions.version, versionNumber)));
+
+	if (!version) {
+		return c.json({ error: "version not found" }, 404);
+	}
+
+	if (!version.storageKey) {
+		return c.json({ error: "original file not stored" }, 404);
+	}
+
+	let data: Buffer;
+	try {
+		data = await getFileStorage().get(version.storageKey);
+	} catch (error) {
+		if (error instanceof StorageNotFoundError) {
+			return c.json({ error: "original file not found in storage" }, 404);
+		}
+		throw error;
+	}
+
+	return c.body(new Uint8Array(data), 200, {
+		"Content-Type": version.mimeType,
+		"Content-Length": String(data.length),
+		"Content-Disposition": `attachment; filename*=UTF-8''${encodeURIComponent(version.filename)}`,
+	});
+});
+
+const reprocessSchema = z.object({
+	chunkStrategy: z.enum(CHUNK_STRATEGIES as [ChunkStrategy, ...ChunkStrategy[]]).optional(),
+});
+
+// Extract, chunk and embed a document again from its original, e.g. after extraction improved
+// or to switch its chunk strategy. Older uploads without an original are re-chunked from their
+// stored text.
+upload.post("/:id/reprocess", async (c) => {
+	const id = c.req.param("id");
+	const userId = getUserId(c);
+	if (!userId) {
+		return c.json({ error: "Unauthorized" }, 401);
+	}
+
+	const parsed = reprocessSchema.safeParse(await c.req.json().catch(() => ({})));
+	if (!parsed.success) {
+		return c.json({ error: parsed.error.issues[0].message }, 400);
+	}
+
+	const db = getDb();
+	const [doc] = await db.select().from(documents).where(eq(documents.id, id));
+
+	if (!doc || !(await verifyAgentOwnership(doc.agentId, userId))) {
+		return c.json({ error: "document not found" }, 404);
+	}
+
+	if (!doc.storageKey && !doc.content) {
+		return c.json({ error: "original file not stored, upload the document again" }, 409);
+	}
+
+	if (doc.storageKey) {
+		// Cleared so the worker extracts it again from the original
+		await db
+			.update(documentVersions)
+			.set({ content: null })
+			.where(and(eq(documentVersions.documentId, id), eq(documentVersions.version, doc.version)));
+	}
+	if (parsed.data.chunkStrategy) {
+		await db
+			.update(documents)
+			.set({ chunkStrategy: parsed.data.chunkStrategy })
+			.where(eq(documents.id, id));
+	}
+
+	const job = await queueIngestion(id, doc.agentId);
+	return c.json({ id, jobId: job.id }, 202);
+});
+
+// Replace a document's file, keeping its id. The new file becomes the next version; until it
+// has been processed, search keeps using the current one.
+upload.put("/:id", async (c) => {
+	const id = c.req.param("id");
+	const userId = getUserId(c);
+	if (!userId) {
+		return c.json({ error: "Unauthorized" }, 401);
+	}
+
+	const db = getDb();
+	const [doc] = await db.select().from(documents).where(eq(documents.id, id));
+
+	if (!doc || !(await verifyAgentOwnership(doc.agentId, userId))) {
+		return c.json({ error: "document not found" }, 404);
+	}
+
+	const formData = await c.req.formData();
+	const file = formData.get("file");
+	const chunkStrategy = formData.get("chunkStrategy") as string | null;
+
+	if (chunkStrategy && !CHUNK_STRATEGIES.includes(chunkStrategy as ChunkStrategy)) {
+		return c.json({ error: "invalid chunkStrategy" }, 400);
+	}
+
+	if (!file || !(file instanceof File)) {
+		return c.json({ error: "file required" }, 400);
+	}
+
+	if (file.size > MAX_FILE_SIZE) {
+		return c.json({ error: "file too large (max 10MB)" }, 400);
+	}
+
+	const mimeType = resolveMimeType(file.type, file.name);
+	if (!mimeType) {
+		return c.json({ error: UNSUPPORTED_TYPE_MESSAGE }, 400);
+	}
+
+	const data = Buffer.from(await file.arrayBuffer());
+	const contentHash = hashFile(data);
+	if (contentHash === doc.contentHash && !doc.pendingVersion) {
+		return c.json({ error: "file is identical to the current version" }, 409);
+	}
+
+	const storageKey = `documents/${doc.agentId}/${id}/${contentHash}`;
+	await getFileStorage().put(storageKey, data, mimeType);
+
+	const version = await db.transaction(async (tx) => {
+		// Locking the document makes concurrent uploads take the next version number in turn
+		// instead of both computing the same one
+		const [locked] = await tx
+			.select({ id: documents.id })
+			.from(documents)
+			.where(eq(documents.id, id))
+			.for("update");
+		if (!locked) return null;
+
+		const [version] = await tx
+			.insert(documentVersions)
+			.values({
+				documentId: id,
+				version: sql`(SELECT COALESCE(MAX(version), 0) + 1 FROM document_versions WHERE document_id = ${id})`,
+				filename: file.name,
+				mimeType,
+				size: file.size,
+				storageKey,
+				contentHash,
+			})
+			.returning();
+		await tx
+			.update(documents)
+			.set({
+				pendingVersion: version.version,
+				...(chunkStrategy && { chunkStrategy }),
+			})
+			.where(eq(documents.id, id));
+		return version;
+	});
+
+	if (!version) {
+		return c.json({ error: "document not found" }, 404);
+	}
+
+	const job = await queueIngestion(id, doc.agentId);
+	return c.json({ id, version: version.version, jobId: job.id }, 202);
+});
+
+// Version history, newest first
+upload.get("/:id/versions", async (c) => {
+	const id = c.req.param("id");
+	const userId = getUserId(c);
+	if (!userId) {
+		return c.json({ error: "Unauthorized" }, 401);
+	}
+
+	const db = getDb();
+	const [doc] = await db.select().from(documents).where(eq(documents.id, id));
+
+	if (!doc || !(await verifyAgentOwnership(doc.agentId, userId))) {
+		return c.json({ error: "document not found" }, 404);
+	}
+
+	const versions = await db
+		.select({
+			version: documentVersions.version,
+			filename: documentVersions.filename,
+			mimeType: documentVersions.mimeType,
+			size: documentVersions.size,
+			contentHash: documentVersions.contentHash,
+			hasOriginal: sql<boolean>`${documentVersions.storageKey} IS NOT NULL`,
+			createdAt: documentVersions.createdAt,
+		})
+		.from(documentVersions)
+		.where(eq(documentVersions.documentId, id))
+		.orderBy(desc(documentVersions.version));
+
+	return c.json(
+		versions.map((v) => ({
+			...v,
+			current: v.version === doc.version,
+			pending: v.version === doc.pendingVersion,
+		})),
+	);
+});
+
+// Make an earlier version current again. Its chunks are rebuilt and swapped in like a new upload.
+upload.post("/:id/versions/:version/rollback", async (c) => {
+	const id = c.req.param("id");
+	const userId = getUserId(c);
+	if (!userId) {
+		return c.json({ error: "Unauthorized" }, 401);
+	}
+
+	const db = getDb();
+	const [doc] = await db.select().from(documents).where(eq(documents.id, id));
+
+	if (!doc || !(await verifyAgentOwnership(doc.agentId, userId))) {
+		return c.json({ error: "document not found" }, 404);
+	}
+
+	const versionNumber = parseVersion(c.req.param("version"));
+	if (versionNumber === null) {
+		return c.json({ error: "version not found" }, 404);
+	}
+
+	const [version] = await db
+		.select()
+		.from(documentVersions)
+		.where(and(eq(documentVersions.documentId, id), eq(documentVersions.version, versionNumber)));
+
+	if (!version) {
+		return c.json({ error: "version not found" }, 404);
+	}
+
+	if (version.version === doc.version && !doc.pendingVersion) {
+		return c.json({ error: "version is already current" }, 409);
+	}
+
+	if (!version.content && !version.storageKey) {
+		return c.json({ error: "version has neither text nor original file" }, 409);
+	}
+
+	await db.update(documents).set({ pendingVersion: version.version }).where(eq(documents.id, id));
+
+	const job = await queueIngestion(id, doc.agentId);
+	return c.json({ id, version: version.version, jobId: job.id }, 202);
+});
+
 export { upload };
@@ -1,10 +1,29 @@
-import { agents, and, eq, getDb, webSourcePageChunks, webSourcePages, webSources } from "@vela/db";
+import {
+	agents,
+	and,
+	desc,
+	eq,
+	getDb,
+	sql,
+	webSourceCrawlRuns,
+	webSourcePageChunks,
+	webSourcePages,
+	webSources,
+} from "@vela/db";
 import { Hono } from "hono";
-import { chunkText } from "../lib/chunker";
-import { createEmbedding } from "../lib/embeddings";
+import { streamSSE } from "hono/streaming";
+import { CHUNK_STRATEGIES, type ChunkStrategy } from "../lib/chunker";
+import { invalidUrlPattern } from "../lib/crawl-frontier";
+import { crawlProgress, isCrawlActive } from "../lib/crawl-progress";
+import { queueCrawl } from "../lib/crawler";
+import { cancelQueuedJobs } from "../lib/queue";
+import { invalidSchedule, nextCrawlTime } from "../lib/scheduler";
 
 const webSourcesRoute = new Hono();
 
+// How often the progress stream looks for news; the crawler saves its progress every second
+const PROGRESS_POLL_MS = 1000;
+
 // Helper to verify agent ownership
 async function verifyAgentOwnership(
 	db: ReturnType<typeof getDb>,
@@ -19,202 +38,51 @@ async function verifyAgentOwnership(
 	return !!agent;
 }
 
-// Fetch content from a URL using Jina Reader
-async function fetchPageContent(url: string): Promise<{ title: string; content: string }> {
-	const response = await fetch(`https://r.jina.ai/${encodeURIComponent(url)}`, {
-		headers: {
-			Accept: "text/plain",
-			"User-Agent": "OpenChat/1.0",
-		},
-	});
-
-	if (!response.ok) {
-		throw new Error(`Failed to fetch ${url}: ${response.status}`);
-	}
-
-	const text = await response.text();
-
-	// Extract title from first line if it looks like a title
-	const lines = text.split("\n");
-	let title = url;
-	let content = text;
-
-	if (lines[0] && lines[0].length < 200 && !lines[0].includes(" ")) {
-		title = lines[0];
-		content = lines.slice(1).join("\n").trim();
-	}
+interface CrawlSettings {
+	maxPages?: number;
+	maxDepth?: number;
+	includePatterns?: string[];
+	excludePatterns?: string[];
+	schedule?: string | null; // "daily", "weekly" or a cron expression in UTC; null for none
+}
 
-	return { title, content };
+// The schedule columns for a schedule setting
+function scheduleColumns(schedule: string | null) {
+	return { schedule, nextCrawlAt: schedule ? nextCrawlTime(schedule, new Date()) : null };
 }
 
-// Parse sitemap XML to extract URLs
-async function parseSitemap(url: string): Promise<string[]> {
-	const response = await fetch(url);
-	if (!response.ok) {
-		throw new Error(`Failed to fetch sitemap: ${response.status}`);
+// Checks the crawl limits and URL rules a request sets; returns an error message if invalid
+function validateCrawlSettings(settings: CrawlSettings): string | null {
+	if (
+		settings.maxPages !== undefined &&
+		(!Number.isInteger(settings.maxPages) || settings.maxPages < 1 || settings.maxPages > 10000)
+	) {
+		return "maxPages must be between 1 and 10000";
 	}
-
-	const xml = await response.text();
-	const urls: string[] = [];
-
-	// Extract URLs from sitemap using matchAll
-	const locRegex = /<loc>([^<]+)<\/loc>/g;
-	for (const match of xml.matchAll(locRegex)) {
-		urls.push(match[1]);
+	if (
+		settings.maxDepth !== undefined &&
+		(!Number.isInteger(settings.maxDepth) || settings.maxDepth < 0 || settings.maxDepth > 20)
+	) {
+		return "maxDepth must be between 0 and 20";
 	}
-
-	// Check if this is a sitemap index (contains other sitemaps)
-	if (xml.includes("<sitemapindex")) {
-		const nestedUrls: string[] = [];
-		for (const sitemapUrl of urls.slice(0, 5)) {
-			// Limit nested sitemaps
-			try {
-				const nested = await parseSitemap(sitemapUrl);
-				nestedUrls.push(...nested);
-			} catch {
-				// Ignore nested sitemap errors
-			}
+	if (settings.schedule !== undefined && settings.schedule !== null) {
+		const invalid =
+			typeof settings.schedule === "string" ? invalidSchedule(settings.schedule) : "not a string";
+		if (invalid) {
+			return `invalid schedule: ${invalid}`;
 		}
-		return nestedUrls;
 	}
-
-	return urls;
-}
-
-// Extract links from a page for crawling
-async function extractLinks(url: string, content: string): Promise<string[]> {
-	const baseUrl = new URL(url);
-	const links: string[] = [];
-
-	// Extract href attributes using matchAll
-	const hrefRegex = /href=["']([^"']+)["']/g;
-	for (const match of content.matchAll(hrefRegex)) {
-		try {
-			const linkUrl = new URL(match[1], baseUrl.origin);
-			// Only include links from same domain
-			if (linkUrl.hostname === baseUrl.hostname && !linkUrl.href.includes("#")) {
-				links.push(linkUrl.href);
-			}
-		} catch {
-			// Ignore invalid URLs
+	for (const patterns of [settings.includePatterns, settings.excludePatterns]) {
+		if (patterns === undefined) continue;
+		if (!Array.isArray(patterns) || patterns.some((pattern) => typeof pattern !== "string")) {
+			return "includePatterns and excludePatterns must be lists of strings";
 		}
-	}
-
-	return [...new Set(links)]; // Deduplicate
-}
-
-// Helper function to start crawling a web source (non-blocking)
-async function startCrawl(sourceId: string): Promise<void> {
-	const db = getDb();
-
-	const [source] = await db.select().from(webSources).where(eq(webSources.id, sourceId)).limit(1);
-	if (!source) return;
-
-	// Update status to crawling
-	await db
-		.update(webSources)
-		.set({ status: "crawling", errorMessage: null })
-		.where(eq(webSources.id, sourceId));
-
-	// Start crawl in background (non-blocking)
-	(async () => {
-		try {
-			let pageUrls: string[] = [];
-
-			if (source.sourceType === "individual" || source.sourceType === "page") {
-				pageUrls = [source.url];
-			} else if (source.sourceType === "sitemap") {
-				pageUrls = await parseSitemap(source.url);
-			} else if (source.sourceType === "crawl") {
-				// Fetch the root page and extract links
-				const response = await fetch(source.url);
-				const html = await response.text();
-				pageUrls = [source.url, ...(await extractLinks(source.url, html))];
-			}
-
-			// Limit pages
-			pageUrls = pageUrls.slice(0, source.maxPages || 100);
-
-			// Clear existing pages for re-crawl
-			await db.delete(webSourcePages).where(eq(webSourcePages.webSourceId, sourceId));
-
-			// Create page entries
-			for (const url of pageUrls) {
-				await db.insert(webSourcePages).values({
-					webSourceId: sourceId,
-					url,
-					status: "pending",
-				});
-			}
-
-			// Crawl each page
-			const pages = await db
-				.select()
-				.from(webSourcePages)
-				.where(and(eq(webSourcePages.webSourceId, sourceId), eq(webSourcePages.status, "pending")));
-
-			for (const page of pages) {
-				try {
-					const { title, content } = await fetchPageContent(page.url);
-					const contentSize = Buffer.byteLength(content, "utf-8");
-
-					// Update page
-					await db
-						.update(webSourcePages)
-						.set({
-							title,
-							content,
-							contentSize,
-							status: "crawled",
-							lastCrawledAt: new Date(),
-						})
-						.where(eq(webSourcePages.id, page.id));
-
-					// Delete old chunks
-					await db
-						.delete(webSourcePageChunks)
-						.where(eq(webSourcePageChunks.webSourcePageId, page.id));
-
-					// Create embeddings
-					const chunks = chunkText(content);
-					for (let i = 0; i < chunks.length; i++) {
-						const embedding = await createEmbedding(chunks[i]);
-						await db.insert(webSourcePageChunks).values({
-							webSourcePageId: page.id,
-							content: chunks[i],
-							chunkIndex: i,
-							embedding,
-						});
-					}
-				} catch (error) {
-					await db
-						.update(webSourcePages)
-						.set({
-							status: "failed",
-							errorMessage: error instanceof Error ? error.message : "Unknown error",
-						})
-						.where(eq(webSourcePages.id, page.id));
-				}
-			}
-
-			// Update source status
-			await db
-				.update(webSources)
-				.set({
-					status: "completed",
-					lastCrawledAt: new Date(),
-				})
-				.where(eq(webSources.id, sourceId));
-		} catch (error) {
-			await db
-				.update(webSources)
-				.set({
-					status: "failed",
-					errorMessage: error instanceof Error ? error.message : "Unknown error",
-				})
-				.where(eq(webSources.id, sourceId));
+		const invalid = invalidUrlPattern(patterns);
+		if (invalid) {
+			return `invalid URL pattern ${invalid}`;
 		}
-	})();
+	}
+	return null;
 }
 
 // GET /web-sources - List all web sources for an agent
@@ -254,11 +122,21 @@ webSourcesRoute.get("/", async (c) => {
 			const totalSize = pages.reduce((sum, p) => sum + (p.contentSize || 0), 0);
 			const crawledCount = pages.filter((p) => p.status === "crawled").length;
 
+			// Some chunks were stored without embeddings; retry with POST /agents/:id/reembed
+			const [{ needsReembedding }] = await db.execute<{ needsReembedding: boolean }>(sql`
+				SELECT EXISTS (
+					SELECT 1 FROM web_source_page_chunks c
+					JOIN web_source_pages p ON c.web_source_page_id = p.id
+					WHERE p.web_source_id = ${source.id}::uuid AND c.embedding_status = 'failed'
+				) AS "needsReembedding"
+			`);
+
 			return {
 				...source,
 				pageCount,
 				crawledCount,
 				totalSize,
+				needsReembedding,
 			};
 		}),
 	);
@@ -304,18 +182,29 @@ webSourcesRoute.post("/", async (c) => {
 		return c.json({ error: "Unauthorized" }, 401);
 	}
 
-	const body = await c.req.json<{
-		agentId: string;
-		url: string;
-		sourceType: "individual" | "page" | "sitemap" | "crawl";
-		name?: string;
-		maxPages?: number;
-	}>();
+	const body = await c.req.json<
+		{
+			agentId: string;
+			url: string;
+			sourceType: "individual" | "page" | "sitemap" | "crawl";
+			name?: string;
+			chunkStrategy?: ChunkStrategy;
+		} & CrawlSettings
+	>();
 
 	if (!body.agentId || !body.url || !body.sourceType) {
 		return c.json({ error: "agentId, url, and sourceType are required" }, 400);
 	}
 
+	if (body.chunkStrategy && !CHUNK_STRATEGIES.includes(body.chunkStrategy)) {
+		return c.json({ error: "invalid chunkStrategy" }, 400);
+	}
+
+	const invalidSettings = validateCrawlSettings(body);
+	if (invalidSettings) {
+		return c.json({ error: invalidSettings }, 400);
+	}
+
 	const db = getDb();
 
 	if (!(await verifyAgentOwnership(db, body.agentId, user.id))) {
@@ -334,14 +223,193 @@ webSourcesRoute.post("/", async (c) => {
 			sourceType: normalizedSourceType,
 			name: body.name || new URL(body.url).hostname,
 			maxPages: body.maxPages || 100,
+			maxDepth: body.maxDepth ?? 3,
+			includePatterns: body.includePatterns ?? [],
+			excludePatterns: body.excludePatterns ?? [],
+			...scheduleColumns(body.schedule || null),
+			chunkStrategy: body.chunkStrategy || "fixed",
 			status: "pending",
 		})
 		.returning();
 
-	// Start crawling automatically (non-blocking)
-	startCrawl(source.id);
+	// Start crawling automatically
+	const job = await queueCrawl(source);
 
-	return c.json(source, 201);
+	return c.json({ ...source, jobId: job.id }, 201);
+});
+
+// PATCH /web-sources/:id - Update a web source's name, crawl settings and schedule; settings
+// apply from the next crawl
+webSourcesRoute.patch("/:id", async (c) => {
+	// @ts-expect-error - user is set by auth middleware
+	const user = c.get("user") as { id: string } | null;
+	if (!user) {
+		return c.json({ error: "Unauthorized" }, 401);
+	}
+
+	const id = c.req.param("id");
+	const body = await c.req.json<{ name?: string } & CrawlSettings>();
+	const db = getDb();
+
+	const [source] = await db.select().from(webSources).where(eq(webSources.id, id)).limit(1);
+
+	if (!source) {
+		return c.json({ error: "Web source not found" }, 404);
+	}
+
+	if (!(await verifyAgentOwnership(db, source.agentId, user.id))) {
+		return c.json({ error: "Agent not found" }, 404);
+	}
+
+	const invalidSettings = validateCrawlSettings(body);
+	if (invalidSettings) {
+		return c.json({ error: invalidSettings }, 400);
+	}
+
+	const [updated] = await db
+		.update(webSources)
+		.set({
+			name: body.name,
+			maxPages: body.maxPages,
+			maxDepth: body.maxDepth,
+			includePatterns: body.includePatterns,
+			excludePatterns: body.excludePatterns,
+			...(body.schedule !== undefined && scheduleColumns(body.schedule || null)),
+			updatedAt: new Date(),
+		})
+		.where(eq(webSources.id, id))
+		.returning();
+
+	return c.json(updated);
+});
+
+// GET /web-sources/:id/runs - Crawl history of a web source, newest first
+webSourcesRoute.get("/:id/runs", async (c) => {
+	// @ts-expect-error - user is set by auth middleware
+	const user = c.get("user") as { id: string } | null;
+	if (!user) {
+		return c.json({ error: "Unauthorized" }, 401);
+	}
+
+	const id = c.req.param("id");
+	const db = getDb();
+
+	const [source] = await db.select().from(webSources).where(eq(webSources.id, id)).limit(1);
+
+	if (!source) {
+		return c.json({ error: "Web source not found" }, 404);
+	}
+
+	if (!(await verifyAgentOwnership(db, source.agentId, user.id))) {
+		return c.json({ error: "Agent not found" }, 404);
+	}
+
+	const runs = await db
+		.select()
+		.from(webSourceCrawlRuns)
+		.where(eq(webSourceCrawlRuns.webSourceId, id))
+		.orderBy(desc(webSourceCrawlRuns.startedAt))
+		.limit(50);
+
+	return c.json(runs);
+});
+
+// GET /web-sources/:id/progress - Stream the progress of a web source's crawl (SSE). Sends a
+// "progress" event whenever it changes and a final "done" event once the crawl has finished,
+// failed or been cancelled.
+webSourcesRoute.get("/:id/progress", async (c) => {
+	// @ts-expect-error - user is set by auth middleware
+	const user = c.get("user") as { id: string } | null;
+	if (!user) {
+		return c.json({ error: "Unauthorized" }, 401);
+	}
+
+	const id = c.req.param("id");
+	const db = getDb();
+
+	const [source] = await db.select().from(webSources).where(eq(webSources.id, id)).limit(1);
+
+	if (!source) {
+		return c.json({ error: "Web source not found" }, 404);
+	}
+
+	if (!(await verifyAgentOwnership(db, source.agentId, user.id))) {
+		return c.json({ error: "Agent not found" }, 404);
+	}
+
+	return streamSSE(c, async (stream) => {
+		let lastData = "";
+
+		while (!stream.aborted) {
+			const [current] = await db
+				.select({ status: webSources.status })
+				.from(webSources)
+				.where(eq(webSources.id, id))
+				.limit(1);
+			if (!current) break;
+			const [run] = await db
+				.select()
+				.from(webSourceCrawlRuns)
+				.where(eq(webSourceCrawlRuns.webSourceId, id))
+				.orderBy(desc(webSourceCrawlRuns.startedAt))
+				.limit(1);
+
+			const data = JSON.stringify(crawlProgress(current, run ?? null));
+			if (!isCrawlActive(current.status)) {
+				await stream.writeSSE({ event: "done", data });
+				break;
+			}
+			if (data !== lastData) {
+				await stream.writeSSE({ event: "progress", data });
+				lastData = data;
+			}
+			await stream.sleep(PROGRESS_POLL_MS);
+		}
+	});
+});
+
+// POST /web-sources/:id/cancel - Cancel a web source's queued or running crawl. A running crawl
+// stops after the pages it is fetching; the pages indexed so far stay searchable.
+webSourcesRoute.post("/:id/cancel", async (c) => {
+	// @ts-expect-error - user is set by auth middleware
+	const user = c.get("user") as { id: string } | null;
+	if (!user) {
+		return c.json({ error: "Unauthorized" }, 401);
+	}
+
+	const id = c.req.param("id");
+	const db = getDb();
+
+	const [source] = await db.select().from(webSources).where(eq(webSources.id, id)).limit(1);
+
+	if (!source) {
+		return c.json({ error: "Web source not found" }, 404);
+	}
+
+	if (!(await verifyAgentOwnership(db, source.agentId, user.id))) {
+		return c.json({ error: "Agent not found" }, 404);
+	}
+
+	const cancelledJobs = await cancelQueuedJobs("crawl_web_source", id);
+	const stopping = await db
+		.update(webSourceCrawlRuns)
+		.set({ cancelRequestedAt: new Date() })
+		.where(and(eq(webSourceCrawlRuns.webSourceId, id), eq(webSourceCrawlRuns.status, "running")))
+		.returning({ id: webSourceCrawlRuns.id });
+
+	if (cancelledJobs === 0 && stopping.length === 0) {
+		return c.json({ error: "Web source has no crawl to cancel" }, 409);
+	}
+
+	// A crawl that never started is cancelled now; a running one marks itself when it stops
+	if (stopping.length === 0) {
+		await db
+			.update(webSources)
+			.set({ status: "cancelled" })
+			.where(and(eq(webSources.id, id), eq(webSources.status, "pending")));
+	}
+
+	return c.json({ success: true, stopping: stopping.length > 0 });
 });
 
 // POST /web-sources/:id/crawl - Start crawling a web source
@@ -365,10 +433,9 @@ webSourcesRoute.post("/:id/crawl", async (c) => {
 		return c.json({ error: "Agent not found" }, 404);
 	}
 
-	// Start crawl using the helper function
-	startCrawl(id);
+	const job = await queueCrawl(source);
 
-	return c.json({ success: true, message: "Crawl started" });
+	return c.json({ success: true, message: "Crawl queued", jobId: job.id });
 });
 
 // POST /web-sources/:id/recrawl - Alias for crawl endpoint
@@ -392,10 +459,9 @@ webSourcesRoute.post("/:id/recrawl", async (c) => {
 		return c.json({ error: "Agent not found" }, 404);
 	}
 
-	// Start crawl using the helper function
-	startCrawl(id);
+	const job = await queueCrawl(source);
 
-	return c.json({ success: true, message: "Crawl started" });
+	return c.json({ success: true, message: "Crawl queued", jobId: job.id });
 });
 
 // DELETE /web-sources/:id - Delete a web source
@@ -457,14 +523,19 @@ webSourcesRoute.patch("/:sourceId/pages/:pageId", async (c) => {
 	const newStatus =
 		body.isExcluded !== undefined ? (body.isExcluded ? "excluded" : "crawled") : body.status;
 
-	// If excluding, delete chunks
+	// If excluding, delete chunks; forgetting the content hash makes the next crawl embed the page
+	// again if it is included later
 	if (newStatus === "excluded") {
 		await db.delete(webSourcePageChunks).where(eq(webSourcePageChunks.webSourcePageId, pageId));
 	}
 
 	await db
 		.update(webSourcePages)
-		.set({ status: newStatus, updatedAt: new Date() })
+		.set({
+			status: newStatus,
+			...(newStatus === "excluded" && { contentHash: null }),
+			updatedAt: new Date(),
+		})
 		.where(eq(webSourcePages.id, pageId));
 
 	return c.json({ success: true });
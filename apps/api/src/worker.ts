@@ -0,0 +1,26 @@
+// Standalone worker for the ingestion job queue and crawl scheduler. Run it next to the API (with
+// START_WORKER=false there) to scale background work separately from request handling.
+import "./load-env";
+
+const { getEmbeddingProvider } = await import("./lib/embeddings");
+const { registerJobHandlers } = await import("./lib/jobs");
+const { startWorker } = await import("./lib/queue");
+const { startCrawlScheduler } = await import("./lib/scheduler");
+
+// Fail fast on a misconfigured embedding provider
+getEmbeddingProvider();
+
+registerJobHandlers();
+const worker = startWorker();
+const scheduler = startCrawlScheduler();
+
+// Finish running jobs before exiting. Jobs of a worker killed mid-run are requeued once their
+// heartbeat goes stale.
+for (const signal of ["SIGINT", "SIGTERM"] as const) {
+	process.once(signal, async () => {
+		console.log(`[queue] ${signal} received, waiting for running jobs`);
+		scheduler.stop();
+		await worker.stop();
+		process.exit(0);
+	});
+}
@@ -8,6 +8,11 @@ import { useForm } from "react-hook-form";
 import { toast } from "sonner";
 import { z } from "zod";
 import { AuthenticatedLayout } from "@/components/authenticated-layout";
+import {
+  decodeModelValue,
+  encodeModelValue,
+  ModelSelectContent,
+} from "@/components/model-select";
 import { Button } from "@/components/ui/button";
 import { Field, FieldDescription, FieldLabel } from "@/components/ui/field";
 import {
@@ -22,20 +27,25 @@ import { Input } from "@/components/ui/input";
 import {
   Select,
   SelectContent,
-  SelectGroup,
   SelectItem,
-  SelectLabel,
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
 import { INSTRUCTIONS } from "@/lib/agent";
 import { useAgents } from "@/lib/agent-context";
-import { type AgentLimits, createAgent, getAgentLimits, getSupportedModels } from "@/lib/api";
+import {
+  type AgentLimits,
+  createAgent,
+  getAgentLimits,
+  getSupportedModels,
+  type ProviderModels,
+} from "@/lib/api";
 
 const agentSchema = z.object({
   name: z.string().min(1, "Name is required"),
   model: z.string().min(1, "Model is required"),
+  provider: z.enum(["anthropic", "openai", "ollama"]).nullable(),
   temperature: z.number().min(0).max(100),
   systemPrompt: z.string().min(1, "System prompt is required"),
 });
@@ -45,7 +55,7 @@ type AgentFormData = z.infer<typeof agentSchema>;
 export default function NewAgentPage() {
   const router = useRouter();
   const { refetchAgents, setCurrentAgent } = useAgents();
-  const [models, setModels] = useState<string[]>([]);
+  const [models, setModels] = useState<ProviderModels[]>([]);
   const [limits, setLimits] = useState<AgentLimits | null>(null);
   const [loading, setLoading] = useState(true);
   const [selectedInstruction, setSelectedInstruction] = useState("");
@@ -55,12 +65,14 @@ export default function NewAgentPage() {
     defaultValues: {
       name: "",
       model: "claude-sonnet-4-20250514",
+      provider: null,
       temperature: 50,
       systemPrompt: "You are a helpful assistant.",
     },
   });
 
   const temperature = form.watch("temperature");
+  const provider = form.watch("provider");
 
   const fetchData = useCallback(async () => {
     try {
@@ -168,44 +180,20 @@ export default function NewAgentPage() {
               render={({ field }) => (
                 <FormItem>
                   <FormLabel>Model</FormLabel>
-                  <Select onValueChange={field.onChange} value={field.value}>
+                  <Select
+                    onValueChange={(value) => {
+                      const selected = decodeModelValue(value);
+                      field.onChange(selected.model);
+                      form.setValue("provider", selected.provider);
+                    }}
+                    value={encodeModelValue(models, provider, field.value)}
+                  >
                     <FormControl>
                       <SelectTrigger>
                         <SelectValue placeholder="Select a model" />
                       </SelectTrigger>
                     </FormControl>
-                    <SelectContent>
-                      {(() => {
-                        const cloudModels = ["claude-sonnet-4-20250514", "claude-opus-4-20250514", "gpt-4o", "gpt-4o-mini", "gpt-4-turbo"];
-                        const localModels = models.filter((m) => !cloudModels.includes(m));
-                        const availableCloudModels = models.filter((m) => cloudModels.includes(m));
-
-                        return (
-                          <>
-                            {localModels.length > 0 && (
-                              <SelectGroup>
-                                <SelectLabel>Local Models</SelectLabel>
-                                {localModels.map((m) => (
-                                  <SelectItem key={m} value={m}>
-                                    {m}
-                                  </SelectItem>
-                                ))}
-                              </SelectGroup>
-                            )}
-                            {availableCloudModels.length > 0 && (
-                              <SelectGroup>
-                                <SelectLabel>{localModels.length > 0 ? "Cloud Models" : "Models"}</SelectLabel>
-                                {availableCloudModels.map((m) => (
-                                  <SelectItem key={m} value={m}>
-                                    {m}
-                                  </SelectItem>
-                                ))}
-                              </SelectGroup>
-                            )}
-                          </>
-                        );
-                      })()}
-                    </SelectContent>
+                    <ModelSelectContent groups={models} />
                   </Select>
                   <FormMessage />
                 </FormItem>
@@ -6,11 +6,19 @@ import { useForm } from "react-hook-form";
 import { toast } from "sonner";
 import { z } from "zod";
 import { AuthenticatedLayout } from "@/components/authenticated-layout";
+import {
+  decodeModelValue,
+  encodeModelValue,
+  ModelSelectContent,
+} from "@/components/model-select";
+import { ReindexStatus } from "@/components/reindex-status";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Field, FieldDescription, FieldLabel } from "@/components/ui/field";
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -20,29 +28,82 @@ import { Input } from "@/components/ui/input";
 import {
   Select,
   SelectContent,
-  SelectGroup,
   SelectItem,
-  SelectLabel,
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
 import { INSTRUCTIONS } from "@/lib/agent";
 import { useAgent } from "@/lib/agent-context";
-import { getSupportedModels, updateAgent } from "@/lib/api";
+import { getSupportedModels, type ProviderModels, rechunkAgent, updateAgent } from "@/lib/api";
+
+const DEFAULT_RETRIEVAL_SETTINGS = {
+  topK: 5,
+  minScore: 0,
+  maxContextTokens: 4000,
+  sourceWeights: { document: 1, text: 1, qa: 1, web: 1 },
+  qaMatchThreshold: null,
+  qaSkipLlm: true,
+  queryRewrite: false,
+  queryVariants: 1,
+  reranker: "none" as const,
+  rerankCandidates: 30,
+};
+
+const SOURCE_WEIGHT_FIELDS = [
+  { key: "document", label: "Documents" },
+  { key: "text", label: "Text" },
+  { key: "qa", label: "Q&A" },
+  { key: "web", label: "Websites" },
+] as const;
 
-const agentSchema = z.object({
-  name: z.string().min(1, "Name is required"),
-  model: z.string().min(1, "Model is required"),
-  temperature: z.number().min(0).max(100),
-  systemPrompt: z.string().min(1, "System prompt is required"),
-});
+const agentSchema = z
+  .object({
+    name: z.string().min(1, "Name is required"),
+    model: z.string().min(1, "Model is required"),
+    provider: z.enum(["anthropic", "openai", "ollama"]).nullable(),
+    providerBaseUrl: z.union([z.literal(""), z.string().url("Must be a valid URL")]),
+    // Blank keeps the stored key
+    providerApiKey: z.string(),
+    fallbackModels: z
+      .array(z.object({ provider: z.enum(["anthropic", "openai", "ollama"]), model: z.string() }))
+      .max(5),
+    temperature: z.number().min(0).max(100),
+    systemPrompt: z.string().min(1, "System prompt is required"),
+    maxToolSteps: z.number().int().min(1).max(20),
+    retrievalMode: z.enum(["vector", "keyword", "hybrid"]),
+    retrievalSettings: z.object({
+      topK: z.number().int().min(1).max(20),
+      minScore: z.number().min(0).max(1),
+      maxContextTokens: z.number().int().min(500).max(32000),
+      sourceWeights: z.object({
+        document: z.number().min(0).max(5),
+        text: z.number().min(0).max(5),
+        qa: z.number().min(0).max(5),
+        web: z.number().min(0).max(5),
+      }),
+      // null turns Q&A matching off
+      qaMatchThreshold: z.number().min(0).max(1).nullable(),
+      qaSkipLlm: z.boolean(),
+      queryRewrite: z.boolean(),
+      queryVariants: z.number().int().min(1).max(5),
+      reranker: z.enum(["none", "voyage", "local", "llm"]),
+      rerankCandidates: z.number().int().min(5).max(100),
+    }),
+    // In embedding model tokens
+    chunkSize: z.number().int().min(32).max(8192),
+    chunkOverlap: z.number().int().min(0).max(1024),
+  })
+  .refine((data) => data.chunkOverlap < data.chunkSize, {
+    message: "Overlap must be smaller than chunk size",
+    path: ["chunkOverlap"],
+  });
 
 type AgentFormData = z.infer<typeof agentSchema>;
 
 export default function AgentsPage() {
   const { currentAgent, refetchAgents } = useAgent();
-  const [models, setModels] = useState<string[]>([]);
+  const [models, setModels] = useState<ProviderModels[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedInstruction, setSelectedInstruction] = useState("");
 
@@ -51,12 +112,25 @@ export default function AgentsPage() {
     defaultValues: {
       name: "",
       model: "claude-sonnet-4-20250514",
+      provider: null,
+      providerBaseUrl: "",
+      providerApiKey: "",
+      fallbackModels: [],
       temperature: 50,
       systemPrompt: "You are a helpful assistant.",
+      maxToolSteps: 5,
+      retrievalMode: "vector",
+      retrievalSettings: DEFAULT_RETRIEVAL_SETTINGS,
+      chunkSize: 256,
+      chunkOverlap: 50,
     },
   });
 
   const temperature = form.watch("temperature");
+  const provider = form.watch("provider");
+  const fallbackModels = form.watch("fallbackModels");
+  const queryRewrite = form.watch("retrievalSettings.queryRewrite");
+  const reranker = form.watch("retrievalSettings.reranker");
 
   const fetchData = useCallback(async () => {
     if (!currentAgent) return;
@@ -66,8 +140,24 @@ export default function AgentsPage() {
       form.reset({
         name: currentAgent.name,
         model: currentAgent.model,
+        provider: currentAgent.provider,
+        providerBaseUrl: currentAgent.providerBaseUrl ?? "",
+        providerApiKey: "",
+        fallbackModels: currentAgent.fallbackModels,
         temperature: currentAgent.temperature,
         systemPrompt: currentAgent.systemPrompt,
+        maxToolSteps: currentAgent.maxToolSteps,
+        retrievalMode: currentAgent.retrievalMode,
+        retrievalSettings: {
+          ...DEFAULT_RETRIEVAL_SETTINGS,
+          ...currentAgent.retrievalSettings,
+          sourceWeights: {
+            ...DEFAULT_RETRIEVAL_SETTINGS.sourceWeights,
+            ...currentAgent.retrievalSettings.sourceWeights,
+          },
+        },
+        chunkSize: currentAgent.chunkSize,
+        chunkOverlap: currentAgent.chunkOverlap,
       });
     } catch (err) {
       console.error("Failed to fetch data:", err);
@@ -85,7 +175,12 @@ export default function AgentsPage() {
     if (!currentAgent) return;
 
     try {
-      await updateAgent(currentAgent.id, data);
+      const { providerApiKey, providerBaseUrl, ...rest } = data;
+      await updateAgent(currentAgent.id, {
+        ...rest,
+        providerBaseUrl: providerBaseUrl || null,
+        ...(providerApiKey && { providerApiKey }),
+      });
       await refetchAgents();
       toast.success("Agent settings saved");
     } catch (err) {
@@ -94,6 +189,31 @@ export default function AgentsPage() {
     }
   };
 
+  const onRechunk = async () => {
+    if (!currentAgent) return;
+
+    try {
+      await rechunkAgent(currentAgent.id);
+      toast.success("Re-chunking sources in the background");
+    } catch (err) {
+      console.error("Failed to re-chunk sources:", err);
+      toast.error("Failed to re-chunk sources");
+    }
+  };
+
+  const onRemoveApiKey = async () => {
+    if (!currentAgent) return;
+
+    try {
+      await updateAgent(currentAgent.id, { providerApiKey: null });
+      await refetchAgents();
+      toast.success("API key removed");
+    } catch (err) {
+      console.error("Failed to remove API key:", err);
+      toast.error("Failed to remove API key");
+    }
+  };
+
   if (loading) {
     return (
       <AuthenticatedLayout>
@@ -131,50 +251,135 @@ export default function AgentsPage() {
               render={({ field }) => (
                 <FormItem>
                   <FormLabel>Model</FormLabel>
-                  <Select onValueChange={field.onChange} value={field.value}>
+                  <Select
+                    onValueChange={(value) => {
+                      const selected = decodeModelValue(value);
+                      field.onChange(selected.model);
+                      form.setValue("provider", selected.provider);
+                    }}
+                    value={encodeModelValue(models, provider, field.value)}
+                  >
                     <FormControl>
                       <SelectTrigger>
                         <SelectValue placeholder="Select a model" />
                       </SelectTrigger>
                     </FormControl>
-                    <SelectContent>
-                      {(() => {
-                        const cloudModels = ["claude-sonnet-4-20250514", "claude-opus-4-20250514", "gpt-4o", "gpt-4o-mini", "gpt-4-turbo"];
-                        const localModels = models.filter((m) => !cloudModels.includes(m));
-                        const availableCloudModels = models.filter((m) => cloudModels.includes(m));
-
-                        return (
-                          <>
-                            {localModels.length > 0 && (
-                              <SelectGroup>
-                                <SelectLabel>Local Models</SelectLabel>
-                                {localModels.map((m) => (
-                                  <SelectItem key={m} value={m}>
-                                    {m}
-                                  </SelectItem>
-                                ))}
-                              </SelectGroup>
-                            )}
-                            {availableCloudModels.length > 0 && (
-                              <SelectGroup>
-                                <SelectLabel>{localModels.length > 0 ? "Cloud Models" : "Models"}</SelectLabel>
-                                {availableCloudModels.map((m) => (
-                                  <SelectItem key={m} value={m}>
-                                    {m}
-                                  </SelectItem>
-                                ))}
-                              </SelectGroup>
-                            )}
-                          </>
-                        );
-                      })()}
-                    </SelectContent>
+                    <ModelSelectContent groups={models} />
                   </Select>
                   <FormMessage />
                 </FormItem>
               )}
             />
 
+            {provider && provider !== "anthropic" && (
+              <FormField
+                control={form.control}
+                name="providerBaseUrl"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Base URL</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Use the server default" {...field} />
+                    </FormControl>
+                    <FieldDescription>
+                      OpenAI-compatible endpoint for this agent, e.g. https://api.together.xyz/v1
+                    </FieldDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {provider && (
+              <FormField
+                control={form.control}
+                name="providerApiKey"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>API Key</FormLabel>
+                    <div className="flex gap-2">
+                      <FormControl>
+                        <Input
+                          type="password"
+                          autoComplete="off"
+                          placeholder={
+                            currentAgent?.hasProviderApiKey
+                              ? "Stored key (leave blank to keep)"
+                              : "Use the server default"
+                          }
+                          {...field}
+                        />
+                      </FormControl>
+                      {currentAgent?.hasProviderApiKey && (
+                        <Button type="button" variant="outline" onClick={onRemoveApiKey}>
+                          Remove
+                        </Button>
+                      )}
+                    </div>
+                    <FieldDescription>
+                      Stored encrypted and never shown again. Changing the base URL removes it
+                      unless a new key is entered.
+                    </FieldDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <Field>
+              <FieldLabel>Fallback Models</FieldLabel>
+              {fallbackModels.map((fallback, index) => (
+                <div key={`${fallback.provider}-${fallback.model}-${index}`} className="flex gap-2">
+                  <Select
+                    value={encodeModelValue(models, fallback.provider, fallback.model)}
+                    onValueChange={(value) => {
+                      const next = [...fallbackModels];
+                      next[index] = decodeModelValue(value);
+                      form.setValue("fallbackModels", next);
+                    }}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a model" />
+                    </SelectTrigger>
+                    <ModelSelectContent groups={models} />
+                  </Select>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() =>
+                      form.setValue(
+                        "fallbackModels",
+                        fallbackModels.filter((_, i) => i !== index),
+                      )
+                    }
+                  >
+                    Remove
+                  </Button>
+                </div>
+              ))}
+              {fallbackModels.length < 5 && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="w-fit"
+                  disabled={models.every((g) => g.models.length === 0)}
+                  onClick={() => {
+                    const group = models.find((g) => g.models.length > 0);
+                    if (!group) return;
+                    form.setValue("fallbackModels", [
+                      ...fallbackModels,
+                      { provider: group.provider, model: group.models[0] },
+                    ]);
+                  }}
+                >
+                  Add Fallback
+                </Button>
+              )}
+              <FieldDescription>
+                Tried in order if the main model is overloaded or unreachable
+              </FieldDescription>
+            </Field>
+
             <Field>
               <FieldLabel htmlFor="temperature">
                 Temperature: {temperature / 100} (
@@ -247,6 +452,352 @@ export default function AgentsPage() {
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="maxToolSteps"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Max Tool Steps</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min={1}
+                      max={20}
+                      {...field}
+                      onChange={(e) => field.onChange(Number(e.target.value))}
+                    />
+                  </FormControl>
+                  <FieldDescription>
+                    How many rounds of tool calls the agent may chain before it must answer
+                  </FieldDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="retrievalMode"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Retrieval Mode</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="vector">Semantic (vector)</SelectItem>
+                      <SelectItem value="keyword">Keyword</SelectItem>
+                      <SelectItem value="hybrid">Hybrid</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FieldDescription>
+                    Hybrid combines semantic and keyword search, which helps with product names,
+                    SKUs and error codes
+                  </FieldDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="retrievalSettings.topK"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Chunks (Top-K)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={1}
+                        max={20}
+                        {...field}
+                        onChange={(e) => field.onChange(Number(e.target.value))}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="retrievalSettings.minScore"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Min Similarity</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={0}
+                        max={1}
+                        step={0.05}
+                        {...field}
+                        onChange={(e) => field.onChange(Number(e.target.value))}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="retrievalSettings.maxContextTokens"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Context Tokens</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={500}
+                        max={32000}
+                        step={500}
+                        {...field}
+                        onChange={(e) => field.onChange(Number(e.target.value))}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FieldDescription>
+              How many knowledge base chunks to add to the prompt, the minimum semantic
+              similarity (0-1) a match needs, and the token budget for retrieved context
+            </FieldDescription>
+
+            <Field>
+              <FieldLabel>Source Weights</FieldLabel>
+              <div className="grid grid-cols-4 gap-4">
+                {SOURCE_WEIGHT_FIELDS.map(({ key, label }) => (
+                  <FormField
+                    key={key}
+                    control={form.control}
+                    name={`retrievalSettings.sourceWeights.${key}`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-xs text-muted-foreground">{label}</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min={0}
+                            max={5}
+                            step={0.1}
+                            {...field}
+                            onChange={(e) => field.onChange(Number(e.target.value))}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                ))}
+              </div>
+              <FieldDescription>
+                Boost or demote matches by source type. 0 leaves a source type out of answers
+              </FieldDescription>
+            </Field>
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="retrievalSettings.qaMatchThreshold"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Q&A Match Threshold</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={0}
+                        max={1}
+                        step={0.01}
+                        placeholder="Off"
+                        {...field}
+                        value={field.value ?? ""}
+                        onChange={(e) =>
+                          field.onChange(e.target.value === "" ? null : Number(e.target.value))
+                        }
+                      />
+                    </FormControl>
+                    <FormDescription>
+                      Answer with a Q&A pair when its question is at least this similar (0-1).
+                      Leave blank to turn off
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="retrievalSettings.qaSkipLlm"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-start space-x-3 space-y-0 pt-8">
+                    <FormControl>
+                      <Checkbox checked={field.value} onCheckedChange={field.onChange} />
+                    </FormControl>
+                    <div className="space-y-1 leading-none">
+                      <FormLabel>Reply with Q&A answer directly</FormLabel>
+                      <FormDescription>
+                        Skip the model and send the stored answer. Otherwise the model is told
+                        to repeat it verbatim
+                      </FormDescription>
+                    </div>
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="retrievalSettings.queryRewrite"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-start space-x-3 space-y-0 pt-8">
+                    <FormControl>
+                      <Checkbox checked={field.value} onCheckedChange={field.onChange} />
+                    </FormControl>
+                    <div className="space-y-1 leading-none">
+                      <FormLabel>Rewrite follow-up questions</FormLabel>
+                      <FormDescription>
+                        Turn the conversation into a standalone search query before retrieval.
+                        Uses an extra model call per message
+                      </FormDescription>
+                    </div>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="retrievalSettings.queryVariants"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Query Variants</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={1}
+                        max={5}
+                        disabled={!queryRewrite}
+                        {...field}
+                        onChange={(e) => field.onChange(Number(e.target.value))}
+                      />
+                    </FormControl>
+                    <FormDescription>
+                      Search with this many rewritten queries and merge the results
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="retrievalSettings.reranker"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Reranker</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="none">None</SelectItem>
+                        <SelectItem value="voyage">Voyage AI</SelectItem>
+                        <SelectItem value="local">Self-hosted</SelectItem>
+                        <SelectItem value="llm">Agent model</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>
+                      Re-score matches against the question before picking the top chunks
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="retrievalSettings.rerankCandidates"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Rerank Candidates</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={5}
+                        max={100}
+                        disabled={reranker === "none"}
+                        {...field}
+                        onChange={(e) => field.onChange(Number(e.target.value))}
+                      />
+                    </FormControl>
+                    <FormDescription>How many matches the reranker chooses from</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="chunkSize"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Chunk Size</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={32}
+                        max={8192}
+                        step={32}
+                        {...field}
+                        onChange={(e) => field.onChange(Number(e.target.value))}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="chunkOverlap"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Chunk Overlap</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={0}
+                        max={1024}
+                        {...field}
+                        onChange={(e) => field.onChange(Number(e.target.value))}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="flex items-start justify-between gap-4">
+              <FieldDescription>
+                Measured in embedding model tokens. Changing either re-chunks and re-embeds all
+                sources in the background; mxbai-embed-large reads at most 512 tokens per chunk
+              </FieldDescription>
+              <Button type="button" variant="outline" size="sm" onClick={onRechunk}>
+                Re-chunk Sources
+              </Button>
+            </div>
+
+            {currentAgent && (
+              <ReindexStatus agentId={currentAgent.id} onComplete={refetchAgents} />
+            )}
+
             <div className="flex justify-end pt-4">
               <Button type="submit" disabled={form.formState.isSubmitting}>
                 {form.formState.isSubmitting ? "Saving..." : "Save Changes"}
@@ -231,6 +231,9 @@ export default function AnalyticsPage() {
 						</CardHeader>
 						<CardContent>
 							<div className="text-2xl font-bold">{summary?.totalMessages.toLocaleString() || 0}</div>
+							<p className="text-xs text-muted-foreground">
+								{summary?.qaHits.toLocaleString() || 0} answered from Q&A
+							</p>
 						</CardContent>
 					</Card>
 
@@ -1,17 +1,43 @@
 "use client";
 
 import { FileUpload } from "@vela/ui";
-import { useCallback, useEffect, useState } from "react";
+import { type ChangeEvent, useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
 import { AuthenticatedLayout } from "@/components/authenticated-layout";
+import { BulkUploadReport } from "@/components/bulk-upload-report";
+import {
+	CHUNK_STRATEGY_DESCRIPTION,
+	ChunkStrategySelect,
+} from "@/components/chunk-strategy-select";
+import { DocumentVersions } from "@/components/document-versions";
+import { JobStatus } from "@/components/job-status";
+import { ReembedNotice } from "@/components/reembed-notice";
+import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { useAgent } from "@/lib/agent-context";
-import { deleteDocument, listDocuments, uploadDocument } from "@/lib/api";
+import {
+	type BulkUploadReport as BulkReport,
+	bulkUploadDocuments,
+	type ChunkStrategy,
+	deleteDocument,
+	getDocumentDownloadUrl,
+	listDocuments,
+	replaceDocument,
+	reprocessDocument,
+	uploadDocument,
+} from "@/lib/api";
+import { useJobs } from "@/lib/use-jobs";
 
 interface Document {
 	id: string;
 	filename: string;
 	mimeType: string;
 	size: number;
+	chunkStrategy: ChunkStrategy;
+	needsReembedding: boolean;
+	hasOriginal: boolean;
+	version: number;
+	pendingVersion: number | null;
 	createdAt: string;
 }
 
@@ -19,6 +45,9 @@ export default function FilesPage() {
 	const { currentAgent, isLoading: agentLoading } = useAgent();
 	const [documents, setDocuments] = useState<Document[]>([]);
 	const [loading, setLoading] = useState(true);
+	const [chunkStrategy, setChunkStrategy] = useState<ChunkStrategy>("fixed");
+	const [bulkReport, setBulkReport] = useState<BulkReport | null>(null);
+	const [historyFor, setHistoryFor] = useState<string | null>(null);
 
 	const fetchDocuments = useCallback(async () => {
 		if (!currentAgent) {
@@ -36,6 +65,9 @@ export default function FilesPage() {
 		}
 	}, [currentAgent]);
 
+	// Uploads are chunked and embedded in the background
+	const { jobsBySource, refresh: refreshJobs } = useJobs(currentAgent?.id, fetchDocuments);
+
 	useEffect(() => {
 		if (!agentLoading && currentAgent) {
 			fetchDocuments();
@@ -47,10 +79,22 @@ export default function FilesPage() {
 	const handleUpload = useCallback(
 		async (file: File) => {
 			if (!currentAgent) return;
-			await uploadDocument(currentAgent.id, file);
+			await uploadDocument(currentAgent.id, file, chunkStrategy);
+			await fetchDocuments();
+			await refreshJobs();
+		},
+		[currentAgent, fetchDocuments, refreshJobs, chunkStrategy],
+	);
+
+	const handleBulkUpload = useCallback(
+		async (files: File[]) => {
+			if (!currentAgent) return;
+			setBulkReport(null);
+			setBulkReport(await bulkUploadDocuments(currentAgent.id, files, chunkStrategy));
 			await fetchDocuments();
+			await refreshJobs();
 		},
-		[currentAgent, fetchDocuments],
+		[currentAgent, fetchDocuments, refreshJobs, chunkStrategy],
 	);
 
 	const handleDelete = useCallback(
@@ -61,6 +105,35 @@ export default function FilesPage() {
 		[fetchDocuments],
 	);
 
+	const handleReprocess = useCallback(
+		async (id: string) => {
+			try {
+				await reprocessDocument(id);
+				await refreshJobs();
+			} catch (err) {
+				console.error("Failed to reprocess document:", err);
+			}
+		},
+		[refreshJobs],
+	);
+
+	const handleReplace = useCallback(
+		async (id: string, e: ChangeEvent<HTMLInputElement>) => {
+			const file = e.target.files?.[0];
+			e.target.value = "";
+			if (!file) return;
+			try {
+				const { version } = await replaceDocument(id, file);
+				toast.success(`Uploaded version ${version}`);
+				await fetchDocuments();
+				await refreshJobs();
+			} catch (err) {
+				toast.error(err instanceof Error ? err.message : "Upload failed");
+			}
+		},
+		[fetchDocuments, refreshJobs],
+	);
+
 	const formatSize = (bytes: number) => {
 		if (bytes < 1024) return `${bytes} B`;
 		if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
@@ -79,19 +152,62 @@ export default function FilesPage() {
 		return (
 			<div className="overflow-hidden border rounded-lg">
 				{documents.map((doc) => (
-					<div
-						key={doc.id}
-						className="flex items-center justify-between p-4 border-b last:border-b-0"
-					>
-						<div>
-							<p className="font-medium">{doc.filename}</p>
-							<p className="text-sm text-gray-500">
-								{formatSize(doc.size)} &middot; {new Date(doc.createdAt).toLocaleDateString()}
-							</p>
+					<div key={doc.id} className="p-4 border-b last:border-b-0">
+						<div className="flex items-center justify-between">
+							<div>
+								<p className="font-medium">{doc.filename}</p>
+								{doc.needsReembedding && <Badge variant="outline">Needs re-embedding</Badge>}
+								{doc.pendingVersion && (
+									<Badge variant="outline">Switching to v{doc.pendingVersion}</Badge>
+								)}
+								<JobStatus job={jobsBySource[doc.id]} />
+								<p className="text-sm text-gray-500">
+									v{doc.version} &middot; {formatSize(doc.size)} &middot;{" "}
+									{new Date(doc.createdAt).toLocaleDateString()}
+								</p>
+							</div>
+							<div className="flex gap-2">
+								{doc.hasOriginal && (
+									<>
+										<Button variant="outline" size="sm" asChild>
+											<a href={getDocumentDownloadUrl(doc.id)}>Download</a>
+										</Button>
+										<Button variant="outline" size="sm" onClick={() => handleReprocess(doc.id)}>
+											Reprocess
+										</Button>
+									</>
+								)}
+								<Button variant="outline" size="sm" asChild>
+									<label className="cursor-pointer">
+										Replace
+										<input
+											type="file"
+											className="hidden"
+											onChange={(e) => handleReplace(doc.id, e)}
+										/>
+									</label>
+								</Button>
+								<Button
+									variant="outline"
+									size="sm"
+									onClick={() => setHistoryFor(historyFor === doc.id ? null : doc.id)}
+								>
+									History
+								</Button>
+								<Button variant="destructive" size="sm" onClick={() => handleDelete(doc.id)}>
+									Delete
+								</Button>
+							</div>
 						</div>
-						<Button variant="destructive" size="sm" onClick={() => handleDelete(doc.id)}>
-							Delete
-						</Button>
+						{historyFor === doc.id && (
+							<DocumentVersions
+								documentId={doc.id}
+								onRolledBack={() => {
+									fetchDocuments();
+									refreshJobs();
+								}}
+							/>
+						)}
 					</div>
 				))}
 			</div>
@@ -103,11 +219,28 @@ export default function FilesPage() {
 			<div className="max-w-3xl p-8">
 				<h1 className="mb-6 text-2xl font-bold">Documents</h1>
 
-				<FileUpload onUpload={handleUpload} />
+				<div className="mb-4">
+					<p className="mb-2 text-sm font-medium">Chunking</p>
+					<ChunkStrategySelect value={chunkStrategy} onChange={setChunkStrategy} />
+					<p className="mt-1 text-sm text-gray-500">{CHUNK_STRATEGY_DESCRIPTION}</p>
+				</div>
+
+				<FileUpload onUpload={handleUpload} onBulkUpload={handleBulkUpload} />
+				{bulkReport && (
+					<BulkUploadReport report={bulkReport} onDismiss={() => setBulkReport(null)} />
+				)}
 
 				<div className="mt-8">
 					<h2 className="mb-4 text-xl font-semibold">Uploaded Documents</h2>
 
+					{currentAgent && (
+						<ReembedNotice
+							agentId={currentAgent.id}
+							count={documents.filter((d) => d.needsReembedding).length}
+							onRetried={fetchDocuments}
+						/>
+					)}
+
 					{renderDocuments()}
 				</div>
 			</div>
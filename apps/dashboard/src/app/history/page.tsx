@@ -221,6 +221,22 @@ export default function HistoryPage() {
 									)}
 								>
 									{msg.content}
+									{msg.searchQueries && (
+										<p className="mt-1 text-xs text-blue-100">
+											Searched: {msg.searchQueries.join(" | ")}
+										</p>
+									)}
+									{msg.citations && (
+										<div className="pt-2 mt-2 text-xs text-gray-500 border-t">
+											{msg.citations.map((citation) => (
+												<p key={citation.index} className="truncate">
+													[{citation.index}] {citation.title}
+													{/* The document may have been replaced since */}
+													{citation.version && ` (v${citation.version})`}
+												</p>
+											))}
+										</div>
+									)}
 								</div>
 
 								{/* Suggest Response button for assistant messages */}
@@ -6,6 +6,9 @@ import { useCallback, useEffect, useState } from "react";
 import { useFieldArray, useForm } from "react-hook-form";
 import { z } from "zod";
 import { AuthenticatedLayout } from "@/components/authenticated-layout";
+import { JobStatus } from "@/components/job-status";
+import { ReembedNotice } from "@/components/reembed-notice";
+import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import {
 	Empty,
@@ -34,6 +37,7 @@ import {
 	type QaSource,
 	updateQaSource,
 } from "@/lib/api";
+import { useJobs } from "@/lib/use-jobs";
 
 const qaSourceSchema = z.object({
 	questions: z
@@ -80,6 +84,9 @@ export default function QaSourcesPage() {
 		}
 	}, [currentAgent]);
 
+	// Q&As are embedded in the background after saving
+	const { jobsBySource, refresh: refreshJobs } = useJobs(currentAgent?.id, fetchSources);
+
 	useEffect(() => {
 		if (!agentLoading && currentAgent) {
 			fetchSources();
@@ -126,6 +133,7 @@ export default function QaSourcesPage() {
 			setEditing(null);
 			form.reset({ questions: [{ value: "" }], answer: "" });
 			await fetchSources();
+			await refreshJobs();
 		} catch (err) {
 			console.error("Failed to save:", err);
 		} finally {
@@ -195,6 +203,8 @@ export default function QaSourcesPage() {
 					<p className="mt-2 text-sm text-gray-500">
 						{new Date(source.createdAt).toLocaleDateString()}
 					</p>
+					{source.needsReembedding && <Badge variant="outline">Needs re-embedding</Badge>}
+					<JobStatus job={jobsBySource[source.id]} />
 				</div>
 				<div className="flex gap-2 ml-4">
 					<Button variant="outline" size="sm" onClick={() => handleEdit(source.id)}>
@@ -301,6 +311,14 @@ export default function QaSourcesPage() {
 					</Form>
 				)}
 
+				{currentAgent && (
+					<ReembedNotice
+						agentId={currentAgent.id}
+						count={sources.filter((s) => s.needsReembedding).length}
+						onRetried={fetchSources}
+					/>
+				)}
+
 				<div className="overflow-hidden border rounded-lg">
 					{renderSources()}
 				</div>
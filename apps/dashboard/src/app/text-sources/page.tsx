@@ -5,10 +5,18 @@ import { useCallback, useEffect, useState } from "react";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
 import { AuthenticatedLayout } from "@/components/authenticated-layout";
+import {
+	CHUNK_STRATEGY_DESCRIPTION,
+	ChunkStrategySelect,
+} from "@/components/chunk-strategy-select";
+import { JobStatus } from "@/components/job-status";
+import { ReembedNotice } from "@/components/reembed-notice";
+import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import {
 	Form,
 	FormControl,
+	FormDescription,
 	FormField,
 	FormItem,
 	FormLabel,
@@ -25,10 +33,12 @@ import {
 	type TextSource,
 	updateTextSource,
 } from "@/lib/api";
+import { useJobs } from "@/lib/use-jobs";
 
 const textSourceSchema = z.object({
 	title: z.string().min(1, "Title is required"),
 	content: z.string().min(1, "Content is required"),
+	chunkStrategy: z.enum(["fixed", "structured"]),
 });
 
 type TextSourceFormData = z.infer<typeof textSourceSchema>;
@@ -45,6 +55,7 @@ export default function TextSourcesPage() {
 		defaultValues: {
 			title: "",
 			content: "",
+			chunkStrategy: "fixed",
 		},
 	});
 
@@ -64,6 +75,9 @@ export default function TextSourcesPage() {
 		}
 	}, [currentAgent]);
 
+	// Text sources are embedded in the background after saving
+	const { jobsBySource, refresh: refreshJobs } = useJobs(currentAgent?.id, fetchSources);
+
 	useEffect(() => {
 		if (!agentLoading && currentAgent) {
 			fetchSources();
@@ -74,7 +88,7 @@ export default function TextSourcesPage() {
 
 	const handleNew = () => {
 		setEditing("new");
-		form.reset({ title: "", content: "" });
+		form.reset({ title: "", content: "", chunkStrategy: "fixed" });
 	};
 
 	const handleEdit = async (id: string) => {
@@ -83,6 +97,7 @@ export default function TextSourcesPage() {
 			setEditing(id);
 			form.setValue("title", source.title);
 			form.setValue("content", source.content || "");
+			form.setValue("chunkStrategy", source.chunkStrategy ?? "fixed");
 		} catch (err) {
 			console.error("Failed to load source:", err);
 		}
@@ -90,7 +105,7 @@ export default function TextSourcesPage() {
 
 	const handleCancel = () => {
 		setEditing(null);
-		form.reset({ title: "", content: "" });
+		form.reset({ title: "", content: "", chunkStrategy: "fixed" });
 	};
 
 	const onSubmit = async (data: TextSourceFormData) => {
@@ -99,13 +114,14 @@ export default function TextSourcesPage() {
 
 		try {
 			if (editing === "new") {
-				await createTextSource(currentAgent.id, data.title, data.content);
+				await createTextSource(currentAgent.id, data.title, data.content, data.chunkStrategy);
 			} else if (editing) {
-				await updateTextSource(editing, data.title, data.content);
+				await updateTextSource(editing, data.title, data.content, data.chunkStrategy);
 			}
 			setEditing(null);
-			form.reset({ title: "", content: "" });
+			form.reset({ title: "", content: "", chunkStrategy: "fixed" });
 			await fetchSources();
+			await refreshJobs();
 		} catch (err) {
 			console.error("Failed to save:", err);
 		} finally {
@@ -144,6 +160,8 @@ export default function TextSourcesPage() {
 			>
 				<div>
 					<p className="font-medium m-0">{source.title}</p>
+					{source.needsReembedding && <Badge variant="outline">Needs re-embedding</Badge>}
+					<JobStatus job={jobsBySource[source.id]} />
 					<p className="text-sm text-gray-500 mt-1">
 						{new Date(source.createdAt).toLocaleDateString()}
 					</p>
@@ -207,6 +225,17 @@ export default function TextSourcesPage() {
 									</FormItem>
 								)}
 							/>
+							<FormField
+								control={form.control}
+								name="chunkStrategy"
+								render={({ field }) => (
+									<FormItem>
+										<FormLabel>Chunking</FormLabel>
+										<ChunkStrategySelect value={field.value} onChange={field.onChange} />
+										<FormDescription>{CHUNK_STRATEGY_DESCRIPTION}</FormDescription>
+									</FormItem>
+								)}
+							/>
 							<div className="flex justify-end gap-2">
 								<Button type="button" variant="outline" onClick={handleCancel}>
 									Cancel
@@ -219,6 +248,14 @@ export default function TextSourcesPage() {
 					</Form>
 				)}
 
+				{currentAgent && (
+					<ReembedNotice
+						agentId={currentAgent.id}
+						count={sources.filter((s) => s.needsReembedding).length}
+						onRetried={fetchSources}
+					/>
+				)}
+
 				<div className="overflow-hidden border rounded-lg">
 					{renderSources()}
 				</div>
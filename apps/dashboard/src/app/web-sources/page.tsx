@@ -19,6 +19,15 @@ import { useForm } from "react-hook-form";
 import { toast } from "sonner";
 import { z } from "zod";
 import { AuthenticatedLayout } from "@/components/authenticated-layout";
+import {
+  CHUNK_STRATEGY_DESCRIPTION,
+  ChunkStrategySelect,
+} from "@/components/chunk-strategy-select";
+import { CrawlHistory } from "@/components/crawl-history";
+import { CrawlProgress } from "@/components/crawl-progress";
+import { ReembedNotice } from "@/components/reembed-notice";
+import { SCHEDULE_DESCRIPTION, ScheduleSelect } from "@/components/schedule-select";
+import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import {
   Dialog,
@@ -44,27 +53,45 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
 import { useAgent } from "@/lib/agent-context";
 import {
   createWebSource,
   deleteWebSource,
   deleteWebSourcePage,
   getWebSource,
+  type Job,
   listWebSources,
   recrawlWebSource,
   toggleWebSourcePageExclusion,
   type WebSource,
   type WebSourcePage,
 } from "@/lib/api";
+import { useJobs } from "@/lib/use-jobs";
 
 const webSourceSchema = z.object({
   name: z.string().min(1, "Name is required"),
   url: z.string().url("Must be a valid URL"),
   sourceType: z.enum(["individual", "sitemap", "crawl"]),
+  chunkStrategy: z.enum(["fixed", "structured"]),
+  maxPages: z.number().int().min(1).max(10000),
+  maxDepth: z.number().int().min(0).max(20),
+  // One pattern per line
+  includePatterns: z.string(),
+  excludePatterns: z.string(),
+  // "" for manual crawls only
+  schedule: z.string(),
 });
 
 type WebSourceFormData = z.infer<typeof webSourceSchema>;
 
+function parsePatterns(text: string): string[] {
+  return text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
 function formatBytes(bytes: number): string {
   if (bytes === 0) return "0 B";
   const k = 1024;
@@ -73,6 +100,14 @@ function formatBytes(bytes: number): string {
   return `${Number.parseFloat((bytes / k ** i).toFixed(1))} ${sizes[i]}`;
 }
 
+// Pages crawled so far while a crawl job runs, the source's page count otherwise
+function formatPageCount(source: WebSource, job?: Job): string {
+  if (job?.status === "running" && job.total) {
+    return `${job.progress} of ${job.total} pages`;
+  }
+  return `${source.pageCount ?? 0} pages`;
+}
+
 function StatusBadge({ status }: { status: string }) {
   const colors: Record<string, string> = {
     pending: "bg-yellow-100 text-yellow-800",
@@ -120,6 +155,12 @@ export default function WebSourcesPage() {
       name: "",
       url: "",
       sourceType: "individual",
+      chunkStrategy: "fixed",
+      maxPages: 100,
+      maxDepth: 3,
+      includePatterns: "",
+      excludePatterns: "",
+      schedule: "",
     },
   });
 
@@ -140,6 +181,9 @@ export default function WebSourcesPage() {
     }
   }, [currentAgent]);
 
+  // Crawls run as background jobs; poll their progress and reload sources when they finish
+  const { jobsBySource, refresh: refreshJobs } = useJobs(currentAgent?.id, fetchSources);
+
   useEffect(() => {
     if (!agentLoading && currentAgent) {
       fetchSources();
@@ -176,11 +220,27 @@ export default function WebSourcesPage() {
     setSaving(true);
 
     try {
-      await createWebSource(currentAgent.id, data.name, data.url, data.sourceType);
+      await createWebSource(
+        currentAgent.id,
+        data.name,
+        data.url,
+        data.sourceType,
+        data.chunkStrategy,
+        data.sourceType === "individual"
+          ? { schedule: data.schedule.trim() || null }
+          : {
+              maxPages: data.maxPages,
+              maxDepth: data.maxDepth,
+              includePatterns: parsePatterns(data.includePatterns),
+              excludePatterns: parsePatterns(data.excludePatterns),
+              schedule: data.schedule.trim() || null,
+            },
+      );
       setShowAddDialog(false);
       form.reset();
       toast.success("Web source added. Crawling will begin shortly.");
       await fetchSources();
+      await refreshJobs();
     } catch (err) {
       console.error("Failed to create web source:", err);
       toast.error(err instanceof Error ? err.message : "Failed to add web source");
@@ -207,8 +267,9 @@ export default function WebSourcesPage() {
     e.stopPropagation();
     try {
       await recrawlWebSource(id);
-      toast.success("Recrawl started");
+      toast.success("Recrawl queued");
       await fetchSources();
+      await refreshJobs();
     } catch (err) {
       console.error("Failed to recrawl:", err);
       toast.error("Failed to start recrawl");
@@ -287,6 +348,7 @@ export default function WebSourcesPage() {
                   <SourceTypeIcon type={source.sourceType} />
                   <div>
                     <p className="font-medium">{source.name}</p>
+                    {source.needsReembedding && <Badge variant="outline">Needs re-embedding</Badge>}
                     <p className="text-sm text-gray-500 flex items-center gap-2">
                       <span className="truncate max-w-[300px]">{source.url}</span>
                       <a
@@ -303,7 +365,7 @@ export default function WebSourcesPage() {
                 </div>
                 <div className="flex items-center gap-4">
                   <div className="text-right text-sm text-gray-500">
-                    <p>{source.pageCount ?? 0} pages</p>
+                    <p>{formatPageCount(source, jobsBySource[source.id])}</p>
                     <p>{formatBytes(source.totalSize ?? 0)}</p>
                   </div>
                   <StatusBadge status={source.status} />
@@ -326,9 +388,14 @@ export default function WebSourcesPage() {
               </div>
             </button>
 
+            {(source.status === "pending" || source.status === "crawling") && (
+              <CrawlProgress source={source} onFinished={fetchSources} />
+            )}
+
             {/* Expanded Pages List */}
             {expandedSource === source.id && (
               <div className="bg-gray-50 border-t">
+                <CrawlHistory source={source} onUpdated={fetchSources} />
                 {loadingPages === source.id ? (
                   <div className="p-4 flex items-center justify-center">
                     <Loader2 className="w-4 h-4 animate-spin text-gray-400" />
@@ -409,6 +476,14 @@ export default function WebSourcesPage() {
           <Button onClick={() => setShowAddDialog(true)}>Add Web Source</Button>
         </div>
 
+        {currentAgent && (
+          <ReembedNotice
+            agentId={currentAgent.id}
+            count={sources.filter((s) => s.needsReembedding).length}
+            onRetried={fetchSources}
+          />
+        )}
+
         <div className="border rounded-lg bg-white overflow-hidden">{renderSources()}</div>
       </div>
 
@@ -503,6 +578,115 @@ export default function WebSourcesPage() {
                 )}
               />
 
+              {form.watch("sourceType") !== "individual" && (
+                <>
+                  <div className="grid grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="maxPages"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Max Pages</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              min={1}
+                              max={10000}
+                              {...field}
+                              onChange={(e) => field.onChange(Number(e.target.value))}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    {form.watch("sourceType") === "crawl" && (
+                      <FormField
+                        control={form.control}
+                        name="maxDepth"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Max Depth</FormLabel>
+                            <FormControl>
+                              <Input
+                                type="number"
+                                min={0}
+                                max={20}
+                                {...field}
+                                onChange={(e) => field.onChange(Number(e.target.value))}
+                              />
+                            </FormControl>
+                            <FormDescription>Links to follow from the start URL</FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    )}
+                  </div>
+
+                  <FormField
+                    control={form.control}
+                    name="includePatterns"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Include URLs</FormLabel>
+                        <FormControl>
+                          <Textarea placeholder="/docs/**" className="font-mono text-sm" {...field} />
+                        </FormControl>
+                        <FormDescription>
+                          One per line. Only matching pages are crawled; leave empty for all
+                        </FormDescription>
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="excludePatterns"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Exclude URLs</FormLabel>
+                        <FormControl>
+                          <Textarea
+                            placeholder={"/blog/**\n*.pdf\n/\\?page=\\d+/"}
+                            className="font-mono text-sm"
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormDescription>
+                          Globs (* within a path segment, ** across them) or regexes written as
+                          /.../
+                        </FormDescription>
+                      </FormItem>
+                    )}
+                  />
+                </>
+              )}
+
+              <FormField
+                control={form.control}
+                name="chunkStrategy"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Chunking</FormLabel>
+                    <ChunkStrategySelect value={field.value} onChange={field.onChange} />
+                    <FormDescription>{CHUNK_STRATEGY_DESCRIPTION}</FormDescription>
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="schedule"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Recrawl</FormLabel>
+                    <ScheduleSelect value={field.value} onChange={field.onChange} />
+                    <FormDescription>{SCHEDULE_DESCRIPTION}</FormDescription>
+                  </FormItem>
+                )}
+              />
+
               <div className="flex justify-end gap-2 pt-4">
                 <Button type="button" variant="outline" onClick={() => setShowAddDialog(false)}>
                   Cancel
@@ -0,0 +1,43 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import type { BulkUploadReport as Report } from "@/lib/api";
+
+const STATUS_VARIANT = {
+  accepted: "secondary",
+  skipped: "outline",
+  failed: "destructive",
+} as const;
+
+// What happened to each file of a bulk upload; skipped and failed files say why
+export function BulkUploadReport({ report, onDismiss }: { report: Report; onDismiss: () => void }) {
+  return (
+    <div className="mt-4 border rounded-lg">
+      <div className="flex items-center justify-between gap-4 p-4 border-b">
+        <p className="m-0 text-sm">
+          {report.accepted} accepted &middot; {report.skipped} skipped &middot; {report.failed}{" "}
+          failed
+        </p>
+        <Button variant="ghost" size="sm" onClick={onDismiss}>
+          Dismiss
+        </Button>
+      </div>
+      <ul className="overflow-y-auto text-sm max-h-64">
+        {report.files.map((file, index) => (
+          <li
+            // The same path can appear in two archives
+            key={`${index}-${file.filename}`}
+            className="flex items-center justify-between gap-4 px-4 py-2 border-b last:border-b-0"
+          >
+            <span className="truncate">{file.filename}</span>
+            <span className="flex items-center gap-2 shrink-0">
+              {file.status !== "accepted" && (
+                <span className="text-gray-500">{file.reason}</span>
+              )}
+              <Badge variant={STATUS_VARIANT[file.status]}>{file.status}</Badge>
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
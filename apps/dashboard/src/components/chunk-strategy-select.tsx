@@ -0,0 +1,33 @@
+"use client";
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { ChunkStrategy } from "@/lib/api";
+
+export const CHUNK_STRATEGY_DESCRIPTION =
+  "Structured keeps headings, lists, tables and code blocks together and labels each chunk with its section";
+
+export function ChunkStrategySelect({
+  value,
+  onChange,
+}: {
+  value: ChunkStrategy;
+  onChange: (value: ChunkStrategy) => void;
+}) {
+  return (
+    <Select value={value} onValueChange={(v) => onChange(v as ChunkStrategy)}>
+      <SelectTrigger className="w-[220px]">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="fixed">Fixed size</SelectItem>
+        <SelectItem value="structured">Structured (headings)</SelectItem>
+      </SelectContent>
+    </Select>
+  );
+}
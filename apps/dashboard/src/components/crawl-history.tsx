@@ -0,0 +1,114 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { ScheduleSelect } from "@/components/schedule-select";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  listWebSourceRuns,
+  updateWebSource,
+  type WebSource,
+  type WebSourceCrawlRun,
+} from "@/lib/api";
+
+const STATUS_VARIANT = {
+  running: "outline",
+  completed: "secondary",
+  failed: "destructive",
+  cancelled: "outline",
+} as const;
+
+function formatCounts(run: WebSourceCrawlRun): string {
+  return [
+    `${run.pagesAdded} new`,
+    `${run.pagesChanged} changed`,
+    `${run.pagesUnchanged} unchanged`,
+    `${run.pagesFailed} failed`,
+    `${run.pagesRemoved} removed`,
+  ].join(" · ");
+}
+
+// A web source's recrawl schedule and its past crawls with what each one found
+export function CrawlHistory({
+  source,
+  onUpdated,
+}: {
+  source: WebSource;
+  onUpdated: () => void;
+}) {
+  const [runs, setRuns] = useState<WebSourceCrawlRun[] | null>(null);
+  const [schedule, setSchedule] = useState(source.schedule ?? "");
+  const [saving, setSaving] = useState(false);
+
+  const fetchRuns = useCallback(async () => {
+    try {
+      setRuns(await listWebSourceRuns(source.id));
+    } catch (err) {
+      console.error("Failed to fetch crawl history:", err);
+    }
+  }, [source.id]);
+
+  useEffect(() => {
+    fetchRuns();
+  }, [fetchRuns]);
+
+  const onSave = async () => {
+    setSaving(true);
+    try {
+      await updateWebSource(source.id, { schedule: schedule.trim() || null });
+      toast.success(schedule ? "Schedule saved" : "Scheduled crawls turned off");
+      onUpdated();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to save schedule");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="p-4 pl-12 space-y-3 text-sm border-b border-gray-200">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="font-medium">Recrawl</span>
+        <ScheduleSelect value={schedule} onChange={setSchedule} />
+        <Button
+          size="sm"
+          variant="outline"
+          disabled={saving || schedule === (source.schedule ?? "")}
+          onClick={onSave}
+        >
+          {saving ? "Saving..." : "Save"}
+        </Button>
+        {source.nextCrawlAt && (
+          <span className="text-gray-500">
+            Next crawl {new Date(source.nextCrawlAt).toLocaleString()}
+          </span>
+        )}
+      </div>
+
+      {runs === null ? (
+        <p className="text-gray-500">Loading crawl history...</p>
+      ) : runs.length === 0 ? (
+        <p className="text-gray-500">No crawls yet</p>
+      ) : (
+        <ul className="overflow-y-auto bg-white border rounded-md max-h-48">
+          {runs.map((run) => (
+            <li
+              key={run.id}
+              className="flex items-center justify-between gap-4 px-3 py-2 border-b last:border-b-0"
+            >
+              <span className="truncate">
+                {new Date(run.startedAt).toLocaleString()} &middot;{" "}
+                {run.errorMessage ?? formatCounts(run)}
+              </span>
+              <span className="flex items-center gap-2 shrink-0">
+                {run.trigger === "scheduled" && <Badge variant="outline">Scheduled</Badge>}
+                <Badge variant={STATUS_VARIANT[run.status]}>{run.status}</Badge>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
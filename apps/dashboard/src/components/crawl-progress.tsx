@@ -0,0 +1,79 @@
+"use client";
+
+import { Loader2 } from "lucide-react";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  cancelWebSourceCrawl,
+  type WebSource,
+  type WebSourceCrawlProgress,
+  watchWebSourceCrawl,
+} from "@/lib/api";
+
+function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes} min`;
+  return `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+}
+
+function formatProgress(progress: WebSourceCrawlProgress | null): string {
+  if (!progress?.runId) return "Waiting to start...";
+  const parts = [
+    `${progress.done} of ${progress.discovered} pages`,
+    `${progress.fetched} fetched`,
+    `${progress.embedded} embedded`,
+    `${progress.failed} failed`,
+  ];
+  if (progress.etaSeconds !== null) {
+    parts.push(`about ${formatDuration(progress.etaSeconds)} left`);
+  }
+  return parts.join(" · ");
+}
+
+// Live progress of a web source's queued or running crawl, with a button to cancel it. Calls
+// onFinished once the crawl has finished, failed or been cancelled.
+export function CrawlProgress({
+  source,
+  onFinished,
+}: {
+  source: WebSource;
+  onFinished: () => void;
+}) {
+  const [progress, setProgress] = useState<WebSourceCrawlProgress | null>(null);
+  const [cancelRequested, setCancelRequested] = useState(false);
+
+  useEffect(
+    () => watchWebSourceCrawl(source.id, { onProgress: setProgress, onDone: () => onFinished() }),
+    [source.id, onFinished],
+  );
+
+  const onCancel = async () => {
+    setCancelRequested(true);
+    try {
+      await cancelWebSourceCrawl(source.id);
+      toast.success("Cancelling crawl; pages indexed so far are kept");
+    } catch (err) {
+      setCancelRequested(false);
+      toast.error(err instanceof Error ? err.message : "Failed to cancel crawl");
+    }
+  };
+
+  const cancelling = cancelRequested || progress?.cancelling;
+
+  return (
+    <div className="flex items-center justify-between gap-4 px-4 pb-3 pl-12 text-sm text-gray-500">
+      <div className="min-w-0 space-y-1">
+        <p className="flex items-center gap-2">
+          <Loader2 className="w-3 h-3 animate-spin shrink-0" />
+          {formatProgress(progress)}
+        </p>
+        {progress?.currentUrl && <p className="truncate">Fetching {progress.currentUrl}</p>}
+      </div>
+      <Button size="sm" variant="outline" disabled={cancelling} onClick={onCancel}>
+        {cancelling ? "Cancelling..." : "Cancel crawl"}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  type DocumentVersion,
+  getDocumentDownloadUrl,
+  listDocumentVersions,
+  rollbackDocument,
+} from "@/lib/api";
+
+// Version history of a document, with each version's original and a way back to it
+export function DocumentVersions({
+  documentId,
+  onRolledBack,
+}: {
+  documentId: string;
+  onRolledBack: () => void;
+}) {
+  const [versions, setVersions] = useState<DocumentVersion[] | null>(null);
+  const [restoring, setRestoring] = useState<number | null>(null);
+
+  const fetchVersions = useCallback(async () => {
+    try {
+      setVersions(await listDocumentVersions(documentId));
+    } catch (err) {
+      console.error("Failed to fetch versions:", err);
+    }
+  }, [documentId]);
+
+  useEffect(() => {
+    fetchVersions();
+  }, [fetchVersions]);
+
+  const onRestore = async (version: number) => {
+    setRestoring(version);
+    try {
+      await rollbackDocument(documentId, version);
+      toast.success(`Restoring version ${version}`);
+      await fetchVersions();
+      onRolledBack();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to restore version");
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  if (!versions) {
+    return <p className="mt-2 text-sm text-gray-500">Loading versions...</p>;
+  }
+
+  return (
+    <ul className="mt-2 text-sm border rounded-md">
+      {versions.map((v) => (
+        <li
+          key={v.version}
+          className="flex items-center justify-between gap-4 px-3 py-2 border-b last:border-b-0"
+        >
+          <span className="truncate">
+            v{v.version} &middot; {v.filename} &middot; {new Date(v.createdAt).toLocaleString()}
+          </span>
+          <span className="flex items-center gap-2 shrink-0">
+            {v.current && <Badge variant="secondary">Current</Badge>}
+            {v.pending && <Badge variant="outline">Processing</Badge>}
+            {v.hasOriginal && (
+              <Button variant="ghost" size="sm" asChild>
+                <a href={getDocumentDownloadUrl(documentId, v.version)}>Download</a>
+              </Button>
+            )}
+            {!v.current && !v.pending && (
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={restoring !== null}
+                onClick={() => onRestore(v.version)}
+              >
+                {restoring === v.version ? "Restoring..." : "Restore"}
+              </Button>
+            )}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,30 @@
+import { Badge } from "@/components/ui/badge";
+import type { Job } from "@/lib/api";
+
+// Progress of the background job processing a source; nothing once it has completed or was
+// cancelled
+export function JobStatus({ job }: { job?: Job }) {
+  if (!job || job.status === "completed" || job.status === "cancelled") return null;
+
+  if (job.status === "failed") {
+    return (
+      <Badge variant="destructive" title={job.errorMessage ?? undefined}>
+        Processing failed
+      </Badge>
+    );
+  }
+
+  if (job.status === "queued") {
+    return (
+      <Badge variant="secondary" title={job.errorMessage ?? undefined}>
+        {job.attempts > 0 ? "Retrying" : "Queued"}
+      </Badge>
+    );
+  }
+
+  return (
+    <Badge variant="secondary">
+      {job.total ? `Processing ${job.progress}/${job.total}` : "Processing"}
+    </Badge>
+  );
+}
@@ -0,0 +1,44 @@
+"use client";
+
+import { SelectContent, SelectGroup, SelectItem, SelectLabel } from "@/components/ui/select";
+import type { LLMProvider, ProviderModels } from "@/lib/api";
+
+// Select values carry both provider and model, e.g. "ollama::llama3.1"
+const SEPARATOR = "::";
+
+export function encodeModelValue(
+  groups: ProviderModels[],
+  provider: LLMProvider | null,
+  model: string,
+): string {
+  // Agents without an explicit provider use whichever group offers their model
+  const resolved = provider ?? groups.find((g) => g.models.includes(model))?.provider;
+  return resolved ? `${resolved}${SEPARATOR}${model}` : "";
+}
+
+export function decodeModelValue(value: string): { provider: LLMProvider; model: string } {
+  const index = value.indexOf(SEPARATOR);
+  return {
+    provider: value.slice(0, index) as LLMProvider,
+    model: value.slice(index + SEPARATOR.length),
+  };
+}
+
+export function ModelSelectContent({ groups }: { groups: ProviderModels[] }) {
+  return (
+    <SelectContent>
+      {groups
+        .filter((g) => g.models.length > 0)
+        .map((group) => (
+          <SelectGroup key={group.provider}>
+            <SelectLabel>{group.label}</SelectLabel>
+            {group.models.map((m) => (
+              <SelectItem key={m} value={`${group.provider}${SEPARATOR}${m}`}>
+                {m}
+              </SelectItem>
+            ))}
+          </SelectGroup>
+        ))}
+    </SelectContent>
+  );
+}
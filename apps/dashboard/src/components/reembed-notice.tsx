@@ -0,0 +1,49 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { retryEmbeddings } from "@/lib/api";
+
+// Shown above a source list when some sources were stored while the embedding service was down,
+// so they are only found by keyword search until retried
+export function ReembedNotice({
+  agentId,
+  count,
+  onRetried,
+}: {
+  agentId: string;
+  count: number;
+  onRetried: () => void;
+}) {
+  const [retrying, setRetrying] = useState(false);
+
+  if (count === 0) return null;
+
+  const onRetry = async () => {
+    setRetrying(true);
+    try {
+      const result = await retryEmbeddings(agentId);
+      toast.success(`Re-embedded ${result.retried} chunks`);
+    } catch (err) {
+      console.error("Failed to retry embeddings:", err);
+      toast.error(err instanceof Error ? err.message : "Failed to retry embeddings");
+    } finally {
+      setRetrying(false);
+      onRetried();
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-between gap-4 p-4 mb-4 text-sm border rounded-lg border-amber-300 bg-amber-50 text-amber-900">
+      <p className="m-0">
+        {count} {count === 1 ? "source needs" : "sources need"} re-embedding. The embedding service
+        was unavailable when {count === 1 ? "it was" : "they were"} added, so only keyword search
+        finds {count === 1 ? "it" : "them"}.
+      </p>
+      <Button variant="outline" size="sm" disabled={retrying} onClick={onRetry}>
+        {retrying ? "Retrying..." : "Retry"}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Field, FieldDescription, FieldLabel } from "@/components/ui/field";
+import { getReindexStatus, type ReindexStatus as Status, startReindex } from "@/lib/api";
+
+const POLL_INTERVAL_MS = 2000;
+
+// Shows which embedding model an agent's chunks were made with, and re-embeds them with the
+// configured model on request, polling the job's progress while it runs
+export function ReindexStatus({
+  agentId,
+  onComplete,
+}: {
+  agentId: string;
+  onComplete?: () => void;
+}) {
+  const [status, setStatus] = useState<Status | null>(null);
+  const wasRunning = useRef(false);
+  const running = status?.job?.status === "running";
+
+  const fetchStatus = useCallback(async () => {
+    try {
+      const next = await getReindexStatus(agentId);
+      if (wasRunning.current && next.job?.status === "completed") {
+        toast.success("Re-index complete");
+        onComplete?.();
+      }
+      wasRunning.current = next.job?.status === "running";
+      setStatus(next);
+    } catch (err) {
+      console.error("Failed to fetch re-index status:", err);
+    }
+  }, [agentId, onComplete]);
+
+  useEffect(() => {
+    fetchStatus();
+  }, [fetchStatus]);
+
+  useEffect(() => {
+    if (!running) return;
+    const interval = setInterval(fetchStatus, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [running, fetchStatus]);
+
+  const onReindex = async () => {
+    try {
+      const job = await startReindex(agentId);
+      wasRunning.current = true;
+      setStatus((prev) => (prev ? { ...prev, job } : prev));
+    } catch (err) {
+      console.error("Failed to start re-index:", err);
+      toast.error("Failed to start re-index");
+    }
+  };
+
+  if (!status) return null;
+
+  const { job } = status;
+
+  return (
+    <Field>
+      <FieldLabel>Embeddings</FieldLabel>
+      <div className="flex items-start justify-between gap-4">
+        <FieldDescription>
+          {status.needsReindex
+            ? `Embedded with ${status.embeddingModel ?? "an unrecorded model"}, but ${status.configuredModel} is configured. Search uses keywords only until the knowledge base is re-indexed.`
+            : `Embedded with ${status.embeddingModel ?? status.configuredModel}.`}
+          {running && job && ` Re-indexing: ${job.processedChunks} of ${job.totalChunks} chunks.`}
+          {job?.status === "failed" && ` Last re-index failed: ${job.errorMessage}.`}
+        </FieldDescription>
+        <Button type="button" variant="outline" size="sm" disabled={running} onClick={onReindex}>
+          {running ? "Re-indexing..." : "Re-index"}
+        </Button>
+      </div>
+    </Field>
+  );
+}
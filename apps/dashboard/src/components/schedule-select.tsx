@@ -0,0 +1,53 @@
+"use client";
+
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+export const SCHEDULE_DESCRIPTION =
+  "Recrawl automatically; custom schedules are cron expressions in UTC, e.g. 0 3 * * 1 for Mondays at 03:00";
+
+const DEFAULT_CRON = "0 3 * * *";
+
+// A web source's recrawl schedule: "" for manual only, "daily", "weekly" or a cron expression
+export function ScheduleSelect({
+  value,
+  onChange,
+}: {
+  value: string;
+  onChange: (value: string) => void;
+}) {
+  const preset = value === "" ? "manual" : value === "daily" || value === "weekly" ? value : "custom";
+
+  return (
+    <div className="flex items-center gap-2">
+      <Select
+        value={preset}
+        onValueChange={(v) => onChange(v === "manual" ? "" : v === "custom" ? DEFAULT_CRON : v)}
+      >
+        <SelectTrigger className="w-[160px]">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="manual">Manual only</SelectItem>
+          <SelectItem value="daily">Daily</SelectItem>
+          <SelectItem value="weekly">Weekly</SelectItem>
+          <SelectItem value="custom">Custom (cron)</SelectItem>
+        </SelectContent>
+      </Select>
+      {preset === "custom" && (
+        <Input
+          className="font-mono w-[180px]"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={DEFAULT_CRON}
+        />
+      )}
+    </div>
+  );
+}
@@ -28,10 +28,18 @@ export async function getConfig(): Promise<AppConfig> {
 
 // ============ Documents API ============
 
-export async function uploadDocument(agentId: string, file: File) {
+// "fixed" splits on a character count, "structured" follows headings, lists, tables and code
+export type ChunkStrategy = "fixed" | "structured";
+
+export async function uploadDocument(
+	agentId: string,
+	file: File,
+	chunkStrategy: ChunkStrategy = "fixed",
+) {
 	const formData = new FormData();
 	formData.append("file", file);
 	formData.append("agentId", agentId);
+	formData.append("chunkStrategy", chunkStrategy);
 
 	const response = await fetch(`${API_BASE}/documents`, {
 		method: "POST",
@@ -47,6 +55,43 @@ export async function uploadDocument(agentId: string, file: File) {
 	return response.json();
 }
 
+// Outcome of each file in a bulk upload; files inside ZIP archives are named by their path
+export interface BulkUploadReport {
+	accepted: number;
+	skipped: number;
+	failed: number;
+	files: Array<
+		| { filename: string; status: "accepted"; documentId: string; jobId: string }
+		| { filename: string; status: "skipped" | "failed"; reason: string }
+	>;
+}
+
+export async function bulkUploadDocuments(
+	agentId: string,
+	files: File[],
+	chunkStrategy: ChunkStrategy = "fixed",
+): Promise<BulkUploadReport> {
+	const formData = new FormData();
+	for (const file of files) {
+		formData.append("files", file);
+	}
+	formData.append("agentId", agentId);
+	formData.append("chunkStrategy", chunkStrategy);
+
+	const response = await fetch(`${API_BASE}/documents/bulk`, {
+		method: "POST",
+		body: formData,
+		credentials: "include",
+	});
+
+	if (!response.ok) {
+		const error = await response.json();
+		throw new Error(error.error || "Upload failed");
+	}
+
+	return response.json();
+}
+
 export async function listDocuments(agentId: string) {
 	const response = await fetch(`${API_BASE}/documents?agentId=${agentId}`, {
 		credentials: "include",
@@ -73,6 +118,87 @@ export async function deleteDocument(id: string) {
 	return response.json();
 }
 
+// The original file of the current or a given version, served as an attachment (the session
+// cookie authorizes the link)
+export function getDocumentDownloadUrl(id: string, version?: number) {
+	const query = version === undefined ? "" : `?version=${version}`;
+	return `${API_BASE}/documents/${id}/download${query}`;
+}
+
+// Extracts, chunks and embeds the document again from its original file
+export async function reprocessDocument(id: string, chunkStrategy?: ChunkStrategy) {
+	const response = await fetch(`${API_BASE}/documents/${id}/reprocess`, {
+		method: "POST",
+		headers: { "Content-Type": "application/json" },
+		body: JSON.stringify({ chunkStrategy }),
+		credentials: "include",
+	});
+
+	if (!response.ok) {
+		const error = await response.json();
+		throw new Error(error.error || "Reprocess failed");
+	}
+
+	return response.json();
+}
+
+// Uploads a new version of the document; search keeps using the current one until it's processed
+export async function replaceDocument(id: string, file: File) {
+	const formData = new FormData();
+	formData.append("file", file);
+
+	const response = await fetch(`${API_BASE}/documents/${id}`, {
+		method: "PUT",
+		body: formData,
+		credentials: "include",
+	});
+
+	if (!response.ok) {
+		const error = await response.json();
+		throw new Error(error.error || "Upload failed");
+	}
+
+	return response.json();
+}
+
+export interface DocumentVersion {
+	version: number;
+	filename: string;
+	mimeType: string;
+	size: number;
+	contentHash: string | null;
+	hasOriginal: boolean;
+	current: boolean;
+	pending: boolean; // being processed to replace the current version
+	createdAt: string;
+}
+
+export async function listDocumentVersions(id: string): Promise<DocumentVersion[]> {
+	const response = await fetch(`${API_BASE}/documents/${id}/versions`, {
+		credentials: "include",
+	});
+
+	if (!response.ok) {
+		throw new Error("Failed to fetch versions");
+	}
+
+	return response.json();
+}
+
+export async function rollbackDocument(id: string, version: number) {
+	const response = await fetch(`${API_BASE}/documents/${id}/versions/${version}/rollback`, {
+		method: "POST",
+		credentials: "include",
+	});
+
+	if (!response.ok) {
+		const error = await response.json();
+		throw new Error(error.error || "Rollback failed");
+	}
+
+	return response.json();
+}
+
 // ============ Text Sources API ============
 
 export interface TextSource {
@@ -80,15 +206,23 @@ export interface TextSource {
 	agentId: string;
 	title: string;
 	content?: string;
+	chunkStrategy?: ChunkStrategy;
+	// Some chunks were stored without embeddings (list endpoint only)
+	needsReembedding?: boolean;
 	createdAt: string;
 	updatedAt: string;
 }
 
-export async function createTextSource(agentId: string, title: string, content: string) {
+export async function createTextSource(
+	agentId: string,
+	title: string,
+	content: string,
+	chunkStrategy: ChunkStrategy = "fixed",
+) {
 	const response = await fetch(`${API_BASE}/text-sources`, {
 		method: "POST",
 		headers: { "Content-Type": "application/json" },
-		body: JSON.stringify({ agentId, title, content }),
+		body: JSON.stringify({ agentId, title, content, chunkStrategy }),
 		credentials: "include",
 	});
 
@@ -125,11 +259,16 @@ export async function getTextSource(id: string): Promise<TextSource> {
 	return response.json();
 }
 
-export async function updateTextSource(id: string, title: string, content: string) {
+export async function updateTextSource(
+	id: string,
+	title: string,
+	content: string,
+	chunkStrategy?: ChunkStrategy,
+) {
 	const response = await fetch(`${API_BASE}/text-sources/${id}`, {
 		method: "PUT",
 		headers: { "Content-Type": "application/json" },
-		body: JSON.stringify({ title, content }),
+		body: JSON.stringify({ title, content, chunkStrategy }),
 		credentials: "include",
 	});
 
@@ -162,6 +301,8 @@ export interface QaSource {
 	agentId: string;
 	questions: string[];
 	answer: string;
+	// Some chunks were stored without embeddings (list endpoint only)
+	needsReembedding?: boolean;
 	createdAt: string;
 	updatedAt: string;
 }
@@ -237,6 +378,46 @@ export async function deleteQaSource(id: string) {
 	return response.json();
 }
 
+// ============ Jobs API ============
+
+// Background work (document processing, embedding, crawls) queued on the API
+export interface Job {
+	id: string;
+	type:
+		| "ingest_document"
+		| "embed_text_source"
+		| "embed_qa_source"
+		| "crawl_web_source"
+		| "rechunk_agent"
+		| "reindex_agent"
+		| "detect_embedding_model";
+	agentId: string | null;
+	sourceType: "document" | "text_source" | "qa_source" | "web_source" | "agent" | null;
+	sourceId: string | null;
+	status: "queued" | "running" | "completed" | "failed" | "cancelled";
+	attempts: number;
+	maxAttempts: number;
+	progress: number;
+	total: number | null;
+	errorMessage: string | null;
+	completedAt: string | null;
+	createdAt: string;
+	updatedAt: string;
+}
+
+// Queued and running jobs, plus those finished in the last hour, newest first
+export async function listJobs(agentId: string): Promise<Job[]> {
+	const response = await fetch(`${API_BASE}/jobs?agentId=${agentId}`, {
+		credentials: "include",
+	});
+
+	if (!response.ok) {
+		throw new Error("Failed to fetch jobs");
+	}
+
+	return response.json();
+}
+
 // ============ Conversations API ============
 
 export interface ConversationMessage {
@@ -244,6 +425,17 @@ export interface ConversationMessage {
 	conversationId: string;
 	role: "user" | "assistant";
 	content: string;
+	// Search queries a user message was rewritten into for retrieval
+	searchQueries: string[] | null;
+	// Sources an assistant message cited; documents with the version the text came from
+	citations: Array<{
+		index: number;
+		type: SourceType;
+		sourceId: string;
+		title: string;
+		url?: string;
+		version?: number;
+	}> | null;
 	createdAt: string;
 }
 
@@ -304,13 +496,60 @@ export interface Agent {
 	name: string;
 	slug: string;
 	model: string;
+	provider: LLMProvider | null;
+	providerBaseUrl: string | null;
+	hasProviderApiKey: boolean;
+	fallbackModels: FallbackModel[];
 	temperature: number;
 	systemPrompt: string;
+	maxToolSteps: number;
+	retrievalMode: RetrievalMode;
+	retrievalSettings: Partial<RetrievalSettings>;
+	chunkSize: number;
+	chunkOverlap: number;
+	// "provider/model" of the agent's chunk embeddings; null if created before it was recorded
+	embeddingModel: string | null;
+	// Embedded with another model than the configured one; search falls back to keywords
+	needsReindex: boolean;
 	isDefault: boolean;
 	createdAt: string;
 	updatedAt: string;
 }
 
+export type LLMProvider = "anthropic" | "openai" | "ollama";
+
+export type RetrievalMode = "vector" | "keyword" | "hybrid";
+
+export type Reranker = "none" | "voyage" | "local" | "llm";
+
+export type SourceType = "document" | "text" | "qa" | "web";
+
+export interface RetrievalSettings {
+	topK: number;
+	minScore: number;
+	sourceWeights: Partial<Record<SourceType, number>>;
+	maxContextTokens: number;
+	// null turns Q&A matching off
+	qaMatchThreshold: number | null;
+	qaSkipLlm: boolean;
+	// Condense the conversation into standalone search queries before retrieval
+	queryRewrite: boolean;
+	queryVariants: number;
+	reranker: Reranker;
+	rerankCandidates: number;
+}
+
+export interface FallbackModel {
+	provider: LLMProvider;
+	model: string;
+}
+
+export interface ProviderModels {
+	provider: LLMProvider;
+	label: string;
+	models: string[];
+}
+
 export async function listAgents(): Promise<Agent[]> {
 	const response = await fetch(`${API_BASE}/agents`, {
 		credentials: "include",
@@ -349,7 +588,7 @@ export async function getDefaultAgent(): Promise<Agent> {
 	return response.json();
 }
 
-export async function getSupportedModels(): Promise<string[]> {
+export async function getSupportedModels(): Promise<ProviderModels[]> {
 	const response = await fetch(`${API_BASE}/agents/models`, {
 		credentials: "include",
 	});
@@ -364,6 +603,9 @@ export async function getSupportedModels(): Promise<string[]> {
 export async function createAgent(data: {
 	name: string;
 	model: string;
+	provider?: LLMProvider | null;
+	providerBaseUrl?: string | null;
+	providerApiKey?: string | null;
 	temperature: number;
 	systemPrompt: string;
 	isDefault?: boolean;
@@ -388,8 +630,19 @@ export async function updateAgent(
 	data: Partial<{
 		name: string;
 		model: string;
+		provider: LLMProvider | null;
+		providerBaseUrl: string | null;
+		// null clears the stored key
+		providerApiKey: string | null;
+		fallbackModels: FallbackModel[];
 		temperature: number;
 		systemPrompt: string;
+		maxToolSteps: number;
+		retrievalMode: RetrievalMode;
+		retrievalSettings: Partial<RetrievalSettings>;
+		// Changing either re-chunks the agent's sources in the background
+		chunkSize: number;
+		chunkOverlap: number;
 		isDefault: boolean;
 	}>,
 ): Promise<Agent> {
@@ -408,6 +661,88 @@ export async function updateAgent(
 	return response.json();
 }
 
+export async function rechunkAgent(id: string): Promise<{ started: boolean; jobId: string }> {
+	const response = await fetch(`${API_BASE}/agents/${id}/rechunk`, {
+		method: "POST",
+		credentials: "include",
+	});
+
+	if (!response.ok) {
+		const error = await response.json();
+		throw new Error(error.error || "Re-chunk failed");
+	}
+
+	return response.json();
+}
+
+export interface ReindexJob {
+	id: string;
+	agentId: string;
+	embeddingModel: string;
+	status: "running" | "completed" | "failed";
+	totalChunks: number;
+	processedChunks: number;
+	errorMessage: string | null;
+	completedAt: string | null;
+	createdAt: string;
+	updatedAt: string;
+}
+
+export interface ReindexStatus {
+	embeddingModel: string | null;
+	configuredModel: string;
+	needsReindex: boolean;
+	job: ReindexJob | null;
+}
+
+export async function getReindexStatus(id: string): Promise<ReindexStatus> {
+	const response = await fetch(`${API_BASE}/agents/${id}/reindex`, {
+		credentials: "include",
+	});
+
+	if (!response.ok) {
+		const error = await response.json();
+		throw new Error(error.error || "Failed to fetch re-index status");
+	}
+
+	return response.json();
+}
+
+export async function startReindex(id: string): Promise<ReindexJob> {
+	const response = await fetch(`${API_BASE}/agents/${id}/reindex`, {
+		method: "POST",
+		credentials: "include",
+	});
+
+	if (!response.ok) {
+		const error = await response.json();
+		throw new Error(error.error || "Re-index failed");
+	}
+
+	return response.json();
+}
+
+export interface RetryEmbeddingsResult {
+	retried: number;
+	failed: number;
+	error: string | null;
+}
+
+// Embed chunks stored without vectors while the embedding service was down
+export async function retryEmbeddings(agentId: string): Promise<RetryEmbeddingsResult> {
+	const response = await fetch(`${API_BASE}/agents/${agentId}/reembed`, {
+		method: "POST",
+		credentials: "include",
+	});
+
+	if (!response.ok) {
+		const error = await response.json();
+		throw new Error(error.error || "Retry failed");
+	}
+
+	return response.json();
+}
+
 export async function deleteAgent(id: string) {
 	const response = await fetch(`${API_BASE}/agents/${id}`, {
 		method: "DELETE",
@@ -745,6 +1080,8 @@ export interface AnalyticsSummary {
 	thumbsUp: number;
 	thumbsDown: number;
 	feedbackRatio: number;
+	// Answers served from a matched Q&A pair
+	qaHits: number;
 }
 
 export interface AnalyticsDailyData {
@@ -753,6 +1090,7 @@ export interface AnalyticsDailyData {
 	messages: number;
 	thumbsUp: number;
 	thumbsDown: number;
+	qaHits: number;
 }
 
 export interface AnalyticsCountryData {
@@ -1084,12 +1422,22 @@ export interface WebSource {
 	name: string;
 	url: string;
 	sourceType: "individual" | "sitemap" | "crawl";
-	status: "pending" | "crawling" | "completed" | "failed";
+	chunkStrategy: ChunkStrategy;
+	maxPages: number | null;
+	maxDepth: number;
+	includePatterns: string[];
+	excludePatterns: string[];
+	schedule: string | null;
+	nextCrawlAt: string | null;
+	lastCrawledAt: string | null;
+	status: "pending" | "crawling" | "completed" | "failed" | "cancelled";
 	errorMessage: string | null;
 	createdAt: string;
 	updatedAt: string;
 	pageCount?: number;
 	totalSize?: number;
+	// Some chunks were stored without embeddings
+	needsReembedding?: boolean;
 }
 
 export interface WebSourcePage {
@@ -1107,6 +1455,50 @@ export interface WebSourcePage {
 	updatedAt: string;
 }
 
+// Limits and URL rules for sitemap and crawl sources. Patterns are globs ("/docs/**", "*.pdf")
+// or regexes written as /.../
+export interface WebSourceCrawlSettings {
+	maxPages?: number;
+	maxDepth?: number;
+	includePatterns?: string[];
+	excludePatterns?: string[];
+	// "daily", "weekly" or a cron expression in UTC; null to crawl only on request
+	schedule?: string | null;
+}
+
+export interface WebSourceCrawlRun {
+	id: string;
+	webSourceId: string;
+	jobId: string | null;
+	trigger: "manual" | "scheduled";
+	status: "running" | "completed" | "failed" | "cancelled";
+	pagesDiscovered: number;
+	pagesFetched: number;
+	pagesAdded: number;
+	pagesChanged: number;
+	pagesUnchanged: number;
+	pagesFailed: number;
+	pagesRemoved: number;
+	errorMessage: string | null;
+	startedAt: string;
+	finishedAt: string | null;
+}
+
+// Progress of a web source's crawl, streamed while it is queued or running
+export interface WebSourceCrawlProgress {
+	status: WebSource["status"];
+	runId: string | null;
+	discovered: number;
+	fetched: number;
+	embedded: number;
+	failed: number;
+	done: number;
+	currentUrl: string | null;
+	startedAt: string | null;
+	etaSeconds: number | null;
+	cancelling: boolean;
+}
+
 export async function listWebSources(agentId: string): Promise<WebSource[]> {
 	const response = await fetch(`${API_BASE}/web-sources?agentId=${agentId}`, {
 		credentials: "include",
@@ -1138,11 +1530,13 @@ export async function createWebSource(
 	name: string,
 	url: string,
 	sourceType: "individual" | "sitemap" | "crawl",
+	chunkStrategy: ChunkStrategy = "fixed",
+	settings: WebSourceCrawlSettings = {},
 ): Promise<WebSource> {
 	const response = await fetch(`${API_BASE}/web-sources`, {
 		method: "POST",
 		headers: { "Content-Type": "application/json" },
-		body: JSON.stringify({ agentId, name, url, sourceType }),
+		body: JSON.stringify({ agentId, name, url, sourceType, chunkStrategy, ...settings }),
 		credentials: "include",
 	});
 
@@ -1154,6 +1548,38 @@ export async function createWebSource(
 	return response.json();
 }
 
+export async function updateWebSource(
+	id: string,
+	updates: { name?: string } & WebSourceCrawlSettings,
+): Promise<WebSource> {
+	const response = await fetch(`${API_BASE}/web-sources/${id}`, {
+		method: "PATCH",
+		headers: { "Content-Type": "application/json" },
+		body: JSON.stringify(updates),
+		credentials: "include",
+	});
+
+	if (!response.ok) {
+		const error = await response.json();
+		throw new Error(error.error || "Failed to update web source");
+	}
+
+	return response.json();
+}
+
+export async function listWebSourceRuns(id: string): Promise<WebSourceCrawlRun[]> {
+	const response = await fetch(`${API_BASE}/web-sources/${id}/runs`, {
+		credentials: "include",
+	});
+
+	if (!response.ok) {
+		const error = await response.json();
+		throw new Error(error.error || "Failed to fetch crawl history");
+	}
+
+	return response.json();
+}
+
 export async function deleteWebSource(id: string): Promise<void> {
 	const response = await fetch(`${API_BASE}/web-sources/${id}`, {
 		method: "DELETE",
@@ -1178,6 +1604,40 @@ export async function recrawlWebSource(id: string): Promise<void> {
 	}
 }
 
+// Streams a web source's crawl progress until the crawl finishes. Returns a function that stops
+// listening.
+export function watchWebSourceCrawl(
+	id: string,
+	handlers: {
+		onProgress: (progress: WebSourceCrawlProgress) => void;
+		onDone: (progress: WebSourceCrawlProgress) => void;
+	},
+): () => void {
+	const events = new EventSource(`${API_BASE}/web-sources/${id}/progress`, {
+		withCredentials: true,
+	});
+	events.addEventListener("progress", (event) => {
+		handlers.onProgress(JSON.parse(event.data));
+	});
+	events.addEventListener("done", (event) => {
+		events.close();
+		handlers.onDone(JSON.parse(event.data));
+	});
+	return () => events.close();
+}
+
+export async function cancelWebSourceCrawl(id: string): Promise<void> {
+	const response = await fetch(`${API_BASE}/web-sources/${id}/cancel`, {
+		method: "POST",
+		credentials: "include",
+	});
+
+	if (!response.ok) {
+		const error = await response.json();
+		throw new Error(error.error || "Failed to cancel crawl");
+	}
+}
+
 export async function toggleWebSourcePageExclusion(
 	sourceId: string,
 	pageId: string,
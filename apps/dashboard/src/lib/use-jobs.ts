@@ -0,0 +1,59 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { type Job, listJobs } from "@/lib/api";
+
+const POLL_INTERVAL_MS = 2000;
+
+function isActive(job: Job) {
+  return job.status === "queued" || job.status === "running";
+}
+
+/**
+ * Hook to follow an agent's background jobs, polling while any is queued or running.
+ * onSettled runs when the last active job finishes, so pages can reload the sources it changed.
+ * Call refresh after starting work to begin polling.
+ */
+export function useJobs(agentId: string | undefined, onSettled?: () => void) {
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const wasActive = useRef(false);
+
+  const refresh = useCallback(async () => {
+    if (!agentId) return;
+    try {
+      const next = await listJobs(agentId);
+      const active = next.some(isActive);
+      if (wasActive.current && !active) {
+        onSettled?.();
+      }
+      wasActive.current = active;
+      setJobs(next);
+    } catch (err) {
+      console.error("Failed to fetch jobs:", err);
+    }
+  }, [agentId, onSettled]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const active = jobs.some(isActive);
+  useEffect(() => {
+    if (!active) return;
+    const interval = setInterval(refresh, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [active, refresh]);
+
+  // Latest job of each source (jobs come newest first)
+  const jobsBySource = useMemo(() => {
+    const bySource: Record<string, Job> = {};
+    for (const job of jobs) {
+      if (job.sourceId && !bySource[job.sourceId]) {
+        bySource[job.sourceId] = job;
+      }
+    }
+    return bySource;
+  }, [jobs]);
+
+  return { jobs, jobsBySource, refresh };
+}
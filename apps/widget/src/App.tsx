@@ -1,9 +1,18 @@
 import { useCallback, useEffect, useRef, useState } from "react";
 
+interface Citation {
+	index: number;
+	type: "document" | "text" | "qa" | "web";
+	sourceId: string;
+	title: string;
+	url?: string;
+}
+
 interface Message {
 	id: string;
 	role: "user" | "assistant";
 	content: string;
+	citations?: Citation[];
 }
 
 interface InterfaceSettings {
@@ -174,6 +183,11 @@ function App() {
 										};
 										return updated;
 									});
+								} else if (data.type === "citations" && Array.isArray(data.citations)) {
+									const citations: Citation[] = data.citations;
+									setMessages((prev) =>
+										prev.map((m) => (m.id === assistantMessageId ? { ...m, citations } : m)),
+									);
 								}
 							} catch {
 								// Skip invalid JSON
@@ -345,6 +359,29 @@ function App() {
 										className={`px-4 py-3 rounded-lg max-w-[80%] whitespace-pre-wrap ${assistantBubbleClass}`}
 									>
 										{msg.content || (isLoading ? "..." : "")}
+										{msg.citations && msg.citations.length > 0 && (
+											<div className={`mt-2 pt-2 border-t text-xs ${borderClass}`}>
+												<div className={isDark ? "text-gray-400" : "text-gray-500"}>Sources</div>
+												{msg.citations.map((citation) => (
+													<div key={citation.index} className="truncate">
+														[{citation.index}]{" "}
+														{citation.url ? (
+															<a
+																href={citation.url}
+																target="_blank"
+																rel="noopener noreferrer"
+																className="underline"
+																style={{ color: settings?.primaryColor }}
+															>
+																{citation.title}
+															</a>
+														) : (
+															citation.title
+														)}
+													</div>
+												))}
+											</div>
+										)}
 									</div>
 								</div>
 							)}
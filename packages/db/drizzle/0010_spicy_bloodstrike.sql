@@ -0,0 +1,2 @@
+ALTER TABLE "agents" ADD COLUMN "max_tool_steps" integer DEFAULT 5 NOT NULL;--> statement-breakpoint
+ALTER TABLE "chat_messages" ADD COLUMN "tool_calls" json;
\ No newline at end of file
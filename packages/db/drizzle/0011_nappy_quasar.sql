@@ -0,0 +1,3 @@
+ALTER TABLE "agents" ADD COLUMN "provider" text;--> statement-breakpoint
+ALTER TABLE "agents" ADD COLUMN "provider_base_url" text;--> statement-breakpoint
+ALTER TABLE "agents" ADD COLUMN "provider_api_key" text;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "agents" ADD COLUMN "fallback_models" json DEFAULT '[]'::json NOT NULL;--> statement-breakpoint
+ALTER TABLE "chat_messages" ADD COLUMN "model" text;
\ No newline at end of file
@@ -0,0 +1,9 @@
+ALTER TABLE "agents" ADD COLUMN "retrieval_mode" text DEFAULT 'vector' NOT NULL;--> statement-breakpoint
+ALTER TABLE "document_chunks" ADD COLUMN "search_vector" "tsvector" GENERATED ALWAYS AS (to_tsvector('english', content)) STORED;--> statement-breakpoint
+ALTER TABLE "qa_source_chunks" ADD COLUMN "search_vector" "tsvector" GENERATED ALWAYS AS (to_tsvector('english', content)) STORED;--> statement-breakpoint
+ALTER TABLE "text_source_chunks" ADD COLUMN "search_vector" "tsvector" GENERATED ALWAYS AS (to_tsvector('english', content)) STORED;--> statement-breakpoint
+ALTER TABLE "web_source_page_chunks" ADD COLUMN "search_vector" "tsvector" GENERATED ALWAYS AS (to_tsvector('english', content)) STORED;--> statement-breakpoint
+CREATE INDEX "document_chunks_search_idx" ON "document_chunks" USING gin ("search_vector");--> statement-breakpoint
+CREATE INDEX "qa_source_chunks_search_idx" ON "qa_source_chunks" USING gin ("search_vector");--> statement-breakpoint
+CREATE INDEX "text_source_chunks_search_idx" ON "text_source_chunks" USING gin ("search_vector");--> statement-breakpoint
+CREATE INDEX "web_source_page_chunks_search_idx" ON "web_source_page_chunks" USING gin ("search_vector");
\ No newline at end of file
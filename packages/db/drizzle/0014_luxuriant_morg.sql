@@ -0,0 +1 @@
+ALTER TABLE "agents" ADD COLUMN "retrieval_settings" json DEFAULT '{}'::json NOT NULL;
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TABLE "analytics_daily" ADD COLUMN "qa_hit_count" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "chat_messages" ADD COLUMN "qa_source_id" uuid;--> statement-breakpoint
+ALTER TABLE "qa_source_chunks" ADD COLUMN "question_embedding" vector(1024);--> statement-breakpoint
+ALTER TABLE "chat_messages" ADD CONSTRAINT "chat_messages_qa_source_id_qa_sources_id_fk" FOREIGN KEY ("qa_source_id") REFERENCES "public"."qa_sources"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "qa_source_question_embedding_idx" ON "qa_source_chunks" USING hnsw ("question_embedding" vector_cosine_ops);
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "chat_messages" ADD COLUMN "search_queries" json;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "documents" ADD COLUMN "chunk_strategy" text DEFAULT 'fixed' NOT NULL;--> statement-breakpoint
+ALTER TABLE "text_sources" ADD COLUMN "chunk_strategy" text DEFAULT 'fixed' NOT NULL;--> statement-breakpoint
+ALTER TABLE "web_sources" ADD COLUMN "chunk_strategy" text DEFAULT 'fixed' NOT NULL;
\ No newline at end of file
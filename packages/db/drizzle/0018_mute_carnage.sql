@@ -0,0 +1,3 @@
+ALTER TABLE "agents" ADD COLUMN "chunk_size" integer DEFAULT 256 NOT NULL;--> statement-breakpoint
+ALTER TABLE "agents" ADD COLUMN "chunk_overlap" integer DEFAULT 50 NOT NULL;--> statement-breakpoint
+ALTER TABLE "documents" ADD COLUMN "content" text;
\ No newline at end of file
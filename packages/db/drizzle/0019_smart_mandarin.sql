@@ -0,0 +1,21 @@
+CREATE TABLE "reindex_jobs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"agent_id" uuid NOT NULL,
+	"embedding_model" text NOT NULL,
+	"status" text DEFAULT 'running' NOT NULL,
+	"total_chunks" integer DEFAULT 0 NOT NULL,
+	"processed_chunks" integer DEFAULT 0 NOT NULL,
+	"error_message" text,
+	"completed_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "agents" ADD COLUMN "embedding_model" text;--> statement-breakpoint
+ALTER TABLE "document_chunks" ADD COLUMN "pending_embedding" vector(1024);--> statement-breakpoint
+ALTER TABLE "qa_source_chunks" ADD COLUMN "pending_embedding" vector(1024);--> statement-breakpoint
+ALTER TABLE "qa_source_chunks" ADD COLUMN "pending_question_embedding" vector(1024);--> statement-breakpoint
+ALTER TABLE "text_source_chunks" ADD COLUMN "pending_embedding" vector(1024);--> statement-breakpoint
+ALTER TABLE "web_source_page_chunks" ADD COLUMN "pending_embedding" vector(1024);--> statement-breakpoint
+ALTER TABLE "reindex_jobs" ADD CONSTRAINT "reindex_jobs_agent_id_agents_id_fk" FOREIGN KEY ("agent_id") REFERENCES "public"."agents"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "reindex_jobs_agent_idx" ON "reindex_jobs" USING btree ("agent_id");
\ No newline at end of file
@@ -0,0 +1,12 @@
+ALTER TABLE "document_chunks" ADD COLUMN "embedding_status" text DEFAULT 'ok' NOT NULL;--> statement-breakpoint
+ALTER TABLE "document_chunks" ADD COLUMN "embedding_error" text;--> statement-breakpoint
+ALTER TABLE "qa_source_chunks" ADD COLUMN "embedding_status" text DEFAULT 'ok' NOT NULL;--> statement-breakpoint
+ALTER TABLE "qa_source_chunks" ADD COLUMN "embedding_error" text;--> statement-breakpoint
+ALTER TABLE "text_source_chunks" ADD COLUMN "embedding_status" text DEFAULT 'ok' NOT NULL;--> statement-breakpoint
+ALTER TABLE "text_source_chunks" ADD COLUMN "embedding_error" text;--> statement-breakpoint
+ALTER TABLE "web_source_page_chunks" ADD COLUMN "embedding_status" text DEFAULT 'ok' NOT NULL;--> statement-breakpoint
+ALTER TABLE "web_source_page_chunks" ADD COLUMN "embedding_error" text;--> statement-breakpoint
+UPDATE "document_chunks" SET "embedding_status" = 'failed' WHERE "embedding" IS NULL;--> statement-breakpoint
+UPDATE "qa_source_chunks" SET "embedding_status" = 'failed' WHERE "embedding" IS NULL;--> statement-breakpoint
+UPDATE "text_source_chunks" SET "embedding_status" = 'failed' WHERE "embedding" IS NULL;--> statement-breakpoint
+UPDATE "web_source_page_chunks" SET "embedding_status" = 'failed' WHERE "embedding" IS NULL;
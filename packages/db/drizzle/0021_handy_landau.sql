@@ -0,0 +1,25 @@
+CREATE TABLE "jobs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"type" text NOT NULL,
+	"agent_id" uuid,
+	"source_type" text,
+	"source_id" uuid,
+	"payload" json DEFAULT '{}'::json NOT NULL,
+	"status" text DEFAULT 'queued' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"max_attempts" integer DEFAULT 3 NOT NULL,
+	"run_at" timestamp DEFAULT now() NOT NULL,
+	"locked_by" text,
+	"locked_at" timestamp,
+	"progress" integer DEFAULT 0 NOT NULL,
+	"total" integer,
+	"error_message" text,
+	"completed_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "jobs" ADD CONSTRAINT "jobs_agent_id_agents_id_fk" FOREIGN KEY ("agent_id") REFERENCES "public"."agents"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "jobs_claim_idx" ON "jobs" USING btree ("status","run_at");--> statement-breakpoint
+CREATE INDEX "jobs_agent_idx" ON "jobs" USING btree ("agent_id");--> statement-breakpoint
+CREATE INDEX "jobs_source_idx" ON "jobs" USING btree ("source_id");
\ No newline at end of file
@@ -0,0 +1 @@
+CREATE INDEX "documents_agent_hash_idx" ON "documents" USING btree ("agent_id","content_hash");
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "web_source_pages" ADD COLUMN "depth" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "web_sources" ADD COLUMN "max_depth" integer DEFAULT 3 NOT NULL;--> statement-breakpoint
+ALTER TABLE "web_sources" ADD COLUMN "include_patterns" json DEFAULT '[]'::json NOT NULL;--> statement-breakpoint
+ALTER TABLE "web_sources" ADD COLUMN "exclude_patterns" json DEFAULT '[]'::json NOT NULL;
\ No newline at end of file
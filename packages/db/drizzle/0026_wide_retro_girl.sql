@@ -0,0 +1,5 @@
+ALTER TABLE "web_source_pages" ADD COLUMN "content_hash" text;--> statement-breakpoint
+ALTER TABLE "web_source_pages" ADD COLUMN "etag" text;--> statement-breakpoint
+ALTER TABLE "web_source_pages" ADD COLUMN "last_modified" text;--> statement-breakpoint
+ALTER TABLE "web_source_pages" ADD COLUMN "links" json;--> statement-breakpoint
+UPDATE "web_source_pages" SET "content_hash" = encode(sha256(convert_to("content", 'UTF8')), 'hex') WHERE "status" = 'crawled' AND "content" IS NOT NULL;
\ No newline at end of file
@@ -0,0 +1,22 @@
+CREATE TABLE "web_source_crawl_runs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"web_source_id" uuid NOT NULL,
+	"job_id" uuid,
+	"trigger" text DEFAULT 'manual' NOT NULL,
+	"status" text DEFAULT 'running' NOT NULL,
+	"pages_added" integer DEFAULT 0 NOT NULL,
+	"pages_changed" integer DEFAULT 0 NOT NULL,
+	"pages_unchanged" integer DEFAULT 0 NOT NULL,
+	"pages_failed" integer DEFAULT 0 NOT NULL,
+	"pages_removed" integer DEFAULT 0 NOT NULL,
+	"error_message" text,
+	"started_at" timestamp DEFAULT now() NOT NULL,
+	"finished_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "web_sources" ADD COLUMN "schedule" text;--> statement-breakpoint
+ALTER TABLE "web_sources" ADD COLUMN "next_crawl_at" timestamp;--> statement-breakpoint
+ALTER TABLE "web_source_crawl_runs" ADD CONSTRAINT "web_source_crawl_runs_web_source_id_web_sources_id_fk" FOREIGN KEY ("web_source_id") REFERENCES "public"."web_sources"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "web_source_crawl_runs" ADD CONSTRAINT "web_source_crawl_runs_job_id_jobs_id_fk" FOREIGN KEY ("job_id") REFERENCES "public"."jobs"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "web_source_crawl_runs_source_idx" ON "web_source_crawl_runs" USING btree ("web_source_id","started_at");--> statement-breakpoint
+CREATE INDEX "web_sources_next_crawl_idx" ON "web_sources" USING btree ("next_crawl_at");
\ No newline at end of file
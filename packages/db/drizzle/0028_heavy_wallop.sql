@@ -0,0 +1,4 @@
+ALTER TABLE "web_source_crawl_runs" ADD COLUMN "pages_discovered" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "web_source_crawl_runs" ADD COLUMN "pages_fetched" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "web_source_crawl_runs" ADD COLUMN "current_url" text;--> statement-breakpoint
+ALTER TABLE "web_source_crawl_runs" ADD COLUMN "cancel_requested_at" timestamp;
\ No newline at end of file
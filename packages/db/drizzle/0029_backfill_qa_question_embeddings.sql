@@ -0,0 +1,6 @@
+-- Q&As embedded before question embeddings existed (0015) can only match exactly; queue them to be embedded again
+INSERT INTO "jobs" ("type", "agent_id", "source_type", "source_id", "payload")
+SELECT 'embed_qa_source', qs."agent_id", 'qa_source', qs."id", json_build_object('qaSourceId', qs."id")
+FROM "qa_sources" qs
+WHERE EXISTS (SELECT 1 FROM "qa_source_chunks" c WHERE c."qa_source_id" = qs."id" AND c."question_embedding" IS NULL)
+AND NOT EXISTS (SELECT 1 FROM "jobs" j WHERE j."type" = 'embed_qa_source' AND j."source_id" = qs."id" AND j."status" = 'queued');
@@ -0,0 +1,9 @@
+-- Keep the oldest of any jobs of a type queued more than once for a source
+UPDATE "jobs" SET "status" = 'cancelled', "updated_at" = now()
+WHERE "status" = 'queued' AND "source_id" IS NOT NULL AND EXISTS (
+	SELECT 1 FROM "jobs" "older"
+	WHERE "older"."status" = 'queued' AND "older"."type" = "jobs"."type"
+		AND "older"."source_id" = "jobs"."source_id"
+		AND ("older"."created_at", "older"."id") < ("jobs"."created_at", "jobs"."id")
+);--> statement-breakpoint
+CREATE UNIQUE INDEX "jobs_queued_source_idx" ON "jobs" USING btree ("type","source_id") WHERE "jobs"."status" = 'queued';
@@ -0,0 +1,6 @@
+-- Agents created before their embedding model was recorded search by keyword until it is known; queue checking which model embedded them
+INSERT INTO "jobs" ("type", "agent_id", "source_type", "source_id", "payload")
+SELECT 'detect_embedding_model', a."id", 'agent', a."id", json_build_object('agentId', a."id")
+FROM "agents" a
+WHERE a."embedding_model" IS NULL
+AND NOT EXISTS (SELECT 1 FROM "jobs" j WHERE j."type" = 'detect_embedding_model' AND j."source_id" = a."id" AND j."status" = 'queued');
@@ -2,7 +2,22 @@ import { drizzle } from "drizzle-orm/postgres-js";
 import postgres from "postgres";
 import * as schema from "./schema";
 
-export { and, count, desc, eq, gte, lte, ne, sql, sum } from "drizzle-orm";
+export {
+	and,
+	count,
+	desc,
+	eq,
+	gte,
+	inArray,
+	isNotNull,
+	isNull,
+	lt,
+	lte,
+	ne,
+	notInArray,
+	sql,
+	sum,
+} from "drizzle-orm";
 export * from "./schema";
 
 const connectionString = process.env.DATABASE_URL;
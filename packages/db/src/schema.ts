@@ -1,15 +1,30 @@
+import { sql } from "drizzle-orm";
 import {
+	type AnyPgColumn,
 	boolean,
+	customType,
 	index,
 	integer,
 	json,
 	pgTable,
 	text,
 	timestamp,
+	uniqueIndex,
 	uuid,
 	vector,
 } from "drizzle-orm/pg-core";
 
+// Size of every embedding column; the configured embedding model must produce vectors this long
+export const EMBEDDING_DIMENSIONS = 1024;
+
+// Postgres full-text search vector, generated by the database from a text column
+const tsvector = customType<{ data: string }>({
+	dataType: () => "tsvector",
+});
+
+const contentSearchVector = () =>
+	tsvector("search_vector").generatedAlwaysAs(sql`to_tsvector('english', content)`);
+
 // BetterAuth tables
 export const users = pgTable("users", {
 	id: text("id").primaryKey(),
@@ -67,6 +82,23 @@ export const verifications = pgTable("verifications", {
 	updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Per-agent retrieval tuning; keys left unset fall back to the API defaults
+export interface RetrievalSettings {
+	topK: number; // chunks added to the prompt
+	minScore: number; // minimum cosine similarity (0-1) for vector matches
+	// Score multipliers per source type; 0 leaves that source type out
+	sourceWeights: Partial<Record<"document" | "text" | "qa" | "web", number>>;
+	maxContextTokens: number; // budget for retrieved context in the prompt
+	// Questions at least this similar to a Q&A question get its curated answer verbatim; null disables
+	qaMatchThreshold: number | null;
+	qaSkipLlm: boolean; // stream matched Q&A answers without calling the LLM
+	// Condense the conversation into a standalone search query before retrieval
+	queryRewrite: boolean;
+	queryVariants: number; // search queries generated per rewrite, merged into one ranking
+	reranker: "none" | "voyage" | "local" | "llm"; // re-scores retrieved chunks before the top-k cut
+	rerankCandidates: number; // matches fetched for the reranker to choose from
+}
+
 // AI Agents configuration - must be defined before tables that reference it
 export const agents = pgTable("agents", {
 	id: uuid("id").primaryKey().defaultRandom(),
@@ -76,8 +108,30 @@ export const agents = pgTable("agents", {
 	name: text("name").notNull(),
 	slug: text("slug").notNull(), // URL-friendly identifier
 	model: text("model").notNull().default("claude-sonnet-4-20250514"),
+	// LLM provider - null uses the deployment default from env
+	provider: text("provider"), // "anthropic" | "openai" | "ollama"
+	providerBaseUrl: text("provider_base_url"), // overrides the provider's default endpoint
+	providerApiKey: text("provider_api_key"), // encrypted, never returned by the API
+	// Tried in order when the primary model fails before streaming any output
+	fallbackModels: json("fallback_models")
+		.$type<Array<{ provider: string; model: string }>>()
+		.notNull()
+		.default([]),
 	temperature: integer("temperature").notNull().default(50), // 0-100 stored as int, divided by 100 for API
 	systemPrompt: text("system_prompt").notNull().default("You are a helpful assistant."),
+	maxToolSteps: integer("max_tool_steps").notNull().default(5), // tool-use rounds per chat turn
+	retrievalMode: text("retrieval_mode").notNull().default("vector"), // "vector" | "keyword" | "hybrid"
+	retrievalSettings: json("retrieval_settings")
+		.$type<Partial<RetrievalSettings>>()
+		.notNull()
+		.default({}),
+	// Chunk size and overlap for ingested sources, in embedding-model tokens
+	chunkSize: integer("chunk_size").notNull().default(256),
+	chunkOverlap: integer("chunk_overlap").notNull().default(50),
+	// "provider/model" that produced the agent's chunk embeddings; null for agents created before
+	// this was recorded until a detect_embedding_model job checks them, and they need re-indexing
+	// meanwhile
+	embeddingModel: text("embedding_model"),
 	isDefault: boolean("is_default").notNull().default(false),
 	createdAt: timestamp("created_at").defaultNow().notNull(),
 	updatedAt: timestamp("updated_at").defaultNow().notNull(),
@@ -190,20 +244,58 @@ export const toolTemplates = pgTable("tool_templates", {
 export type ToolTemplate = typeof toolTemplates.$inferSelect;
 export type NewToolTemplate = typeof toolTemplates.$inferInsert;
 
-export const documents = pgTable("documents", {
-	id: uuid("id").primaryKey().defaultRandom(),
-	agentId: uuid("agent_id")
-		.notNull()
-		.references(() => agents.id, { onDelete: "cascade" }),
-	filename: text("filename").notNull(),
-	mimeType: text("mime_type").notNull(),
-	size: integer("size").notNull(),
-	createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+export const documents = pgTable(
+	"documents",
+	{
+		id: uuid("id").primaryKey().defaultRandom(),
+		agentId: uuid("agent_id")
+			.notNull()
+			.references(() => agents.id, { onDelete: "cascade" }),
+		filename: text("filename").notNull(),
+		mimeType: text("mime_type").notNull(),
+		size: integer("size").notNull(),
+		content: text("content"), // extracted text, kept so the document can be re-chunked
+		chunkStrategy: text("chunk_strategy").notNull().default("fixed"), // "fixed" | "structured"
+		storageKey: text("storage_key"), // original file in file storage; null for older uploads
+		contentHash: text("content_hash"), // SHA-256 of the original file
+		// The file fields above and the chunks belong to this version
+		version: integer("version").notNull().default(1),
+		// Version being processed to replace the current one (a new upload or a rollback)
+		pendingVersion: integer("pending_version"),
+		createdAt: timestamp("created_at").defaultNow().notNull(),
+	},
+	// Bulk uploads skip files the agent already has
+	(table) => [index("documents_agent_hash_idx").on(table.agentId, table.contentHash)],
+);
 
 export type Document = typeof documents.$inferSelect;
 export type NewDocument = typeof documents.$inferInsert;
 
+// Every file a document has held, numbered from 1
+export const documentVersions = pgTable(
+	"document_versions",
+	{
+		id: uuid("id").primaryKey().defaultRandom(),
+		documentId: uuid("document_id")
+			.notNull()
+			.references(() => documents.id, { onDelete: "cascade" }),
+		version: integer("version").notNull(),
+		filename: text("filename").notNull(),
+		mimeType: text("mime_type").notNull(),
+		size: integer("size").notNull(),
+		storageKey: text("storage_key"), // null for uploads from before originals were stored
+		contentHash: text("content_hash"),
+		content: text("content"), // extracted text, null until processed
+		createdAt: timestamp("created_at").defaultNow().notNull(),
+	},
+	(table) => [
+		uniqueIndex("document_versions_document_version_idx").on(table.documentId, table.version),
+	],
+);
+
+export type DocumentVersion = typeof documentVersions.$inferSelect;
+export type NewDocumentVersion = typeof documentVersions.$inferInsert;
+
 export const documentChunks = pgTable(
 	"document_chunks",
 	{
@@ -213,10 +305,19 @@ export const documentChunks = pgTable(
 			.references(() => documents.id, { onDelete: "cascade" }),
 		content: text("content").notNull(),
 		chunkIndex: integer("chunk_index").notNull(),
-		embedding: vector("embedding", { dimensions: 1024 }),
+		embedding: vector("embedding", { dimensions: EMBEDDING_DIMENSIONS }),
+		// Written by a re-index job and swapped into embedding when it finishes
+		pendingEmbedding: vector("pending_embedding", { dimensions: EMBEDDING_DIMENSIONS }),
+		// "failed" when the embedding provider was down; stored without a vector until retried
+		embeddingStatus: text("embedding_status").notNull().default("ok"), // "ok" | "failed"
+		embeddingError: text("embedding_error"),
+		searchVector: contentSearchVector(), // keyword search over content
 		createdAt: timestamp("created_at").defaultNow().notNull(),
 	},
-	(table) => [index("embedding_idx").using("hnsw", table.embedding.op("vector_cosine_ops"))],
+	(table) => [
+		index("embedding_idx").using("hnsw", table.embedding.op("vector_cosine_ops")),
+		index("document_chunks_search_idx").using("gin", table.searchVector),
+	],
 );
 
 export type DocumentChunk = typeof documentChunks.$inferSelect;
@@ -230,6 +331,7 @@ export const textSources = pgTable("text_sources", {
 		.references(() => agents.id, { onDelete: "cascade" }),
 	title: text("title").notNull(),
 	content: text("content").notNull(), // HTML content
+	chunkStrategy: text("chunk_strategy").notNull().default("fixed"), // "fixed" | "structured"
 	createdAt: timestamp("created_at").defaultNow().notNull(),
 	updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -246,11 +348,18 @@ export const textSourceChunks = pgTable(
 			.references(() => textSources.id, { onDelete: "cascade" }),
 		content: text("content").notNull(),
 		chunkIndex: integer("chunk_index").notNull(),
-		embedding: vector("embedding", { dimensions: 1024 }),
+		embedding: vector("embedding", { dimensions: EMBEDDING_DIMENSIONS }),
+		// Written by a re-index job and swapped into embedding when it finishes
+		pendingEmbedding: vector("pending_embedding", { dimensions: EMBEDDING_DIMENSIONS }),
+		// "failed" when the embedding provider was down; stored without a vector until retried
+		embeddingStatus: text("embedding_status").notNull().default("ok"), // "ok" | "failed"
+		embeddingError: text("embedding_error"),
+		searchVector: contentSearchVector(), // keyword search over content
 		createdAt: timestamp("created_at").defaultNow().notNull(),
 	},
 	(table) => [
 		index("text_source_embedding_idx").using("hnsw", table.embedding.op("vector_cosine_ops")),
+		index("text_source_chunks_search_idx").using("gin", table.searchVector),
 	],
 );
 
@@ -280,6 +389,37 @@ export const chatMessages = pgTable("chat_messages", {
 		.references(() => conversations.id, { onDelete: "cascade" }),
 	role: text("role").notNull(), // "user" | "assistant"
 	content: text("content").notNull(),
+	model: text("model"), // model that generated an assistant message (may be a fallback)
+	// Set when the message was answered from a matched Q&A
+	qaSourceId: uuid("qa_source_id").references((): AnyPgColumn => qaSources.id, {
+		onDelete: "set null",
+	}),
+	// Search queries a user message was rewritten into for retrieval
+	searchQueries: json("search_queries").$type<string[]>(),
+	// Tool calls made while generating an assistant message, in execution order
+	toolCalls:
+		json("tool_calls").$type<
+			Array<{
+				step: number;
+				id: string;
+				name: string;
+				input: Record<string, unknown>;
+				result: string;
+			}>
+		>(),
+	// Sources an assistant message cited, as they were when it was written (a document's version
+	// may have changed since)
+	citations:
+		json("citations").$type<
+			Array<{
+				index: number;
+				type: "document" | "text" | "qa" | "web";
+				sourceId: string;
+				title: string;
+				url?: string;
+				version?: number;
+			}>
+		>(),
 	createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -383,11 +523,26 @@ export const qaSourceChunks = pgTable(
 		question: text("question").notNull(), // The specific question this embedding is for
 		content: text("content").notNull(), // Combined "Q: question\nA: answer" for context
 		chunkIndex: integer("chunk_index").notNull(),
-		embedding: vector("embedding", { dimensions: 1024 }),
+		embedding: vector("embedding", { dimensions: EMBEDDING_DIMENSIONS }),
+		questionEmbedding: vector("question_embedding", { dimensions: EMBEDDING_DIMENSIONS }), // question alone, for exact-match answers
+		// Written by a re-index job and swapped in when it finishes
+		pendingEmbedding: vector("pending_embedding", { dimensions: EMBEDDING_DIMENSIONS }),
+		pendingQuestionEmbedding: vector("pending_question_embedding", {
+			dimensions: EMBEDDING_DIMENSIONS,
+		}),
+		// "failed" when the embedding provider was down; stored without vectors until retried
+		embeddingStatus: text("embedding_status").notNull().default("ok"), // "ok" | "failed"
+		embeddingError: text("embedding_error"),
+		searchVector: contentSearchVector(), // keyword search over content
 		createdAt: timestamp("created_at").defaultNow().notNull(),
 	},
 	(table) => [
 		index("qa_source_embedding_idx").using("hnsw", table.embedding.op("vector_cosine_ops")),
+		index("qa_source_chunks_search_idx").using("gin", table.searchVector),
+		index("qa_source_question_embedding_idx").using(
+			"hnsw",
+			table.questionEmbedding.op("vector_cosine_ops"),
+		),
 	],
 );
 
@@ -494,6 +649,7 @@ export const analyticsDaily = pgTable(
 		messageCount: integer("message_count").notNull().default(0),
 		thumbsUpCount: integer("thumbs_up_count").notNull().default(0),
 		thumbsDownCount: integer("thumbs_down_count").notNull().default(0),
+		qaHitCount: integer("qa_hit_count").notNull().default(0), // answers served from matched Q&A
 		createdAt: timestamp("created_at").defaultNow().notNull(),
 		updatedAt: timestamp("updated_at").defaultNow().notNull(),
 	},
@@ -570,21 +726,33 @@ export type AnalyticsToolDaily = typeof analyticsToolDaily.$inferSelect;
 export type NewAnalyticsToolDaily = typeof analyticsToolDaily.$inferInsert;
 
 // Web Sources - websites added for knowledge base
-export const webSources = pgTable("web_sources", {
-	id: uuid("id").primaryKey().defaultRandom(),
-	agentId: uuid("agent_id")
-		.notNull()
-		.references(() => agents.id, { onDelete: "cascade" }),
-	url: text("url").notNull(), // The source URL (individual page, sitemap, or crawl root)
-	sourceType: text("source_type").notNull(), // "page" | "sitemap" | "crawl"
-	name: text("name"), // Optional display name
-	maxPages: integer("max_pages").default(100), // Max pages to crawl for sitemap/crawl types
-	status: text("status").notNull().default("pending"), // "pending" | "crawling" | "completed" | "failed"
-	lastCrawledAt: timestamp("last_crawled_at"),
-	errorMessage: text("error_message"),
-	createdAt: timestamp("created_at").defaultNow().notNull(),
-	updatedAt: timestamp("updated_at").defaultNow().notNull(),
-});
+export const webSources = pgTable(
+	"web_sources",
+	{
+		id: uuid("id").primaryKey().defaultRandom(),
+		agentId: uuid("agent_id")
+			.notNull()
+			.references(() => agents.id, { onDelete: "cascade" }),
+		url: text("url").notNull(), // The source URL (individual page, sitemap, or crawl root)
+		sourceType: text("source_type").notNull(), // "page" | "sitemap" | "crawl"
+		name: text("name"), // Optional display name
+		maxPages: integer("max_pages").default(100), // Max pages to crawl for sitemap/crawl types
+		maxDepth: integer("max_depth").notNull().default(3), // Links followed from the root, crawl type
+		// URL rules for sitemap/crawl types: globs, or regexes written as /.../
+		includePatterns: json("include_patterns").$type<string[]>().notNull().default([]), // empty = all
+		excludePatterns: json("exclude_patterns").$type<string[]>().notNull().default([]),
+		chunkStrategy: text("chunk_strategy").notNull().default("fixed"), // "fixed" | "structured"
+		status: text("status").notNull().default("pending"), // "pending" | "crawling" | "completed" | "failed"
+		// Recrawls: "daily", "weekly" or a cron expression in UTC; null crawls only on request
+		schedule: text("schedule"),
+		nextCrawlAt: timestamp("next_crawl_at"), // when the scheduler next queues a crawl
+		lastCrawledAt: timestamp("last_crawled_at"),
+		errorMessage: text("error_message"),
+		createdAt: timestamp("created_at").defaultNow().notNull(),
+		updatedAt: timestamp("updated_at").defaultNow().notNull(),
+	},
+	(table) => [index("web_sources_next_crawl_idx").on(table.nextCrawlAt)],
+);
 
 export type WebSource = typeof webSources.$inferSelect;
 export type NewWebSource = typeof webSources.$inferInsert;
@@ -598,11 +766,17 @@ export const webSourcePages = pgTable(
 			.notNull()
 			.references(() => webSources.id, { onDelete: "cascade" }),
 		url: text("url").notNull(),
+		depth: integer("depth").notNull().default(0), // Links followed from the crawl root
 		title: text("title"),
 		content: text("content"), // Extracted text content
 		contentSize: integer("content_size").default(0), // Size in bytes
 		status: text("status").notNull().default("pending"), // "pending" | "crawled" | "failed" | "excluded"
 		errorMessage: text("error_message"),
+		// What a recrawl compares against to skip unchanged pages
+		contentHash: text("content_hash"), // SHA-256 of content, as embedded
+		etag: text("etag"),
+		lastModified: text("last_modified"), // Last-Modified header, sent back as If-Modified-Since
+		links: json("links").$type<string[]>(), // Outgoing links, followed when the page is unchanged
 		lastCrawledAt: timestamp("last_crawled_at"),
 		createdAt: timestamp("created_at").defaultNow().notNull(),
 		updatedAt: timestamp("updated_at").defaultNow().notNull(),
@@ -623,13 +797,112 @@ export const webSourcePageChunks = pgTable(
 			.references(() => webSourcePages.id, { onDelete: "cascade" }),
 		content: text("content").notNull(),
 		chunkIndex: integer("chunk_index").notNull(),
-		embedding: vector("embedding", { dimensions: 1024 }),
+		embedding: vector("embedding", { dimensions: EMBEDDING_DIMENSIONS }),
+		// Written by a re-index job and swapped into embedding when it finishes
+		pendingEmbedding: vector("pending_embedding", { dimensions: EMBEDDING_DIMENSIONS }),
+		// "failed" when the embedding provider was down; stored without a vector until retried
+		embeddingStatus: text("embedding_status").notNull().default("ok"), // "ok" | "failed"
+		embeddingError: text("embedding_error"),
+		searchVector: contentSearchVector(), // keyword search over content
 		createdAt: timestamp("created_at").defaultNow().notNull(),
 	},
 	(table) => [
 		index("web_source_page_chunks_idx").using("hnsw", table.embedding.op("vector_cosine_ops")),
+		index("web_source_page_chunks_search_idx").using("gin", table.searchVector),
 	],
 );
 
 export type WebSourcePageChunk = typeof webSourcePageChunks.$inferSelect;
 export type NewWebSourcePageChunk = typeof webSourcePageChunks.$inferInsert;
+
+// Web Source Crawl Runs - one row per crawl attempt, with what it found
+export const webSourceCrawlRuns = pgTable(
+	"web_source_crawl_runs",
+	{
+		id: uuid("id").primaryKey().defaultRandom(),
+		webSourceId: uuid("web_source_id")
+			.notNull()
+			.references(() => webSources.id, { onDelete: "cascade" }),
+		jobId: uuid("job_id").references(() => jobs.id, { onDelete: "set null" }),
+		trigger: text("trigger").notNull().default("manual"), // "manual" | "scheduled"
+		status: text("status").notNull().default("running"), // "running" | "completed" | "failed" | "cancelled"
+		pagesDiscovered: integer("pages_discovered").notNull().default(0),
+		pagesFetched: integer("pages_fetched").notNull().default(0), // including 304 Not Modified
+		pagesAdded: integer("pages_added").notNull().default(0),
+		pagesChanged: integer("pages_changed").notNull().default(0),
+		pagesUnchanged: integer("pages_unchanged").notNull().default(0),
+		pagesFailed: integer("pages_failed").notNull().default(0),
+		pagesRemoved: integer("pages_removed").notNull().default(0),
+		currentUrl: text("current_url"), // page most recently started, while running
+		cancelRequestedAt: timestamp("cancel_requested_at"), // the crawl stops once it sees this
+		errorMessage: text("error_message"),
+		startedAt: timestamp("started_at").defaultNow().notNull(),
+		finishedAt: timestamp("finished_at"),
+	},
+	(table) => [index("web_source_crawl_runs_source_idx").on(table.webSourceId, table.startedAt)],
+);
+
+export type WebSourceCrawlRun = typeof webSourceCrawlRuns.$inferSelect;
+export type NewWebSourceCrawlRun = typeof webSourceCrawlRuns.$inferInsert;
+
+// Re-index jobs - re-embed all of an agent's chunks with a new embedding model
+export const reindexJobs = pgTable(
+	"reindex_jobs",
+	{
+		id: uuid("id").primaryKey().defaultRandom(),
+		agentId: uuid("agent_id")
+			.notNull()
+			.references(() => agents.id, { onDelete: "cascade" }),
+		embeddingModel: text("embedding_model").notNull(), // "provider/model" being switched to
+		status: text("status").notNull().default("running"), // "running" | "completed" | "failed"
+		totalChunks: integer("total_chunks").notNull().default(0),
+		processedChunks: integer("processed_chunks").notNull().default(0),
+		errorMessage: text("error_message"),
+		completedAt: timestamp("completed_at"),
+		createdAt: timestamp("created_at").defaultNow().notNull(),
+		updatedAt: timestamp("updated_at").defaultNow().notNull(),
+	},
+	(table) => [index("reindex_jobs_agent_idx").on(table.agentId)],
+);
+
+export type ReindexJob = typeof reindexJobs.$inferSelect;
+export type NewReindexJob = typeof reindexJobs.$inferInsert;
+
+// Background work (embedding uploads, text and Q&A sources, crawls) queued for the worker.
+// Workers claim jobs with SELECT ... FOR UPDATE SKIP LOCKED, so several can share the table.
+export const jobs = pgTable(
+	"jobs",
+	{
+		id: uuid("id").primaryKey().defaultRandom(),
+		type: text("type").notNull(), // e.g. "ingest_document", "crawl_web_source"
+		agentId: uuid("agent_id").references(() => agents.id, { onDelete: "cascade" }),
+		// Source the job works on, so the dashboard can show progress next to it
+		sourceType: text("source_type"), // "document" | "text_source" | "qa_source" | "web_source" | "agent"
+		sourceId: uuid("source_id"),
+		payload: json("payload").$type<Record<string, unknown>>().notNull().default({}),
+		status: text("status").notNull().default("queued"), // "queued" | "running" | "completed" | "failed" | "cancelled"
+		attempts: integer("attempts").notNull().default(0),
+		maxAttempts: integer("max_attempts").notNull().default(3),
+		runAt: timestamp("run_at").defaultNow().notNull(), // not claimed before this, for retry backoff
+		lockedBy: text("locked_by"), // worker id while running
+		lockedAt: timestamp("locked_at"),
+		progress: integer("progress").notNull().default(0),
+		total: integer("total"), // null until the job knows how much work there is
+		errorMessage: text("error_message"),
+		completedAt: timestamp("completed_at"),
+		createdAt: timestamp("created_at").defaultNow().notNull(),
+		updatedAt: timestamp("updated_at").defaultNow().notNull(),
+	},
+	(table) => [
+		index("jobs_claim_idx").on(table.status, table.runAt),
+		index("jobs_agent_idx").on(table.agentId),
+		index("jobs_source_idx").on(table.sourceId),
+		// At most one job of a type queued per source; enqueueJob returns the queued one instead
+		uniqueIndex("jobs_queued_source_idx")
+			.on(table.type, table.sourceId)
+			.where(sql`${table.status} = 'queued'`),
+	],
+);
+
+export type Job = typeof jobs.$inferSelect;
+export type NewJob = typeof jobs.$inferInsert;
@@ -37,6 +37,7 @@ export type StreamEventType =
 	| "content_block_delta"
 	| "content_block_stop"
 	| "message_stop"
+	| "citations"
 	| "error";
 
 export interface StreamEvent {
@@ -65,6 +66,21 @@ export interface MessageStopEvent {
 	type: "message_stop";
 }
 
+// Sources the assistant cited, sent after the answer text
+export interface CitationsEvent {
+	type: "citations";
+	citations: Citation[];
+}
+
+export interface Citation {
+	index: number; // the [n] marker used in the answer
+	type: SourceType;
+	sourceId: string;
+	title: string;
+	url?: string;
+	version?: number; // document version the cited text came from
+}
+
 export interface ErrorEvent {
 	type: "error";
 	error: {
@@ -72,10 +88,22 @@ export interface ErrorEvent {
 	};
 }
 
+export type SourceType = "document" | "text" | "qa" | "web";
+
+// Where a retrieved chunk came from
+export interface SourceOrigin {
+	type: SourceType;
+	sourceId: string; // document, text source, Q&A or web page id
+	title: string;
+	url?: string;
+	version?: number; // documents only
+}
+
 export interface VectorSearchResult {
 	id: string;
 	content: string;
 	score: number;
+	source?: SourceOrigin;
 	metadata?: Record<string, unknown>;
 }
 
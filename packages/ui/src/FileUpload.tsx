@@ -4,16 +4,22 @@ import { type ChangeEvent, type DragEvent, useCallback, useState } from "react";
 
 export interface FileUploadProps {
 	onUpload: (file: File) => Promise<void>;
+	// When set, several files or a ZIP archive can be uploaded at once. The server checks each
+	// file, so the batch is passed on without client-side validation.
+	onBulkUpload?: (files: File[]) => Promise<void>;
 	accept?: string;
 	maxSize?: number;
 	disabled?: boolean;
 }
 
-const ACCEPTED_TYPES = ".pdf,.docx,.txt";
+const ACCEPTED_TYPES = ".pdf,.docx,.xlsx,.pptx,.txt,.md,.markdown,.html,.htm,.csv,.json,.epub";
 const MAX_SIZE_MB = 10;
 
+const isZip = (file: File) => file.name.toLowerCase().endsWith(".zip");
+
 export function FileUpload({
 	onUpload,
+	onBulkUpload,
 	accept = ACCEPTED_TYPES,
 	maxSize = MAX_SIZE_MB * 1024 * 1024,
 	disabled = false,
@@ -33,13 +39,10 @@ export function FileUpload({
 				return;
 			}
 
-			const validTypes = [
-				"application/pdf",
-				"application/vnd.openxmlformats-officedocument.wordprocessingml.document",
-				"text/plain",
-			];
-			if (!validTypes.includes(file.type)) {
-				setError("Unsupported file type (PDF, DOCX, TXT only)");
+			// Checked by extension, browsers report no or generic types for many of these files
+			const extension = file.name.slice(file.name.lastIndexOf(".")).toLowerCase();
+			if (!accept.split(",").includes(extension)) {
+				setError("Unsupported file type");
 				return;
 			}
 
@@ -53,7 +56,29 @@ export function FileUpload({
 				setUploading(false);
 			}
 		},
-		[maxSize, onUpload],
+		[accept, maxSize, onUpload],
+	);
+
+	const handleFiles = useCallback(
+		async (files: File[]) => {
+			if (files.length === 0) return;
+			if (!onBulkUpload || (files.length === 1 && !isZip(files[0]))) {
+				handleFile(files[0]);
+				return;
+			}
+
+			setError(null);
+			setSuccess(null);
+			setUploading(true);
+			try {
+				await onBulkUpload(files);
+			} catch (err) {
+				setError(err instanceof Error ? err.message : "Upload failed");
+			} finally {
+				setUploading(false);
+			}
+		},
+		[handleFile, onBulkUpload],
 	);
 
 	const handleDragOver = useCallback((e: DragEvent) => {
@@ -70,19 +95,17 @@ export function FileUpload({
 		(e: DragEvent) => {
 			e.preventDefault();
 			setIsDragging(false);
-			const file = e.dataTransfer.files[0];
-			if (file) handleFile(file);
+			handleFiles(Array.from(e.dataTransfer.files));
 		},
-		[handleFile],
+		[handleFiles],
 	);
 
 	const handleChange = useCallback(
 		(e: ChangeEvent<HTMLInputElement>) => {
-			const file = e.target.files?.[0];
-			if (file) handleFile(file);
+			handleFiles(Array.from(e.target.files ?? []));
 			e.target.value = "";
 		},
-		[handleFile],
+		[handleFiles],
 	);
 
 	const containerStyle: React.CSSProperties = {
@@ -129,7 +152,8 @@ export function FileUpload({
 			<label style={labelStyle}>
 				<input
 					type="file"
-					accept={accept}
+					accept={onBulkUpload ? `${accept},.zip` : accept}
+					multiple={!!onBulkUpload}
 					onChange={handleChange}
 					disabled={disabled || uploading}
 					style={{ display: "none" }}
@@ -149,9 +173,14 @@ export function FileUpload({
 						/>
 					</svg>
 					<p style={{ marginTop: "0.5rem", fontWeight: 500 }}>
-						{uploading ? "Uploading..." : "Drop file here or click to upload"}
+						{uploading
+							? "Uploading..."
+							: `Drop ${onBulkUpload ? "files" : "file"} here or click to upload`}
+					</p>
+					<p style={textStyle}>
+						PDF, Office, Markdown, HTML, CSV, JSON, EPUB or TXT (max {MAX_SIZE_MB}MB)
+						{onBulkUpload && ", or a ZIP archive of them"}
 					</p>
-					<p style={textStyle}>PDF, DOCX, or TXT (max {MAX_SIZE_MB}MB)</p>
 				</div>
 			</label>
 			{error && <p style={errorStyle}>{error}</p>}